@@ -0,0 +1,29 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import { accountsOperations } from '../nodes/Cronos/actions/accounts';
+import { InvalidInputError } from '../nodes/Cronos/errors';
+import { createExecuteContext } from './helpers';
+
+describe('Account Operations', () => {
+	it('should reject token addresses with a bad checksum in token balances', async () => {
+		const badChecksum = '0x145863eB42Cf62847A6Ca784e6416C1682b1b2Ae';
+		const httpRequest = jest.fn();
+		const context = createExecuteContext({
+			parameters: {
+				address: '0x00000000000000000000000000000000000000aa',
+				tokenAddresses: `0x145863Eb42Cf62847A6Ca784e6416C1682b1b2Ae, ${badChecksum}`,
+			},
+			typeVersion: 2,
+			httpRequest,
+		});
+
+		const result = accountsOperations.getTokenBalances.call(context, 0);
+		await expect(result).rejects.toThrow(InvalidInputError);
+		await expect(result).rejects.toThrow(`Invalid token address: ${badChecksum}`);
+		expect(httpRequest).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,35 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import { defiOperations } from '../nodes/Cronos/actions/defi';
+import { InvalidInputError } from '../nodes/Cronos/errors';
+import { createExecuteContext, rpcBody, rpcResult } from './helpers';
+
+describe('DeFi Operations', () => {
+	it('should treat empty call results as undeployed contracts in protocol TVL', async () => {
+		let factoryResult = '0x';
+		const context = createExecuteContext({
+			parameters: { protocol: 'vvs' },
+			credentials: { network: 'testnet', rpcEndpoint: 'https://tvl.example.com' },
+			typeVersion: 2,
+			// Calls to addresses without code succeed with empty return data
+			httpRequest: async (request) => {
+				const call = rpcBody(request);
+				const { data } = call.params[0] as IDataObject;
+				return rpcResult(call, data === '0x574f2ba3' ? factoryResult : '0x');
+			},
+		});
+
+		const result = defiOperations.getProtocolTVL.call(context, 0);
+		await expect(result).rejects.toThrow(InvalidInputError);
+		await expect(result).rejects.toThrow('No VVS Finance factory is deployed');
+
+		factoryResult = '0x' + '2a'.padStart(64, '0');
+		const [{ json }] = await defiOperations.getProtocolTVL.call(context, 0);
+		expect(json).toMatchObject({ totalPairs: 42, tvlEstimateCRO: null });
+	});
+});
@@ -0,0 +1,26 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import { eventsOperations } from '../nodes/Cronos/actions/events';
+import { InvalidInputError } from '../nodes/Cronos/errors';
+import { createExecuteContext } from './helpers';
+
+describe('Event Operations', () => {
+	it('should reject an invalid contract address in event filters', async () => {
+		const httpRequest = jest.fn();
+		const context = createExecuteContext({
+			parameters: { address: '0x1234', eventType: 'transfer' },
+			httpRequest,
+		});
+
+		for (const operation of ['getLogs', 'subscribeToLogs', 'filterEvents'] as const) {
+			const result = eventsOperations[operation].call(context, 0);
+			await expect(result).rejects.toThrow(InvalidInputError);
+			await expect(result).rejects.toThrow('Invalid contract address: 0x1234');
+		}
+		expect(httpRequest).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,244 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import { Cronos } from '../nodes/Cronos/Cronos.node';
+import type { JsonRpcRequest } from '../nodes/Cronos/transport';
+import { encodeParameters } from '../nodes/Cronos/utils';
+import { createExecuteContext, rpcBatch, rpcBody, rpcResult } from './helpers';
+
+describe('Node Execution', () => {
+	it('should expose error codes in continueOnFail output', async () => {
+		const context = createExecuteContext({
+			parameters: {
+				resource: 'utility',
+				operation: 'encodeFunction',
+				functionSignature: 'transfer(address,uint256)',
+				parameters: '["not an address", "1"]',
+			},
+			continueOnFail: true,
+		});
+
+		const [output] = await new Cronos().execute.call(context);
+
+		expect(output).toEqual([
+			{
+				json: {
+					error: expect.stringContaining('Invalid address value'),
+					code: 'INVALID_INPUT',
+				},
+				pairedItem: { item: 0 },
+			},
+		]);
+	});
+
+	it('should output one item per record unless a summary is requested', async () => {
+		const parameters: Record<string, unknown> = {
+			resource: 'account',
+			operation: 'getMultipleBalances',
+			tag: 'latest',
+		};
+		const context = createExecuteContext({
+			parameters: (name, index) =>
+				name === 'addresses' ? (index === 0 ? '0xa, 0xb' : '0xc') : parameters[name],
+			inputData: [{ json: {} }, { json: {} }],
+			credentials: { network: 'mainnet', rpcEndpoint: 'https://split.example.com' },
+			typeVersion: 2,
+			httpRequest: async (request) =>
+				rpcBatch(request).map((call) => rpcResult(call, '0x10')),
+		});
+
+		const [records] = await new Cronos().execute.call(context);
+		expect(records).toEqual([
+			{ json: { account: '0xa', balance: '0.000000000000000016' }, pairedItem: { item: 0 } },
+			{ json: { account: '0xb', balance: '0.000000000000000016' }, pairedItem: { item: 0 } },
+			{ json: { account: '0xc', balance: '0.000000000000000016' }, pairedItem: { item: 1 } },
+		]);
+
+		parameters.simplify = false;
+		const [raw] = await new Cronos().execute.call(context);
+		expect(raw[2].json).toEqual({ account: '0xc', balance: '0x10' });
+
+		parameters.outputMode = 'summary';
+		const [summary] = await new Cronos().execute.call(context);
+		expect(summary).toHaveLength(2);
+		expect(summary[0]).toMatchObject({
+			json: { result: [{ account: '0xa' }, { account: '0xb' }] },
+		});
+		expect(summary[1].pairedItem).toEqual({ item: 1 });
+	});
+
+	it('should pass the untouched payload through when Simplify is off', async () => {
+		const parameters: Record<string, unknown> = {
+			resource: 'account',
+			operation: 'getMultipleBalances',
+			addresses: '0xa,0xb',
+			tag: 'latest',
+			simplify: false,
+			outputMode: 'summary',
+		};
+		const explorerResponse = {
+			status: '1',
+			message: 'OK',
+			result: [
+				{ account: '0xa', balance: '16' },
+				{ account: '0xb', balance: '32' },
+			],
+		};
+		const requests: IHttpRequestOptions[] = [];
+		const context = createExecuteContext({
+			parameters,
+			credentials: { network: 'mainnet', cronosScanApiKey: 'raw-output-key' },
+			httpRequest: async (request) => {
+				requests.push(request);
+				return request.method === 'POST'
+					? rpcResult(rpcBody(request), '0x19')
+					: explorerResponse;
+			},
+		});
+
+		const [balances] = await new Cronos().execute.call(context);
+		expect(requests[0].qs).toMatchObject({ action: 'balancemulti', address: '0xa,0xb' });
+		expect(balances[0].json).toEqual(explorerResponse);
+
+		parameters.resource = 'network';
+		parameters.operation = 'getChainId';
+		const [chainId] = await new Cronos().execute.call(context);
+		expect(chainId[0].json).toEqual({ jsonrpc: '2.0', id: expect.any(Number), result: '0x19' });
+
+		parameters.simplify = true;
+		const [simplified] = await new Cronos().execute.call(context);
+		expect(simplified[0].json).toEqual({ result: '25' });
+	});
+
+	it('should coalesce calls across items when RPC batching is enabled', async () => {
+		const parameters: Record<string, unknown> = {
+			resource: 'account',
+			operation: 'getTransactionCount',
+			block: 'latest',
+			options: { rpcBatchSize: 2 },
+		};
+		const addresses = ['0x01', '0x02', '0x03'];
+		const batches: JsonRpcRequest[][] = [];
+		const context = createExecuteContext({
+			parameters: (name, index) => (name === 'address' ? addresses[index] : parameters[name]),
+			inputData: addresses.map(() => ({ json: {} })),
+			httpRequest: async (request) => {
+				const batch = rpcBatch(request);
+				batches.push(batch);
+				return batch.map((call) => rpcResult(call, `nonce-${call.params[0]}`)).reverse();
+			},
+		});
+
+		const [output] = await new Cronos().execute.call(context);
+
+		expect(batches.map((batch) => batch.length)).toEqual([2, 1]);
+		expect(output.map((item) => item.json.result)).toEqual([
+			'nonce-0x01',
+			'nonce-0x02',
+			'nonce-0x03',
+		]);
+		expect(output.map((item) => item.pairedItem)).toEqual([
+			{ item: 0 },
+			{ item: 1 },
+			{ item: 2 },
+		]);
+	});
+
+	it('should fetch a single page in version 1 list operations', async () => {
+		const queries: IDataObject[] = [];
+		const context = createExecuteContext({
+			parameters: {
+				resource: 'account',
+				operation: 'getTransactions',
+				address: '0x00000000000000000000000000000000000000aa',
+				startblock: 0,
+				endblock: 99999999,
+				page: 3,
+				offset: 10,
+				sort: 'asc',
+				outputMode: 'summary',
+			},
+			credentials: { network: 'mainnet', cronosScanApiKey: 'version-1-key' },
+			httpRequest: async (request) => {
+				queries.push(request.qs as IDataObject);
+				return { status: '1', message: 'OK', result: [{ hash: '0x01', blockNumber: '1' }] };
+			},
+		});
+
+		const [output] = await new Cronos().execute.call(context);
+
+		expect(queries).toHaveLength(1);
+		expect(queries[0]).toMatchObject({ action: 'txlist', page: 3, offset: 10 });
+		expect(output).toHaveLength(1);
+	});
+
+	it('should read token balances and token info in a single aggregate3 call', async () => {
+		const tokens = ['0x' + '22'.repeat(20), '0x' + '33'.repeat(20)];
+		const parameters: Record<string, unknown> = {
+			resource: 'account',
+			operation: 'getTokenBalances',
+			address: '0x' + '11'.repeat(20),
+			tokenAddresses: tokens.join(', '),
+		};
+		const uint = (value: number) => encodeParameters(['uint256'], [value]);
+		const text = (value: string) => encodeParameters(['string'], [value]);
+		const requests: JsonRpcRequest[] = [];
+		const context = createExecuteContext({
+			parameters,
+			typeVersion: 2,
+			httpRequest: async (request) => {
+				const call = rpcBody(request);
+				requests.push(call);
+				// balanceOf, decimals, symbol and name per token, or the token's name,
+				// symbol, decimals and total supply
+				const results =
+					parameters.resource === 'account'
+						? [uint(5), uint(18), text('AAA'), text('Token A')].concat([
+								uint(7),
+								uint(0),
+								text('BBB'),
+								text('Token B'),
+							])
+						: [text('Token A'), text('AAA'), uint(2), uint(150)];
+				return rpcResult(
+					call,
+					encodeParameters(
+						['(bool,bytes)[]'],
+						[results.map((returnData) => [true, returnData])],
+					),
+				);
+			},
+		});
+		const callData = (call: JsonRpcRequest) => (call.params[0] as IDataObject).data as string;
+
+		const [balances] = await new Cronos().execute.call(context);
+
+		expect(requests).toHaveLength(1);
+		expect(requests[0]).toMatchObject({ method: 'eth_call' });
+		expect(callData(requests[0]).slice(0, 10)).toBe('0x82ad56cb');
+		expect(balances.map((item) => item.json)).toMatchObject([
+			{ symbol: 'AAA', balanceRaw: '5' },
+			// A token without decimals keeps them at 0
+			{ symbol: 'BBB', decimals: 0, balanceRaw: '7', balance: '7' },
+		]);
+
+		requests.length = 0;
+		parameters.resource = 'token';
+		parameters.operation = 'getTokenInfo';
+		parameters.contractAddress = tokens[0];
+		const [info] = await new Cronos().execute.call(context);
+
+		expect(requests).toHaveLength(1);
+		expect(callData(requests[0]).slice(0, 10)).toBe('0x82ad56cb');
+		expect(info[0].json).toMatchObject({
+			name: 'Token A',
+			symbol: 'AAA',
+			decimals: 2,
+			totalSupply: '1.5',
+		});
+	});
+});
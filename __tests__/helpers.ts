@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	INodeExecutionData,
+} from 'n8n-workflow';
+import type { JsonRpcRequest, JsonRpcResponse } from '../nodes/Cronos/transport';
+
+export interface ExecuteContextOptions {
+	credentials?: IDataObject;
+	// Parameter values by name, or a function resolving them per item
+	parameters?: Record<string, unknown> | ((name: string, index: number) => unknown);
+	inputData?: INodeExecutionData[];
+	typeVersion?: number;
+	staticData?: IDataObject;
+	continueOnFail?: boolean;
+	httpRequest?: (options: IHttpRequestOptions) => Promise<unknown>;
+}
+
+/**
+ * Stand-in for the functions n8n passes to the node, covering the ones the
+ * node uses. Parameters without a value resolve to the fallback given by the
+ * node, and HTTP requests go to `httpRequest`.
+ */
+export function createExecuteContext(options: ExecuteContextOptions = {}): IExecuteFunctions {
+	const { parameters = {} } = options;
+	const getParameter =
+		typeof parameters === 'function' ? parameters : (name: string) => parameters[name];
+	const staticData = options.staticData ?? {};
+
+	const context = {
+		getInputData: () => options.inputData ?? [{ json: {} }],
+		getNodeParameter: (name: string, index: number, fallback?: unknown) =>
+			getParameter(name, index) ?? fallback,
+		getCurrentNodeParameter: (name: string) => getParameter(name, 0),
+		getCredentials: async () => options.credentials ?? { network: 'mainnet' },
+		getNode: () => ({ name: 'Cronos', type: 'cronos', typeVersion: options.typeVersion ?? 1 }),
+		getWorkflowStaticData: () => staticData,
+		continueOnFail: () => options.continueOnFail ?? false,
+		helpers: {
+			httpRequest: async (request: IHttpRequestOptions) => {
+				if (!options.httpRequest) {
+					throw new Error(`Unexpected request to ${request.url}`);
+				}
+				return options.httpRequest(request);
+			},
+		},
+	};
+	return context as unknown as IExecuteFunctions;
+}
+
+export function createLoadOptionsContext(
+	options: ExecuteContextOptions = {},
+): ILoadOptionsFunctions {
+	return createExecuteContext(options) as unknown as ILoadOptionsFunctions;
+}
+
+// The JSON-RPC call sent in a request
+export function rpcBody(request: IHttpRequestOptions): JsonRpcRequest {
+	return request.body as JsonRpcRequest;
+}
+
+// The JSON-RPC calls sent in a batch request
+export function rpcBatch(request: IHttpRequestOptions): JsonRpcRequest[] {
+	return request.body as JsonRpcRequest[];
+}
+
+export function rpcResult(call: JsonRpcRequest, result: unknown): JsonRpcResponse {
+	return { jsonrpc: '2.0', id: call.id, result };
+}
+
+export function rpcError(call: JsonRpcRequest, error: JsonRpcResponse['error']): JsonRpcResponse {
+	return { jsonrpc: '2.0', id: call.id, error };
+}
@@ -22,10 +22,31 @@ describe('Node Structure Tests', () => {
 			
 			expect(node.description.displayName).toBe('Cronos');
 			expect(node.description.name).toBe('cronos');
-			expect(node.description.version).toBe(1);
+			expect(node.description.version).toEqual([1, 2]);
+			expect(node.description.defaultVersion).toBe(2);
 			expect(node.description.credentials).toBeDefined();
 		});
 
+		it('should keep the output shape of version 1 nodes by default', async () => {
+			const { Cronos } = await import('../nodes/Cronos/Cronos.node');
+			const node = new Cronos();
+			const properties = (name: string, version: number) =>
+				node.description.properties
+					.filter((p) => p.name === name)
+					.filter((p) => p.displayOptions?.show?.['@version']?.includes(version));
+
+			expect(properties('page', 1)).toHaveLength(5);
+			expect(properties('offset', 1)).toHaveLength(5);
+			expect(properties('returnAll', 1)).toHaveLength(0);
+			expect(properties('limit', 1)).toHaveLength(0);
+			expect(properties('page', 2)).toHaveLength(0);
+			expect(properties('returnAll', 2)).toHaveLength(5);
+			expect(properties('outputMode', 1).map((p) => p.default)).toEqual(['summary']);
+			expect(properties('outputMode', 2).map((p) => p.default)).toEqual(['records']);
+			expect(properties('simplify', 1).map((p) => p.default)).toEqual([false]);
+			expect(properties('simplify', 2).map((p) => p.default)).toEqual([true]);
+		});
+
 		it('should have all required resources', async () => {
 			const { Cronos } = await import('../nodes/Cronos/Cronos.node');
 			const node = new Cronos();
@@ -38,15 +59,15 @@ describe('Node Structure Tests', () => {
 			const resourceOptions = (resourceProperty as { options: { value: string }[] }).options;
 			const resourceValues = resourceOptions.map((o) => o.value);
 			
-			expect(resourceValues).toContain('accounts');
-			expect(resourceValues).toContain('transactions');
-			expect(resourceValues).toContain('blocks');
-			expect(resourceValues).toContain('smartContracts');
-			expect(resourceValues).toContain('tokens');
-			expect(resourceValues).toContain('nfts');
+			expect(resourceValues).toContain('account');
+			expect(resourceValues).toContain('transaction');
+			expect(resourceValues).toContain('block');
+			expect(resourceValues).toContain('smartContract');
+			expect(resourceValues).toContain('token');
+			expect(resourceValues).toContain('nft');
 			expect(resourceValues).toContain('defi');
 			expect(resourceValues).toContain('network');
-			expect(resourceValues).toContain('events');
+			expect(resourceValues).toContain('event');
 			expect(resourceValues).toContain('utility');
 		});
 	});
@@ -107,6 +128,18 @@ describe('Node Structure Tests', () => {
 			expect(propertyNames).toContain('privateKey');
 			expect(propertyNames).toContain('cronosScanApiKey');
 		});
+
+		it('should be tested by the nodes rather than a declarative request', async () => {
+			const { CronosApi } = await import('../credentials/CronosApi.credentials');
+			const { Cronos } = await import('../nodes/Cronos/Cronos.node');
+			const { CronosTrigger } = await import('../nodes/Cronos/CronosTrigger.node');
+
+			expect((new CronosApi() as { test?: unknown }).test).toBeUndefined();
+			for (const node of [new Cronos(), new CronosTrigger()]) {
+				expect(node.description.credentials?.[0].testedBy).toBe('cronosApiTest');
+				expect(node.methods?.credentialTest?.cronosApiTest).toBeDefined();
+			}
+		});
 	});
 });
 
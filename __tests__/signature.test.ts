@@ -0,0 +1,75 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import { signatureOperations } from '../nodes/Cronos/actions/signature';
+import { privateKeyToAddress } from '../nodes/Cronos/utils';
+import { createExecuteContext } from './helpers';
+
+describe('Signature Operations', () => {
+	it('should sign messages and typed data and verify the signatures', async () => {
+		const privateKey = '0x' + '46'.repeat(32);
+		const address = privateKeyToAddress(privateKey);
+		const run = async (
+			operation: keyof typeof signatureOperations,
+			parameters: Record<string, unknown>,
+			key = privateKey,
+		) => {
+			const context = createExecuteContext({
+				parameters,
+				credentials: { network: 'mainnet', privateKey: key },
+			});
+			const [result] = await signatureOperations[operation].call(context, 0);
+			return result.json;
+		};
+
+		const message = 'Sign in to example.com\nNonce: 42';
+		const signed = await run('signMessage', { message });
+		expect(signed.address).toBe(address);
+		expect(signed.signature).toMatch(/^0x[0-9a-f]{130}$/);
+
+		const verified = await run('verifySignature', {
+			message,
+			signature: signed.signature,
+			expectedAddress: address.toLowerCase(),
+		});
+		expect(verified).toMatchObject({ valid: true, signer: address, expectedAddress: address });
+
+		const tampered = await run('verifySignature', {
+			message: message + '!',
+			signature: signed.signature,
+			expectedAddress: address,
+		});
+		expect(tampered.valid).toBe(false);
+		expect(tampered.signer).not.toBe(address);
+
+		const typedData = JSON.stringify({
+			types: {
+				Order: [
+					{ name: 'maker', type: 'address' },
+					{ name: 'amount', type: 'uint256' },
+				],
+			},
+			domain: { name: 'Exchange', version: '1', chainId: 25 },
+			message: { maker: address, amount: '1000' },
+		});
+		const order = await run('signTypedData', { typedData });
+		expect(order.primaryType).toBe('Order');
+		const approved = await run('verifySignature', {
+			signedData: 'typedData',
+			typedData,
+			signature: order.signature,
+			expectedAddress: address,
+		});
+		expect(approved.valid).toBe(true);
+
+		await expect(run('signMessage', { message }, '')).rejects.toThrow(
+			'Private key is required',
+		);
+		await expect(
+			run('verifySignature', { message, signature: '0x1234', expectedAddress: address }),
+		).rejects.toThrow('Invalid signature');
+	});
+});
@@ -0,0 +1,125 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import {
+	getReadFunctions,
+	multicall,
+	readContract,
+	smartContractsOperations,
+} from '../nodes/Cronos/actions/smartContracts';
+import { decodeParameters, encodeParameters } from '../nodes/Cronos/utils';
+import type { JsonRpcRequest } from '../nodes/Cronos/transport';
+import { createExecuteContext, createLoadOptionsContext, rpcBody, rpcResult } from './helpers';
+import type { ExecuteContextOptions } from './helpers';
+
+describe('Smart Contract Operations', () => {
+	it('should read a contract through its ABI', async () => {
+		const abi = [
+			'function balanceOf(address owner) view returns (uint256 balance)',
+			'function transfer(address to, uint256 amount) returns (bool)',
+		].join('\n');
+		const owner = '0x' + '11'.repeat(20);
+		const requests: JsonRpcRequest[] = [];
+		const options: ExecuteContextOptions = {
+			parameters: {
+				contractAddress: '0x' + '22'.repeat(20),
+				abiSource: 'manual',
+				abi,
+				functionName: 'balanceOf(address)',
+				functionInputs: { mappingMode: 'defineBelow', value: { owner } },
+				blockParameter: 'latest',
+			},
+			httpRequest: async (request) => {
+				requests.push(rpcBody(request));
+				return rpcResult(rpcBody(request), '0x' + (1000).toString(16).padStart(64, '0'));
+			},
+		};
+
+		const functions = await getReadFunctions.call(createLoadOptionsContext(options));
+		expect(functions.map((option) => option.value)).toEqual(['balanceOf(address)']);
+
+		const [result] = await readContract.call(createExecuteContext(options), 0);
+		expect((requests[0].params[0] as IDataObject).data).toBe(
+			'0x70a08231' + '11'.repeat(20).padStart(64, '0'),
+		);
+		expect(result.json.parameters).toEqual({ owner });
+		expect(result.json.outputs).toEqual({ balance: '1000' });
+	});
+
+	it('should batch reads through Multicall3 and tolerate failures', async () => {
+		const token = '0x' + '22'.repeat(20);
+		const owner = '0x' + '11'.repeat(20);
+		let request: IDataObject = {};
+		const revert = '0x08c379a0' + encodeParameters(['string'], ['nope']).slice(2);
+		const context = createExecuteContext({
+			parameters: {
+				calls: JSON.stringify([
+					{
+						target: token,
+						function: 'balanceOf(address) returns (uint256 balance)',
+						args: [owner],
+					},
+					{ target: token, function: 'decimals() returns (uint8)' },
+				]),
+				blockParameter: 'latest',
+			},
+			httpRequest: async (options) => {
+				const call = rpcBody(options);
+				request = call.params[0] as IDataObject;
+				return rpcResult(
+					call,
+					encodeParameters(
+						['(bool,bytes)[]'],
+						[
+							[
+								[true, encodeParameters(['uint256'], [42])],
+								[false, revert],
+							],
+						],
+					),
+				);
+			},
+		});
+
+		const [result] = await multicall.call(context, 0);
+
+		const data = request.data as string;
+		expect(request.to).toBe('0xcA11bde05977b3631167028862bE2a173976CA11');
+		expect(data.slice(0, 10)).toBe('0x82ad56cb');
+		const [calls] = decodeParameters(['(address,bool,bytes)[]'], '0x' + data.slice(10)) as [
+			unknown[][],
+		];
+		expect(calls.map((call) => call[0])).toEqual([token, token]);
+		expect(result.json).toMatchObject({
+			callCount: 2,
+			failedCount: 1,
+			results: [
+				{ success: true, outputs: { balance: '42' } },
+				{ success: false, outputs: null, revert: { reason: 'nope' } },
+			],
+		});
+	});
+
+	it('should label known contracts in their source info', async () => {
+		const context = createExecuteContext({
+			parameters: { contractAddress: '0x145863eb42cf62847a6ca784e6416c1682b1b2ae' },
+			credentials: { network: 'mainnet', cronosScanApiKey: 'label-key' },
+			httpRequest: async () => ({
+				status: '1',
+				message: 'OK',
+				result: [{ SourceCode: 'contract Router {}', ContractName: 'Router' }],
+			}),
+		});
+
+		const [{ json }] = await smartContractsOperations.getContractSource.call(context, 0);
+		expect(json).toMatchObject({
+			contractAddress: '0x145863Eb42Cf62847A6Ca784e6416C1682b1b2Ae',
+			knownContract: { name: 'VVS Finance Router', type: 'DEX' },
+			verified: true,
+		});
+	});
+});
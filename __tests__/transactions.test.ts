@@ -0,0 +1,471 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import {
+	allocateNonce,
+	decodeReceiptLogs,
+	decodeSignedTransaction,
+	decodeTransactionInput,
+	releaseNonce,
+	sendSignedTransaction,
+	signTransaction,
+	transactionsOperations,
+	waitForConfirmations,
+} from '../nodes/Cronos/actions/transactions';
+import {
+	encodeFunctionData,
+	getEventTopic,
+	keccak256,
+	padAddress,
+	padNumber,
+	privateKeyToAddress,
+} from '../nodes/Cronos/utils';
+import { createExecuteContext, rpcBody, rpcError, rpcResult } from './helpers';
+
+// A plain transfer with fixed gas, so that sending needs no estimates
+const transfer = {
+	to: '0x00000000000000000000000000000000000000bb',
+	value: '0x0',
+	data: '0x',
+	gasLimit: '21000',
+	gasPrice: '5000000000000',
+};
+
+describe('Transaction Signing', () => {
+	it('should sign legacy transactions with EIP-155', async () => {
+		const signed = await signTransaction(
+			{
+				nonce: '0x9',
+				gasPrice: '0x4a817c800',
+				gas: '0x5208',
+				to: '0x3535353535353535353535353535353535353535',
+				value: '0xde0b6b3a7640000',
+				data: '0x',
+				chainId: 1,
+			},
+			'0x' + '46'.repeat(32),
+		);
+
+		expect(signed).toBe(
+			'0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83',
+		);
+	});
+
+	it('should sign EIP-1559 transactions in a typed envelope', async () => {
+		const signed = await signTransaction(
+			{
+				type: '0x2',
+				nonce: '0x9',
+				maxFeePerGas: '0x4a817c800',
+				maxPriorityFeePerGas: '0x3b9aca00',
+				gas: '0x5208',
+				to: '0x3535353535353535353535353535353535353535',
+				value: '0xde0b6b3a7640000',
+				data: '0x',
+				chainId: 25,
+				accessList: [],
+			},
+			'0x' + '46'.repeat(32),
+		);
+
+		expect(signed).toBe(
+			'0x02f8731909843b9aca008504a817c800825208943535353535353535353535353535353535353535880de0b6b3a764000080c080a0e3d5452380a39bffe2e5f3e0b8ba49b775f975df99dc91dc229cc5eaed911662a045f16d4f6acc3f90c22b599607c332a668d05f33edad346231f74e5b3dfa7fb6',
+		);
+	});
+});
+
+describe('Transaction Decoding', () => {
+	it('should decode transaction input and logs through a proxy', async () => {
+		const proxy = '0x' + 'aa'.repeat(20);
+		const implementation = '0x' + 'bb'.repeat(20);
+		const to = '0x' + '11'.repeat(20);
+		const abi = JSON.stringify([
+			{
+				type: 'function',
+				name: 'transfer',
+				inputs: [
+					{ name: 'to', type: 'address' },
+					{ name: 'amount', type: 'uint256' },
+				],
+				outputs: [{ name: '', type: 'bool' }],
+				stateMutability: 'nonpayable',
+			},
+			{
+				type: 'event',
+				name: 'Transfer',
+				anonymous: false,
+				inputs: [
+					{ name: 'from', type: 'address', indexed: true },
+					{ name: 'to', type: 'address', indexed: true },
+					{ name: 'value', type: 'uint256', indexed: false },
+				],
+			},
+		]);
+		const abiRequests: unknown[] = [];
+		const context = createExecuteContext({
+			httpRequest: async (request) => {
+				if (request.qs?.module === 'contract') {
+					abiRequests.push(request.qs.address);
+					return { status: '1', message: 'OK', result: abi };
+				}
+				const call = rpcBody(request);
+				const [address, slot] = call.params as string[];
+				const isImplementationSlot = address === proxy && slot.startsWith('0x3608');
+				return rpcResult(
+					call,
+					isImplementationSlot ? padAddress(implementation) : padNumber(0),
+				);
+			},
+		});
+		const cache = new Map();
+
+		const input = await decodeTransactionInput.call(
+			context,
+			{ to: proxy, input: encodeFunctionData('transfer(address,uint256)', [to, 5]) },
+			cache,
+		);
+		expect(input).toEqual({
+			decodedInput: {
+				functionName: 'transfer',
+				signature: 'transfer(address,uint256)',
+				selector: '0xa9059cbb',
+				args: { to, amount: '5' },
+			},
+		});
+
+		const logs = await decodeReceiptLogs.call(
+			context,
+			{
+				logs: [
+					{
+						address: proxy,
+						logIndex: '0x0',
+						topics: [
+							getEventTopic('Transfer(address,address,uint256)'),
+							padAddress(proxy),
+							padAddress(to),
+						],
+						data: padNumber(5),
+					},
+				],
+			},
+			cache,
+		);
+		expect(logs[0]).toMatchObject({
+			eventName: 'Transfer',
+			args: { from: '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa', to, value: '5' },
+		});
+		expect(abiRequests).toEqual([implementation]);
+	});
+});
+
+describe('Nonce Management', () => {
+	it('should hand out sequential nonces and reuse unsent ones', async () => {
+		const staticData: IDataObject = {};
+		const context = createExecuteContext({
+			credentials: { network: 'mainnet', rpcEndpoint: 'https://nonce.example.com' },
+			staticData,
+			httpRequest: async (request) => rpcResult(rpcBody(request), '0x5'),
+		});
+		const from = '0x00000000000000000000000000000000000000aa';
+
+		const nonces = await Promise.all(
+			[1, 2, 3].map(() => allocateNonce.call(context, from, 25)),
+		);
+		expect(nonces).toEqual([5, 6, 7]);
+		expect(staticData.cronosNonces).toMatchObject({ [`25:${from}`]: { next: 8 } });
+
+		// The send with nonce 6 failed, so 6 is handed out again before 8
+		await releaseNonce.call(context, from, 25, 5, true);
+		await releaseNonce.call(context, from, 25, 6, false);
+		await releaseNonce.call(context, from, 25, 7, true);
+		expect(await allocateNonce.call(context, from, 25)).toBe(6);
+		expect(await allocateNonce.call(context, from, 25)).toBe(8);
+	});
+
+	it('should not hand out nonces again across overlapping executions', async () => {
+		const from = '0x00000000000000000000000000000000000000ab';
+		// Each execution works on its own snapshot of the static data
+		const contextWith = (staticData: IDataObject) =>
+			createExecuteContext({
+				credentials: { network: 'mainnet', rpcEndpoint: 'https://overlap.example.com' },
+				staticData,
+				httpRequest: async (request) => rpcResult(rpcBody(request), '0x5'),
+			});
+		const first = contextWith({});
+		const second = contextWith({});
+
+		expect(await allocateNonce.call(first, from, 25)).toBe(5);
+		expect(await allocateNonce.call(second, from, 25)).toBe(6);
+
+		// A later record saved by another process that has not seen nonce 6
+		const third = contextWith({
+			cronosNonces: { [`25:${from}`]: { next: 6, updatedAt: Date.now() + 1000 } },
+		});
+		expect(await allocateNonce.call(third, from, 25)).toBe(7);
+	});
+
+	it('should resend with a fresh nonce when the chain reports it as used', async () => {
+		const sent: string[] = [];
+		const context = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				rpcEndpoint: 'https://nonce-too-low.example.com',
+				privateKey: '0x' + '47'.repeat(32),
+			},
+			httpRequest: async (request) => {
+				const call = rpcBody(request);
+				if (call.method === 'eth_getTransactionCount') return rpcResult(call, '0x2');
+				if (call.method === 'eth_getTransactionByHash') return rpcResult(call, null);
+				sent.push(call.params[0] as string);
+				return sent.length === 1
+					? rpcError(call, { code: -32000, message: 'nonce too low' })
+					: rpcResult(call, '0x' + 'ab'.repeat(32));
+			},
+		});
+
+		const { transactionHash, txObject } = await sendSignedTransaction.call(context, transfer);
+
+		expect(transactionHash).toBe('0x' + 'ab'.repeat(32));
+		expect(sent).toHaveLength(2);
+		expect(txObject.nonce).toBe('0x3');
+	});
+
+	it('should not send again when the chain already has the transaction', async () => {
+		const sent: string[] = [];
+		const context = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				rpcEndpoint: 'https://nonce-landed.example.com',
+				privateKey: '0x' + '49'.repeat(32),
+			},
+			httpRequest: async (request) => {
+				const call = rpcBody(request);
+				if (call.method === 'eth_getTransactionCount') return rpcResult(call, '0x2');
+				if (call.method === 'eth_getTransactionByHash') {
+					const landed = sent.some((tx) => keccak256(tx) === call.params[0]);
+					return rpcResult(call, landed ? { hash: call.params[0] } : null);
+				}
+				// The transaction lands, yet the node answers as for a re-broadcast of it
+				sent.push(call.params[0] as string);
+				return rpcError(call, { code: -32000, message: 'nonce too low' });
+			},
+		});
+
+		const { transactionHash, txObject } = await sendSignedTransaction.call(context, transfer);
+
+		expect(sent).toHaveLength(1);
+		expect(transactionHash).toBe(keccak256(sent[0]));
+		expect(txObject.nonce).toBe('0x2');
+	});
+
+	it('should free the nonce only when the node rejects the transaction', async () => {
+		const privateKey = '0x' + '48'.repeat(32);
+		const from = privateKeyToAddress(privateKey);
+		let sendError = { code: -32000, message: 'insufficient funds for gas * price + value' };
+		const context = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				rpcEndpoint: 'https://nonce-release.example.com',
+				privateKey,
+			},
+			httpRequest: async (request) => {
+				const call = rpcBody(request);
+				return call.method === 'eth_getTransactionCount'
+					? rpcResult(call, '0x4')
+					: rpcError(call, sendError);
+			},
+		});
+		const send = () => sendSignedTransaction.call(context, transfer);
+
+		// A rejected transaction leaves nonce 4 free for the next one
+		await expect(send()).rejects.toThrow('insufficient funds');
+		expect(await allocateNonce.call(context, from, 25)).toBe(4);
+		await releaseNonce.call(context, from, 25, 4, false);
+
+		// "already known" means the node may hold the transaction, so 4 stays used
+		sendError = { code: -32000, message: 'already known' };
+		await expect(send()).rejects.toThrow('already known');
+		expect(await allocateNonce.call(context, from, 25)).toBe(5);
+	});
+});
+
+describe('Confirmations', () => {
+	it('should wait for confirmations and report reorgs', async () => {
+		const hash = '0x' + 'cd'.repeat(32);
+		const receipt = (blockNumber: string, blockHash: string) => ({
+			transactionHash: hash,
+			blockNumber,
+			blockHash,
+			status: '0x1',
+			gasUsed: '0x5208',
+			effectiveGasPrice: '0x48c27395000',
+			logs: [],
+		});
+		// Each poll answers receipt, head and canonical block hash from the next chain view
+		const views = [
+			{ receipt: receipt('0x10', '0xa'), head: '0x10', canonical: '0xb' },
+			{ receipt: receipt('0x11', '0xc'), head: '0x12', canonical: '0xc' },
+		];
+		let poll = -1;
+		const context = createExecuteContext({
+			credentials: { network: 'mainnet', rpcEndpoint: 'https://confirm.example.com' },
+			httpRequest: async (request) => {
+				const call = rpcBody(request);
+				if (call.method === 'eth_getTransactionReceipt') poll++;
+				const view = views[Math.min(poll, views.length - 1)];
+				const result =
+					call.method === 'eth_getTransactionReceipt'
+						? view.receipt
+						: call.method === 'eth_blockNumber'
+							? view.head
+							: { hash: view.canonical };
+				return rpcResult(call, result);
+			},
+		});
+
+		// The polls are spaced on fake timers
+		jest.useFakeTimers();
+		let confirmed: unknown;
+		let dropped: unknown;
+		try {
+			const confirming = waitForConfirmations.call(context, hash, 2, 10000);
+			await jest.advanceTimersByTimeAsync(2000);
+			confirmed = await confirming;
+
+			// Timing out while the transaction is out of the chain reports it as dropped
+			poll = -1;
+			views.splice(1);
+			const dropping = waitForConfirmations.call(context, hash, 2, 4000);
+			await jest.advanceTimersByTimeAsync(4000);
+			dropped = await dropping;
+		} finally {
+			jest.useRealTimers();
+		}
+
+		expect(poll).toBe(2);
+		expect(confirmed).toMatchObject({
+			status: 'confirmed',
+			confirmations: 2,
+			blockNumber: '17',
+			gasUsed: '21000',
+			effectiveGasPrice: '5000',
+			fee: '0.105',
+			logs: [],
+			reorged: true,
+			previousBlockHash: '0xa',
+		});
+		expect(dropped).toMatchObject({ status: 'dropped', timedOut: true, reorged: true });
+	});
+});
+
+describe('Transaction Replacement', () => {
+	it('should cancel a pending transaction with bumped fees at the same nonce', async () => {
+		const privateKey = '0x' + '48'.repeat(32);
+		const from = privateKeyToAddress(privateKey);
+		const pendingHash = '0x' + '01'.repeat(32);
+		const results: Record<string, unknown> = {
+			eth_getTransactionByHash: {
+				hash: pendingHash,
+				from,
+				to: '0x00000000000000000000000000000000000000cc',
+				value: '0xde0b6b3a7640000',
+				input: '0x',
+				gas: '0x5208',
+				nonce: '0x7',
+				type: '0x2',
+				maxFeePerGas: '0x3b9aca00',
+				maxPriorityFeePerGas: '0x3b9aca00',
+				accessList: [],
+				blockNumber: null,
+			},
+			eth_getBlockByNumber: { baseFeePerGas: '0x1' },
+			eth_feeHistory: { reward: [['0x2']] },
+			eth_sendRawTransaction: '0x' + '02'.repeat(32),
+		};
+		const context = createExecuteContext({
+			parameters: { txhash: pendingHash, feeBump: 10 },
+			credentials: {
+				network: 'mainnet',
+				rpcEndpoint: 'https://replace.example.com',
+				privateKey,
+			},
+			httpRequest: async (request) => {
+				const call = rpcBody(request);
+				return rpcResult(call, results[call.method]);
+			},
+		});
+
+		const [{ json }] = await transactionsOperations.cancelTransaction.call(context, 0);
+
+		expect(json).toMatchObject({
+			replacedTransactionHash: pendingHash,
+			transactionHash: '0x' + '02'.repeat(32),
+			replacement: 'cancel',
+			to: from,
+			value: '0',
+			nonce: '7',
+			gasLimit: '21000',
+			type: 'eip1559',
+			maxFeePerGas: '1.1',
+			maxPriorityFeePerGas: '1.1',
+			replacedFees: { maxFeePerGas: '1', maxPriorityFeePerGas: '1' },
+			status: 'pending',
+		});
+	});
+
+	it('should cancel without the access list of the pending transaction', async () => {
+		const privateKey = '0x' + '49'.repeat(32);
+		const from = privateKeyToAddress(privateKey);
+		const sent: string[] = [];
+		const results: Record<string, unknown> = {
+			eth_getTransactionByHash: {
+				from,
+				to: '0x00000000000000000000000000000000000000cc',
+				value: '0x0',
+				input: '0xa9059cbb',
+				gas: '0x186a0',
+				nonce: '0x8',
+				type: '0x1',
+				gasPrice: '0x3b9aca00',
+				accessList: [
+					{
+						address: '0x00000000000000000000000000000000000000cc',
+						storageKeys: ['0x' + '00'.repeat(31) + '01'],
+					},
+				],
+				blockNumber: null,
+			},
+			eth_gasPrice: '0x1',
+			eth_sendRawTransaction: '0x' + '04'.repeat(32),
+		};
+		const context = createExecuteContext({
+			parameters: { txhash: '0x' + '03'.repeat(32) },
+			credentials: {
+				network: 'mainnet',
+				rpcEndpoint: 'https://replace-access-list.example.com',
+				privateKey,
+			},
+			httpRequest: async (request) => {
+				const call = rpcBody(request);
+				if (call.method === 'eth_sendRawTransaction') sent.push(call.params[0] as string);
+				return rpcResult(call, results[call.method]);
+			},
+		});
+
+		await transactionsOperations.cancelTransaction.call(context, 0);
+
+		expect(sent).toHaveLength(1);
+		expect(decodeSignedTransaction(sent[0])).toMatchObject({
+			type: '0x1',
+			to: from,
+			nonce: '0x8',
+			gas: '0x5208',
+			accessList: [],
+		});
+	});
+});
@@ -0,0 +1,424 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import {
+	batchJsonRpcRequest,
+	checkRpcEndpoints,
+	cronosScanRequest,
+	cronosScanRequestAll,
+	getChainId,
+	getEndpointHealth,
+	getRpcEndpoint,
+	getScanApiKey,
+	getScanApiUrl,
+	jsonRpcRequest,
+} from '../nodes/Cronos/transport';
+import { getErrorCode } from '../nodes/Cronos/errors';
+import { encodeParameters } from '../nodes/Cronos/utils';
+import { createExecuteContext, rpcBatch, rpcBody, rpcError, rpcResult } from './helpers';
+
+describe('JSON-RPC Requests', () => {
+	it('should surface decoded revert reasons', async () => {
+		const data = '0x08c379a0' + encodeParameters(['string'], ['Not owner']).slice(2);
+		const context = createExecuteContext({
+			httpRequest: async (request) =>
+				rpcError(rpcBody(request), { code: 3, message: 'execution reverted', data }),
+		});
+
+		await expect(jsonRpcRequest.call(context, 'eth_call', [])).rejects.toMatchObject({
+			message: 'Execution reverted: Not owner',
+			context: { revert: { kind: 'error', reason: 'Not owner', data } },
+		});
+	});
+
+	it('should classify RPC and explorer failures', async () => {
+		const context = (httpRequest: (request: IHttpRequestOptions) => Promise<unknown>) =>
+			createExecuteContext({
+				credentials: {
+					network: 'custom',
+					rpcEndpoint: 'https://classify.example.com',
+					explorerApiUrl: 'https://classify.example.com/api',
+					chainId: 25,
+					cronosScanMaxRetries: 0,
+				},
+				httpRequest,
+			});
+		const rpcFailure = async (error: { code: number; message: string; data?: unknown }) =>
+			jsonRpcRequest
+				.call(
+					context(async (request) => rpcError(rpcBody(request), error)),
+					'eth_call',
+					[],
+				)
+				.catch(getErrorCode);
+
+		expect(await rpcFailure({ code: -32000, message: 'nonce too low' })).toBe('NONCE_TOO_LOW');
+		expect(
+			await rpcFailure({
+				code: -32000,
+				message: 'insufficient funds for gas * price + value',
+			}),
+		).toBe('INSUFFICIENT_FUNDS');
+		expect(await rpcFailure({ code: -32005, message: 'limit exceeded' })).toBe('RATE_LIMITED');
+		expect(await rpcFailure({ code: 3, message: 'execution reverted', data: '0x' })).toBe(
+			'EXECUTION_REVERTED',
+		);
+		expect(await rpcFailure({ code: -32601, message: 'method not found' })).toBe('RPC_ERROR');
+
+		const unreachable = context(async () => {
+			throw new Error('connect ECONNREFUSED');
+		});
+		await expect(jsonRpcRequest.call(unreachable, 'eth_chainId', [])).rejects.toMatchObject({
+			code: 'RPC_ERROR',
+		});
+
+		const thrownString = context(async () => {
+			throw 'socket hang up';
+		});
+		await expect(jsonRpcRequest.call(thrownString, 'eth_chainId', [])).rejects.toMatchObject({
+			code: 'RPC_ERROR',
+			message: 'socket hang up',
+		});
+
+		const notok = context(async () => ({
+			status: '0',
+			message: 'NOTOK',
+			result: 'Invalid address',
+		}));
+		await expect(cronosScanRequest.call(notok, 'account', 'txlist')).rejects.toMatchObject({
+			code: 'EXPLORER_ERROR',
+		});
+	});
+
+	it('should match batch responses by id', async () => {
+		const context = createExecuteContext({
+			httpRequest: async (request) =>
+				rpcBatch(request)
+					.map((call) => rpcResult(call, call.params[0]))
+					.reverse(),
+		});
+
+		const results = await batchJsonRpcRequest.call(context, [
+			{ method: 'eth_getBalance', params: ['a'] },
+			{ method: 'eth_getBalance', params: ['b'] },
+			{ method: 'eth_getBalance', params: ['c'] },
+		]);
+
+		expect(results).toEqual(['a', 'b', 'c']);
+	});
+});
+
+describe('RPC Endpoints', () => {
+	it('should resolve endpoints from credentials', () => {
+		const testnet = {
+			network: 'testnet' as const,
+			rpcEndpoint: '',
+			privateKey: '',
+			cronosScanApiKey: '',
+			rpcApiKey: 'secret',
+			rpcApiKeyLocation: 'query' as const,
+			rpcApiKeyName: 'key',
+		};
+		expect(getRpcEndpoint(testnet)).toEqual({
+			url: 'https://evm-t3.cronos.org',
+			headers: {},
+			qs: { key: 'secret' },
+		});
+		expect(getScanApiUrl(testnet)).toBe('https://api-testnet.cronoscan.com/api');
+
+		const custom = {
+			network: 'custom' as const,
+			rpcEndpoint: 'https://rpc.example.com',
+			explorerApiUrl: 'https://explorer.example.com/api',
+			chainId: 777,
+			privateKey: '',
+			cronosScanApiKey: '',
+		};
+		expect(getRpcEndpoint(custom).url).toBe('https://rpc.example.com');
+		expect(getScanApiUrl(custom)).toBe('https://explorer.example.com/api');
+		expect(getChainId(custom)).toBe(777);
+		expect(() => getRpcEndpoint({ ...custom, rpcEndpoint: '' })).toThrow();
+	});
+
+	it('should fall back to the fields of previously saved credentials', () => {
+		const legacy = {
+			network: 'mainnet' as const,
+			rpcEndpoint: '',
+			privateKey: '',
+			cronosScanApiKey: '',
+			rpcUrl: 'https://legacy-rpc.example.com',
+			apiKey: 'legacy-key',
+		};
+		expect(getRpcEndpoint(legacy)).toEqual({
+			url: 'https://legacy-rpc.example.com',
+			headers: { Authorization: 'Bearer legacy-key' },
+			qs: {},
+		});
+		expect(getScanApiKey(legacy)).toBe('legacy-key');
+
+		const updated = {
+			...legacy,
+			rpcEndpoint: 'https://rpc.example.com',
+			cronosScanApiKey: 'scan-key',
+		};
+		expect(getRpcEndpoint(updated).url).toBe('https://rpc.example.com');
+		expect(getScanApiKey(updated)).toBe('scan-key');
+	});
+
+	it('should fail over to the next RPC endpoint', async () => {
+		const primary = 'https://failing.example.com';
+		const fallback = 'https://fallback.example.com';
+		const urls: string[] = [];
+		const context = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				rpcEndpoint: primary,
+				fallbackRpcEndpoints: `${fallback}\n`,
+			},
+			httpRequest: async (request) => {
+				urls.push(request.url);
+				if (request.url === primary) {
+					throw Object.assign(new Error('Service Unavailable'), { httpCode: '503' });
+				}
+				return rpcResult(rpcBody(request), '0x19');
+			},
+		});
+
+		expect(await jsonRpcRequest.call(context, 'eth_chainId', [])).toBe('0x19');
+		expect(await jsonRpcRequest.call(context, 'eth_chainId', [])).toBe('0x19');
+
+		// The failed endpoint is skipped while it cools down
+		expect(urls).toEqual([primary, fallback, fallback]);
+		expect(getEndpointHealth(primary)).toMatchObject({
+			failures: 1,
+			lastError: 'Service Unavailable',
+		});
+		expect(getEndpointHealth(fallback)).toMatchObject({ requests: 2, failures: 0 });
+	});
+
+	it('should not send a transaction to another endpoint after a timeout', async () => {
+		const primary = 'https://send-timeout.example.com';
+		const fallback = 'https://send-fallback.example.com';
+		const urls: string[] = [];
+		const context = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				rpcEndpoint: primary,
+				fallbackRpcEndpoints: fallback,
+			},
+			httpRequest: async (request) => {
+				urls.push(request.url);
+				throw new Error('timeout of 30000ms exceeded');
+			},
+		});
+
+		// The primary may have accepted the transaction before timing out
+		await expect(
+			jsonRpcRequest.call(context, 'eth_sendRawTransaction', ['0x02']),
+		).rejects.toThrow('timeout of 30000ms exceeded');
+		expect(urls).toEqual([primary]);
+	});
+
+	it('should skip endpoints whose head has fallen behind', async () => {
+		const lagging = 'https://lagging.example.com';
+		const synced = 'https://synced.example.com';
+		const heads: Record<string, string> = { [lagging]: '0x3e8', [synced]: '0x44c' };
+		const urls: string[] = [];
+		const context = createExecuteContext({
+			credentials: { network: 'mainnet', rpcEndpoint: lagging, fallbackRpcEndpoints: synced },
+			httpRequest: async (request) => {
+				urls.push(request.url);
+				if (Array.isArray(request.body)) {
+					const [chainId, blockNumber] = rpcBatch(request);
+					return [rpcResult(chainId, '0x19'), rpcResult(blockNumber, heads[request.url])];
+				}
+				return rpcResult(rpcBody(request), heads[request.url]);
+			},
+		});
+
+		const endpoints = await checkRpcEndpoints.call(context);
+		expect(endpoints.map((endpoint) => endpoint.stale)).toEqual([true, false]);
+
+		urls.length = 0;
+		expect(await jsonRpcRequest.call(context, 'eth_blockNumber', [])).toBe('0x44c');
+		expect(urls[urls.length - 1]).toBe(synced);
+
+		// The lagging head is remembered, so other calls go to the synced endpoint first
+		urls.length = 0;
+		await jsonRpcRequest.call(context, 'eth_getBalance', ['0x01', 'latest']);
+		expect(urls).toEqual([synced]);
+	});
+
+	it('should fail over on rate-limit errors returned as JSON-RPC responses', async () => {
+		const limited = 'https://limited.example.com';
+		const spare = 'https://spare.example.com';
+		const urls: string[] = [];
+		const context = (fallbackRpcEndpoints: string) =>
+			createExecuteContext({
+				credentials: { network: 'mainnet', rpcEndpoint: limited, fallbackRpcEndpoints },
+				httpRequest: async (request) => {
+					urls.push(request.url);
+					return request.url === limited
+						? rpcError(rpcBody(request), { code: -32005, message: 'limit exceeded' })
+						: rpcResult(rpcBody(request), '0x19');
+				},
+			});
+
+		expect(await jsonRpcRequest.call(context(spare), 'eth_chainId', [])).toBe('0x19');
+		expect(urls).toEqual([limited, spare]);
+		expect(getEndpointHealth(limited)).toMatchObject({ failures: 1 });
+
+		// Without another endpoint to try, the rate limit is reported
+		await expect(jsonRpcRequest.call(context(''), 'eth_chainId', [])).rejects.toMatchObject({
+			code: 'RATE_LIMITED',
+		});
+	});
+
+	it('should report the health of every RPC endpoint', async () => {
+		const up = 'https://up.example.com';
+		const down = 'https://down.example.com';
+		const context = createExecuteContext({
+			credentials: { network: 'mainnet', rpcEndpoint: up, fallbackRpcEndpoints: down },
+			httpRequest: async (request) => {
+				if (request.url === down) throw new Error('ETIMEDOUT');
+				const [chainId, blockNumber] = rpcBatch(request);
+				return [rpcResult(blockNumber, '0x64'), rpcResult(chainId, '0x19')];
+			},
+		});
+
+		const endpoints = await checkRpcEndpoints.call(context);
+
+		expect(endpoints).toMatchObject([
+			{ url: up, healthy: true, chainId: '25', currentBlock: '100', error: null },
+			{ url: down, healthy: false, error: 'ETIMEDOUT', stats: { failures: 1 } },
+		]);
+	});
+});
+
+describe('Explorer Requests', () => {
+	it('should retry explorer calls that hit the rate limit', async () => {
+		const responses = [
+			{ status: '0', message: 'NOTOK', result: 'Max rate limit reached' },
+			{ status: '1', message: 'OK', result: '42' },
+		];
+		let calls = 0;
+		const context = createExecuteContext({
+			credentials: { network: 'mainnet', cronosScanApiKey: 'retry-key' },
+			httpRequest: async () => responses[calls++],
+		});
+
+		// The backoff sleeps run on fake timers
+		jest.useFakeTimers();
+		try {
+			const result = cronosScanRequest.call(context, 'stats', 'ethsupply');
+			await jest.advanceTimersByTimeAsync(10000);
+			expect(await result).toBe('42');
+		} finally {
+			jest.useRealTimers();
+		}
+		expect(calls).toBe(2);
+
+		const exhausted = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				cronosScanApiKey: 'retry-key',
+				cronosScanMaxRetries: 0,
+			},
+			httpRequest: async () => responses[0],
+		});
+		await expect(cronosScanRequest.call(exhausted, 'stats', 'ethsupply')).rejects.toMatchObject(
+			{
+				message: 'NOTOK',
+				code: 'RATE_LIMITED',
+			},
+		);
+	});
+
+	it('should pace explorer calls to the API tier', async () => {
+		const sentAt: number[] = [];
+		const context = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				cronosScanApiKey: 'paced-key',
+				cronosScanTier: 'custom',
+				cronosScanRateLimit: 20,
+			},
+			httpRequest: async () => {
+				sentAt.push(Date.now());
+				return { status: '1', message: 'OK', result: [] };
+			},
+		});
+
+		jest.useFakeTimers();
+		const start = Date.now();
+		try {
+			const requests = Promise.all(
+				Array.from({ length: 25 }, () =>
+					cronosScanRequest.call(context, 'account', 'txlist'),
+				),
+			);
+			await jest.advanceTimersByTimeAsync(1000);
+			await requests;
+		} finally {
+			jest.useRealTimers();
+		}
+
+		// A burst of 20 goes out at once, the remaining 5 at 20 per second
+		const delays = sentAt.map((time) => time - start).sort((a, b) => a - b);
+		expect(delays[19]).toBe(0);
+		expect(delays.slice(20)).toEqual([50, 100, 150, 200, 250]);
+	});
+
+	it('should page past the explorer result window by block range', async () => {
+		// Three transfers per block, more than the explorer returns for one query
+		const records = Array.from({ length: 12000 }, (_, index) => ({
+			hash: `0x${index.toString(16)}`,
+			blockNumber: String(Math.floor(index / 3)),
+		}));
+		const queries: IDataObject[] = [];
+		const context = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				cronosScanApiKey: 'paging-key',
+				cronosScanTier: 'custom',
+				cronosScanRateLimit: 1000,
+			},
+			httpRequest: async (request) => {
+				const qs = request.qs as IDataObject;
+				const [page, offset] = [Number(qs.page), Number(qs.offset)];
+				queries.push(qs);
+				if (page * offset > 10000) {
+					return { status: '0', message: 'NOTOK', result: 'Result window is too large' };
+				}
+				const inRange = records.filter(
+					(record) =>
+						Number(record.blockNumber) >= Number(qs.startblock) &&
+						Number(record.blockNumber) <= Number(qs.endblock),
+				);
+				if (qs.sort === 'desc') inRange.reverse();
+				const result = inRange.slice((page - 1) * offset, page * offset);
+				return { status: '1', message: 'OK', result };
+			},
+		});
+
+		const all = await cronosScanRequestAll.call(context, 'account', 'tokentx', { sort: 'asc' });
+		expect(all).toHaveLength(12000);
+		expect(all.map((record) => record.hash)).toEqual(records.map((record) => record.hash));
+		expect(queries[10]).toMatchObject({ startblock: 3333, endblock: 99999999, page: 1 });
+
+		const latest = await cronosScanRequestAll.call(
+			context,
+			'account',
+			'tokentx',
+			{ sort: 'desc' },
+			{ limit: 10500 },
+		);
+		expect(latest).toHaveLength(10500);
+		expect(new Set(latest.map((record) => record.hash)).size).toBe(10500);
+		expect(latest[10499]).toEqual(records[1500]);
+	});
+});
@@ -0,0 +1,135 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import { signTransaction } from '../nodes/Cronos/actions/transactions';
+import { decodeRawTransaction, getAPIHealth } from '../nodes/Cronos/actions/utility';
+import { privateKeyToAddress } from '../nodes/Cronos/utils';
+import { createExecuteContext, rpcBatch, rpcResult } from './helpers';
+
+describe('Utility Operations', () => {
+	it('should decode raw transactions and recover the sender', async () => {
+		const privateKey = '0x' + '46'.repeat(32);
+		const base = {
+			nonce: '0x9',
+			gas: '0x5208',
+			to: '0x3535353535353535353535353535353535353535',
+			value: '0xde0b6b3a7640000',
+			data: '0xabcdef',
+		};
+		const accessList = [
+			{ address: '0x' + '11'.repeat(20), storageKeys: ['0x' + '00'.repeat(31) + '01'] },
+		];
+		const decode = async (rawTransaction: string) => {
+			const context = createExecuteContext({ parameters: { rawTransaction } });
+			const [result] = await decodeRawTransaction.call(context, 0);
+			return result.json;
+		};
+
+		const legacy = await decode(
+			await signTransaction({ ...base, gasPrice: '0x4a817c800', chainId: 338 }, privateKey),
+		);
+		expect(legacy).toMatchObject({
+			from: privateKeyToAddress(privateKey),
+			to: base.to,
+			nonce: 9,
+			value: '1',
+			gasLimit: '21000',
+			type: 'legacy',
+			gasPrice: '20',
+			chainId: 338,
+			expectedChainId: 25,
+			chainIdMismatch: true,
+			replayProtected: true,
+			data: '0xabcdef',
+		});
+
+		const eip2930 = await decode(
+			await signTransaction(
+				{ ...base, type: '0x1', gasPrice: '0x4a817c800', chainId: 25, accessList },
+				privateKey,
+			),
+		);
+		expect(eip2930).toMatchObject({ type: 'eip2930', chainIdMismatch: false, accessList });
+		expect(eip2930.from).toBe(privateKeyToAddress(privateKey));
+
+		const signed = await signTransaction(
+			{
+				...base,
+				type: '0x2',
+				maxFeePerGas: '0x4a817c800',
+				maxPriorityFeePerGas: '0x3b9aca00',
+				chainId: 25,
+				accessList: [],
+				to: undefined,
+			},
+			privateKey,
+		);
+		const eip1559 = await decode(signed);
+		expect(eip1559).toMatchObject({
+			type: 'eip1559',
+			to: null,
+			maxFeePerGas: '20',
+			maxPriorityFeePerGas: '1',
+			chainId: 25,
+			chainIdMismatch: false,
+		});
+		expect(eip1559.from).toBe(privateKeyToAddress(privateKey));
+		expect(eip1559.hash).toMatch(/^0x[0-9a-f]{64}$/);
+
+		await expect(decode(signed.slice(0, -2))).rejects.toThrow();
+		await expect(decode('0x05c0')).rejects.toThrow('Unsupported transaction type: 0x5');
+	});
+
+	it('should report a missing explorer as unhealthy in the API health check', async () => {
+		const context = createExecuteContext({
+			credentials: {
+				network: 'custom',
+				rpcEndpoint: 'https://custom.example.com',
+				chainId: 25,
+			},
+			typeVersion: 2,
+			httpRequest: async (request) => {
+				const [chainId, blockNumber] = rpcBatch(request);
+				return [rpcResult(chainId, '0x19'), rpcResult(blockNumber, '0x64')];
+			},
+		});
+
+		const [health] = await getAPIHealth.call(context, 0);
+
+		expect(health.json).toMatchObject({
+			rpc: { healthy: true },
+			cronosScan: { endpoint: null, healthy: false },
+			overall: { healthy: false },
+		});
+	});
+
+	it('should probe the explorer with the API key and without retries', async () => {
+		const queries: IDataObject[] = [];
+		const context = createExecuteContext({
+			credentials: {
+				network: 'mainnet',
+				rpcEndpoint: 'https://probe.example.com',
+				cronosScanApiKey: 'probe-key',
+				cronosScanMaxRetries: 3,
+			},
+			typeVersion: 2,
+			httpRequest: async (request) => {
+				if (request.method === 'POST') {
+					const [chainId, blockNumber] = rpcBatch(request);
+					return [rpcResult(chainId, '0x19'), rpcResult(blockNumber, '0x64')];
+				}
+				queries.push(request.qs as IDataObject);
+				return { status: '0', message: 'NOTOK', result: 'Max rate limit reached' };
+			},
+		});
+
+		const [health] = await getAPIHealth.call(context, 0);
+
+		expect(queries).toEqual([{ module: 'stats', action: 'ethsupply', apikey: 'probe-key' }]);
+		expect(health.json).toMatchObject({ cronosScan: { healthy: false, hasApiKey: true } });
+	});
+});
@@ -11,11 +11,44 @@ import {
 	decimalToHex,
 	isValidAddress,
 	isValidTxHash,
+	toChecksumAddress,
+	lookupAddress,
 	truncateAddress,
 	formatGasPrice,
 	calculateTxFee,
 	decodeUint256,
 	decodeAddress,
+	keccak256,
+	keccak256Signature,
+	getFunctionSelector,
+	getEventTopic,
+	normalizeSignature,
+	resolveFunctionSelector,
+	rlpEncode,
+	rlpDecode,
+	bytesToHex,
+	hexToBytes,
+	quantityToBytes,
+	privateKeyToAddress,
+	recoverAddress,
+	signHash,
+	hashMessage,
+	hashTypedData,
+	joinSignature,
+	splitSignature,
+	encodeParameters,
+	encodeFunctionData,
+	decodeParameters,
+	decodeFunctionData,
+	decodeFunctionResult,
+	decodeEventLog,
+	decodeString,
+	decodeRevertData,
+	findFragment,
+	parseAbi,
+	padAddress,
+	padNumber,
+	simplifyPayload,
 } from '../nodes/Cronos/utils';
 
 describe('Utility Functions', () => {
@@ -87,6 +120,49 @@ describe('Utility Functions', () => {
 			expect(isValidAddress('')).toBe(false);
 			expect(isValidAddress('5C7F8A570d578ED84E63fdFA7b1eE72dEae1AE23')).toBe(false);
 		});
+
+		it('should reject mixed-case addresses with a bad checksum', () => {
+			expect(isValidAddress('0x5c7f8a570d578ed84e63fdfa7b1ee72deae1ae23')).toBe(true);
+			expect(isValidAddress('0x5C7F8A570D578ED84E63FDFA7B1EE72DEAE1AE23')).toBe(true);
+			expect(isValidAddress('0x5c7F8A570d578ED84E63fdFA7b1eE72dEae1AE23')).toBe(false);
+		});
+	});
+
+	describe('toChecksumAddress', () => {
+		it('should apply the EIP-55 checksum', () => {
+			expect(toChecksumAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed')).toBe(
+				'0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+			);
+			expect(toChecksumAddress('0xFB6916095CA1DF60BB79CE92CE3EA74C37C5D359')).toBe(
+				'0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+			);
+		});
+
+		it('should reject malformed addresses and bad checksums', () => {
+			expect(() => toChecksumAddress('0x1234')).toThrow('Invalid address');
+			expect(() => toChecksumAddress('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD')).toThrow(
+				'Invalid address checksum',
+			);
+		});
+
+		it('should find known tokens regardless of case', async () => {
+			const { KNOWN_TOKENS } = await import('../nodes/Cronos/constants');
+			for (const address of Object.keys(KNOWN_TOKENS)) {
+				expect(toChecksumAddress(address)).toBe(address);
+			}
+			const wcro = lookupAddress(KNOWN_TOKENS, '0x5c7f8a570d578ed84e63fdfa7b1ee72deae1ae23');
+			expect(wcro?.symbol).toBe('WCRO');
+			expect(lookupAddress(KNOWN_TOKENS, '0x' + '00'.repeat(20))).toBeUndefined();
+		});
+
+		it('should key the known address tables by valid addresses', async () => {
+			const { KNOWN_CONTRACTS, KNOWN_TOKENS } = await import('../nodes/Cronos/constants');
+			for (const address of [...Object.keys(KNOWN_TOKENS), ...Object.keys(KNOWN_CONTRACTS)]) {
+				expect(isValidAddress(address)).toBe(true);
+			}
+			const router = lookupAddress(KNOWN_CONTRACTS, '0x145863eb42cf62847a6ca784e6416c1682b1b2ae');
+			expect(router).toEqual({ name: 'VVS Finance Router', type: 'DEX' });
+		});
 	});
 
 	describe('isValidTxHash', () => {
@@ -147,13 +223,395 @@ describe('Utility Functions', () => {
 			const result = decodeAddress(
 				'0x0000000000000000000000005c7f8a570d578ed84e63fdfa7b1ee72deae1ae23'
 			);
-			expect(result.toLowerCase()).toBe('0x5c7f8a570d578ed84e63fdfa7b1ee72deae1ae23');
+			expect(result).toBe('0x5C7F8A570d578ED84E63fdFA7b1eE72dEae1AE23');
 		});
 
 		it('should handle empty values', () => {
 			expect(decodeAddress('')).toBe('0x0000000000000000000000000000000000000000');
 		});
 	});
+
+	describe('keccak256', () => {
+		it('should hash empty input', () => {
+			expect(keccak256('0x')).toBe(
+				'0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470',
+			);
+		});
+
+		it('should hash signatures', () => {
+			expect(keccak256Signature('Transfer(address,address,uint256)')).toBe(
+				'0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+			);
+		});
+	});
+
+	describe('signatures', () => {
+		it('should compute function selectors', () => {
+			expect(getFunctionSelector('transfer(address,uint256)')).toBe('0xa9059cbb');
+			expect(getFunctionSelector('function transfer(address to, uint amount)')).toBe('0xa9059cbb');
+		});
+
+		it('should compute event topics', () => {
+			expect(getEventTopic('event Approval(address indexed owner, address indexed spender, uint256 value)')).toBe(
+				'0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925',
+			);
+		});
+
+		it('should normalize tuple and array types', () => {
+			expect(normalizeSignature('f((uint a, address[] b)[2] x, int y) returns (uint)')).toBe(
+				'f((uint256,address[])[2],int256)',
+			);
+		});
+
+		it('should pass through precomputed selectors', () => {
+			expect(resolveFunctionSelector('0xA9059CBB')).toBe('0xa9059cbb');
+		});
+	});
+
+	describe('rlpEncode', () => {
+		it('should encode strings and lists', () => {
+			const dog = new Uint8Array(Buffer.from('dog'));
+			const cat = new Uint8Array(Buffer.from('cat'));
+			expect(bytesToHex(rlpEncode(dog))).toBe('0x83646f67');
+			expect(bytesToHex(rlpEncode([cat, dog]))).toBe('0xc88363617483646f67');
+			expect(bytesToHex(rlpEncode(new Uint8Array(0)))).toBe('0x80');
+			expect(bytesToHex(rlpEncode([]))).toBe('0xc0');
+		});
+
+		it('should encode integers minimally', () => {
+			expect(bytesToHex(rlpEncode(quantityToBytes(0)))).toBe('0x80');
+			expect(bytesToHex(rlpEncode(quantityToBytes('0x0f')))).toBe('0x0f');
+			expect(bytesToHex(rlpEncode(quantityToBytes(1024)))).toBe('0x820400');
+		});
+
+		it('should use long-form lengths above 55 bytes', () => {
+			expect(bytesToHex(rlpEncode(hexToBytes('aa'.repeat(56)))).slice(0, 6)).toBe('0xb838');
+		});
+	});
+
+	describe('rlpDecode', () => {
+		it('should decode what rlpEncode produces', () => {
+			const long = hexToBytes('aa'.repeat(56));
+			const encoded = rlpEncode([quantityToBytes(1024), [long, []], hexToBytes('0x0f')]);
+			const decoded = rlpDecode(encoded);
+			expect(decoded).toEqual([hexToBytes('0x0400'), [long, []], hexToBytes('0x0f')]);
+			expect(rlpDecode(hexToBytes('0x80'))).toEqual(new Uint8Array(0));
+		});
+
+		it('should reject non-canonical and malformed input', () => {
+			expect(() => rlpDecode(hexToBytes('0x810f'))).toThrow();
+			expect(() => rlpDecode(hexToBytes('0xb801aa'))).toThrow();
+			expect(() => rlpDecode(hexToBytes('0x83646f'))).toThrow();
+			expect(() => rlpDecode(hexToBytes('0x8080'))).toThrow();
+		});
+	});
+
+	describe('ABI encoding', () => {
+		it('should encode dynamic types in the tail', () => {
+			expect(encodeParameters(['string', 'uint256[]'], ['hi', [1, 2]])).toBe(
+				'0x' +
+					'0000000000000000000000000000000000000000000000000000000000000040' +
+					'0000000000000000000000000000000000000000000000000000000000000080' +
+					'0000000000000000000000000000000000000000000000000000000000000002' +
+					'6869000000000000000000000000000000000000000000000000000000000000' +
+					'0000000000000000000000000000000000000000000000000000000000000002' +
+					'0000000000000000000000000000000000000000000000000000000000000001' +
+					'0000000000000000000000000000000000000000000000000000000000000002',
+			);
+		});
+
+		it('should use two\'s complement for negative integers', () => {
+			expect(encodeParameters(['int8'], [-1])).toBe('0x' + 'f'.repeat(64));
+			expect(() => encodeParameters(['int8'], [128])).toThrow();
+		});
+
+		it('should encode tuples and fixed arrays in place', () => {
+			expect(encodeParameters(['(uint256,bool)', 'uint8[2]'], [[1, true], [3, 4]])).toBe(
+				'0x' + ['1', '1', '3', '4'].map((n) => n.padStart(64, '0')).join(''),
+			);
+		});
+
+		it('should encode call data from named arguments', () => {
+			expect(
+				encodeFunctionData('transfer(address to, uint256 amount)', {
+					to: '0x1212121212121212121212121212121212121212',
+					amount: '1000',
+				}),
+			).toBe(
+				'0xa9059cbb0000000000000000000000001212121212121212121212121212121212121212' +
+					'00000000000000000000000000000000000000000000000000000000000003e8',
+			);
+		});
+
+		it('should accept typed value lists with a bare selector', () => {
+			expect(encodeFunctionData('0x70a08231', [{ type: 'address', value: '0x' + '12'.repeat(20) }])).toBe(
+				'0x70a08231' + '12'.repeat(20).padStart(64, '0'),
+			);
+		});
+	});
+
+	describe('ABI decoding', () => {
+		const abi = parseAbi(`
+			function transfer(address to, uint256 amount) returns (bool)
+			function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)
+			event Transfer(address indexed from, address indexed to, uint256 value)
+		`);
+
+		it('should decode dynamic, signed and nested values', () => {
+			const types = ['int8', 'string', 'bytes', 'uint256[]', '(string label, uint256[2] pair)[]'];
+			const values = [-5, 'héllo ✓', '0xdeadbeef', ['1', '2'], [{ label: 'a', pair: ['3', '4'] }]];
+
+			expect(decodeParameters(types, encodeParameters(types, values))).toEqual([
+				'-5',
+				'héllo ✓',
+				'0xdeadbeef',
+				['1', '2'],
+				[{ label: 'a', pair: ['3', '4'] }],
+			]);
+		});
+
+		it('should reject truncated data', () => {
+			expect(() => decodeParameters(['uint256', 'uint256'], padNumber(1))).toThrow(/too short/);
+		});
+
+		it('should decode call data by selector', () => {
+			const data = encodeFunctionData('transfer(address,uint256)', [
+				'0x' + '11'.repeat(20),
+				'1000',
+			]);
+
+			expect(decodeFunctionData(abi, data)).toEqual({
+				name: 'transfer',
+				signature: 'transfer(address,uint256)',
+				selector: '0xa9059cbb',
+				args: { to: '0x' + '11'.repeat(20), amount: '1000' },
+			});
+		});
+
+		it('should decode named function outputs', () => {
+			const data = encodeParameters(['uint112', 'uint112', 'uint32'], [10, 20, 30]);
+
+			expect(decodeFunctionResult(findFragment(abi, 'function', 'getReserves'), data)).toEqual({
+				reserve0: '10',
+				reserve1: '20',
+				blockTimestampLast: '30',
+			});
+		});
+
+		it('should decode event logs with indexed topics', () => {
+			const log = {
+				topics: [
+					'0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+					padAddress('0x' + '11'.repeat(20)),
+					padAddress('0x' + '22'.repeat(20)),
+				],
+				data: padNumber(5),
+			};
+
+			expect(decodeEventLog(abi, log).args).toEqual({
+				from: '0x' + '11'.repeat(20),
+				to: '0x' + '22'.repeat(20),
+				value: '5',
+			});
+		});
+
+		it('should keep hashes for indexed dynamic values', () => {
+			const [named] = parseAbi('event Named(string indexed label, string note)');
+			const topic = '0x' + 'ab'.repeat(32);
+			const log = {
+				topics: [getEventTopic('Named(string,string)'), topic],
+				data: encodeParameters(['string'], ['hi']),
+			};
+
+			expect(decodeEventLog([named], log).args).toEqual({ label: topic, note: 'hi' });
+		});
+
+		it('should decode UTF-8 and bytes32 strings', () => {
+			expect(decodeString(encodeParameters(['string'], ['Crönos']))).toBe('Crönos');
+			expect(decodeString('0x' + Buffer.from('WCRO').toString('hex').padEnd(64, '0'))).toBe('WCRO');
+		});
+	});
+
+	describe('decodeRevertData', () => {
+		it('should decode Error(string) reasons', () => {
+			const data = '0x08c379a0' + encodeParameters(['string'], ['Insufficient balance']).slice(2);
+
+			expect(decodeRevertData(data)).toMatchObject({
+				kind: 'error',
+				reason: 'Insufficient balance',
+			});
+		});
+
+		it('should explain panic codes', () => {
+			const data = '0x4e487b71' + padNumber(0x11).slice(2);
+
+			expect(decodeRevertData(data)).toMatchObject({
+				kind: 'panic',
+				panicCode: '0x11',
+				reason: 'panic 0x11 (arithmetic overflow or underflow)',
+			});
+		});
+
+		it('should decode custom errors declared in the ABI', () => {
+			const abi = parseAbi('error InsufficientBalance(uint256 available, uint256 required)');
+			const data =
+				getFunctionSelector('InsufficientBalance(uint256,uint256)') +
+				encodeParameters(['uint256', 'uint256'], [1, 5]).slice(2);
+
+			expect(decodeRevertData(data, abi)).toMatchObject({
+				kind: 'custom',
+				reason: 'InsufficientBalance(available: 1, required: 5)',
+				args: { available: '1', required: '5' },
+			});
+			expect(decodeRevertData(data).reason).toBe(`custom error ${data.slice(0, 10)}`);
+		});
+
+		it('should handle empty revert data', () => {
+			expect(decodeRevertData('0x').reason).toBe('reverted without a reason');
+		});
+	});
+
+	describe('privateKeyToAddress', () => {
+		it('should derive the address for a private key', () => {
+			expect(privateKeyToAddress('0x' + '46'.repeat(32))).toBe(
+				'0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F',
+			);
+		});
+
+		it('should reject malformed keys', () => {
+			expect(() => privateKeyToAddress('0x1234')).toThrow();
+		});
+	});
+
+	describe('recoverAddress', () => {
+		it('should recover the signer of a hash', () => {
+			const privateKey = '0x' + '46'.repeat(32);
+			const hash = keccak256('0x1234');
+			expect(recoverAddress(hash, signHash(hash, privateKey))).toBe(
+				privateKeyToAddress(privateKey),
+			);
+		});
+	});
+
+	describe('hashMessage', () => {
+		it('should hash with the EIP-191 prefix', () => {
+			expect(hashMessage('hello world')).toBe(
+				'0xd9eba16ed0ecae432b71fe008c98cc872bb4cc214d3220a36f365326cf807d68',
+			);
+		});
+	});
+
+	describe('hashTypedData', () => {
+		const person = [
+			{ name: 'name', type: 'string' },
+			{ name: 'wallet', type: 'address' },
+		];
+		const typedData = {
+			types: {
+				EIP712Domain: [
+					{ name: 'name', type: 'string' },
+					{ name: 'version', type: 'string' },
+					{ name: 'chainId', type: 'uint256' },
+					{ name: 'verifyingContract', type: 'address' },
+				],
+				Person: person,
+				Mail: [
+					{ name: 'from', type: 'Person' },
+					{ name: 'to', type: 'Person' },
+					{ name: 'contents', type: 'string' },
+				],
+			},
+			primaryType: 'Mail',
+			domain: {
+				name: 'Ether Mail',
+				version: '1',
+				chainId: 1,
+				verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+			},
+			message: {
+				from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+				to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+				contents: 'Hello, Bob!',
+			},
+		};
+
+		it('should hash the EIP-712 example', () => {
+			expect(hashTypedData(typedData)).toBe(
+				'0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2',
+			);
+		});
+
+		it('should infer the domain type and the primary type', () => {
+			const { EIP712Domain: _domain, ...types } = typedData.types;
+			expect(hashTypedData({ ...typedData, types, primaryType: undefined })).toBe(
+				hashTypedData(typedData),
+			);
+		});
+
+		it('should reject missing fields', () => {
+			const message = { ...typedData.message, contents: undefined };
+			expect(() => hashTypedData({ ...typedData, message })).toThrow(
+				'Missing value for Mail.contents',
+			);
+		});
+	});
+
+	describe('splitSignature', () => {
+		it('should parse full and compact signatures', () => {
+			const signature = signHash(keccak256('0x1234'), '0x' + '46'.repeat(32));
+			const serialized = joinSignature(signature);
+			expect(splitSignature(serialized)).toEqual(signature);
+
+			const compactS = signature.s | (BigInt(signature.recovery) << BigInt(255));
+			const compact = serialized.slice(0, 66) + compactS.toString(16).padStart(64, '0');
+			expect(splitSignature(compact)).toEqual(signature);
+		});
+
+		it('should reject malformed signatures', () => {
+			expect(() => splitSignature('0x1234')).toThrow('Invalid signature');
+			expect(() => splitSignature('0x' + '11'.repeat(64) + '05')).toThrow(
+				'unexpected v value',
+			);
+		});
+	});
+
+	describe('simplifyPayload', () => {
+		it('should normalize JSON-RPC objects', () => {
+			expect(
+				simplifyPayload({
+					hash: '0xabc',
+					blockNumber: '0x10',
+					timestamp: '0x6553f100',
+					value: '0xde0b6b3a7640000',
+					input: '0x',
+					logs: [{ logIndex: '0x2', data: '0x01' }],
+				}),
+			).toEqual({
+				hash: '0xabc',
+				blockNumber: '16',
+				timestamp: '2023-11-14T22:13:20.000Z',
+				value: '1',
+				input: '0x',
+				logs: [{ logIndex: '2', data: '0x01' }],
+			});
+		});
+
+		it('should normalize explorer records', () => {
+			expect(
+				simplifyPayload([
+					{ blockNumber: '16', timeStamp: '1700000000', value: '1500000', tokenDecimal: '6' },
+				]),
+			).toEqual([
+				{ blockNumber: '16', timestamp: '2023-11-14T22:13:20.000Z', value: '1.5', tokenDecimal: '6' },
+			]);
+		});
+
+		it('should convert scalars by kind', () => {
+			expect(simplifyPayload('0x19', 'quantity')).toBe('25');
+			expect(simplifyPayload('2000000000000000000', 'wei')).toBe('2');
+			expect(simplifyPayload('0x19')).toBe('0x19');
+		});
+	});
 });
 
 describe('Constants', () => {
@@ -178,6 +636,7 @@ describe('Constants', () => {
 		
 		expect(FUNCTION_SIGNATURES.transfer).toBe('0xa9059cbb');
 		expect(FUNCTION_SIGNATURES.balanceOf).toBe('0x70a08231');
+		expect(FUNCTION_SIGNATURES.transferFrom).toBe(getFunctionSelector('transferFrom(address,address,uint256)'));
 	});
 
 	it('should have event signatures', async () => {
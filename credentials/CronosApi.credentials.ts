@@ -5,25 +5,104 @@ export class CronosApi implements ICredentialType {
 	displayName = 'Cronos API';
 	properties: INodeProperties[] = [
 		{
-			displayName: 'RPC URL',
-			name: 'rpcUrl',
+			displayName: 'Network',
+			name: 'network',
+			type: 'options',
+			options: [
+				{
+					name: 'Mainnet',
+					value: 'mainnet',
+					description: 'Cronos EVM mainnet (chain ID 25)',
+				},
+				{
+					name: 'Testnet',
+					value: 'testnet',
+					description: 'Cronos EVM testnet (chain ID 338)',
+				},
+				{
+					name: 'Custom',
+					value: 'custom',
+					description: 'Any other Cronos-compatible network',
+				},
+			],
+			default: 'mainnet',
+			description: 'The Cronos network to connect to',
+		},
+		{
+			displayName: 'RPC Endpoint',
+			name: 'rpcEndpoint',
+			type: 'string',
+			default: '',
+			placeholder: 'https://evm.cronos.org',
+			description:
+				"JSON-RPC endpoint to use. Leave empty to use the selected network's public endpoint.",
+			displayOptions: {
+				show: {
+					network: ['mainnet', 'testnet'],
+				},
+			},
+		},
+		{
+			displayName: 'RPC Endpoint',
+			name: 'rpcEndpoint',
+			type: 'string',
+			default: '',
+			placeholder: 'https://rpc.example.com',
+			description: 'JSON-RPC endpoint of the custom network',
+			required: true,
+			displayOptions: {
+				show: {
+					network: ['custom'],
+				},
+			},
+		},
+		{
+			displayName: 'Fallback RPC Endpoints',
+			name: 'fallbackRpcEndpoints',
 			type: 'string',
-			default: 'https://evm.cronos.org',
-			description: 'The RPC URL endpoint for Cronos blockchain',
+			typeOptions: { rows: 3 },
+			default: '',
+			placeholder: 'https://rpc-1.example.com\nhttps://rpc-2.example.com',
+			description:
+				'Additional JSON-RPC endpoints, one per line, used when the RPC endpoint times out, fails, is rate limited or falls behind. Healthy, fast endpoints are preferred.',
+		},
+		{
+			displayName: 'Explorer API URL',
+			name: 'explorerApiUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'https://explorer.example.com/api',
+			description: 'Etherscan-compatible explorer API of the custom network',
+			displayOptions: {
+				show: {
+					network: ['custom'],
+				},
+			},
+		},
+		{
+			displayName: 'Chain ID',
+			name: 'chainId',
+			type: 'number',
+			default: 25,
+			description: 'Chain ID of the custom network, used for signing and to verify the endpoint',
 			required: true,
+			displayOptions: {
+				show: {
+					network: ['custom'],
+				},
+			},
 		},
 		{
-			displayName: 'API Key',
-			name: 'apiKey',
+			displayName: 'RPC API Key',
+			name: 'rpcApiKey',
 			type: 'string',
 			typeOptions: { password: true },
 			default: '',
-			description: 'API key for third-party services (e.g., CronosScan). Leave empty for public RPC endpoints.',
-			required: false,
+			description: 'API key for the RPC provider. Leave empty for public RPC endpoints.',
 		},
 		{
-			displayName: 'Use API Key in',
-			name: 'apiKeyLocation',
+			displayName: 'Use RPC API Key In',
+			name: 'rpcApiKeyLocation',
 			type: 'options',
 			options: [
 				{
@@ -36,12 +115,105 @@ export class CronosApi implements ICredentialType {
 				},
 			],
 			default: 'header',
-			description: 'Where to include the API key',
+			description: 'Where to include the RPC API key',
 			displayOptions: {
 				show: {
-					apiKey: [{ _cnd: { not: '' } }],
+					rpcApiKey: [{ _cnd: { not: '' } }],
 				},
 			},
 		},
+		{
+			displayName: 'RPC API Key Name',
+			name: 'rpcApiKeyName',
+			type: 'string',
+			default: 'x-api-key',
+			description: 'Name of the header or query parameter that carries the RPC API key',
+			displayOptions: {
+				show: {
+					rpcApiKey: [{ _cnd: { not: '' } }],
+				},
+			},
+		},
+		{
+			displayName: 'Multicall Address',
+			name: 'multicallAddress',
+			type: 'string',
+			default: '',
+			placeholder: '0xcA11bde05977b3631167028862bE2a173976CA11',
+			description:
+				'Multicall3 contract used to batch contract reads. Leave empty to use the canonical deployment.',
+		},
+		{
+			displayName: 'CronosScan API Key',
+			name: 'cronosScanApiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'API key for the CronosScan explorer API',
+		},
+		{
+			displayName: 'CronosScan API Tier',
+			name: 'cronosScanTier',
+			type: 'options',
+			options: [
+				{
+					name: 'Free',
+					value: 'free',
+					description: '5 calls per second',
+				},
+				{
+					name: 'Standard',
+					value: 'standard',
+					description: '10 calls per second',
+				},
+				{
+					name: 'Advanced',
+					value: 'advanced',
+					description: '20 calls per second',
+				},
+				{
+					name: 'Professional',
+					value: 'professional',
+					description: '30 calls per second',
+				},
+				{
+					name: 'Custom',
+					value: 'custom',
+				},
+			],
+			default: 'free',
+			description: 'Plan of the API key. Explorer calls are paced to stay within its rate limit.',
+		},
+		{
+			displayName: 'CronosScan Calls per Second',
+			name: 'cronosScanRateLimit',
+			type: 'number',
+			typeOptions: { minValue: 0.1 },
+			default: 5,
+			description: 'Rate limit of the API key',
+			displayOptions: {
+				show: {
+					cronosScanTier: ['custom'],
+				},
+			},
+		},
+		{
+			displayName: 'CronosScan Max Retries',
+			name: 'cronosScanMaxRetries',
+			type: 'number',
+			typeOptions: { minValue: 0 },
+			default: 3,
+			description:
+				'How often to retry explorer calls that hit the rate limit, time out or fail with a server error',
+		},
+		{
+			displayName: 'Private Key',
+			name: 'privateKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description:
+				'Hex-encoded private key used to sign transactions. Only required for write operations.',
+		},
 	];
-}
\ No newline at end of file
+}
@@ -12,13 +12,175 @@
  */
 
 import {
+  IDataObject,
   IExecuteFunctions,
+  IHttpRequestMethods,
+  INode,
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
+  NodeConnectionType,
   NodeOperationError,
   NodeApiError,
 } from 'n8n-workflow';
+import { accountsOperations } from './actions/accounts';
+import { nftsOperations } from './actions/nfts';
+import { defiOperations } from './actions/defi';
+import { eventsOperations } from './actions/events';
+import { signatureOperations } from './actions/signature';
+import { tokensOperations } from './actions/tokens';
+import { utilityOperations } from './actions/utility';
+import {
+  decodeReceiptLogs,
+  decodeTransactionInput,
+  transactionsOperations,
+} from './actions/transactions';
+import {
+  getFunctionInputs,
+  getReadFunctions,
+  smartContractsOperations,
+} from './actions/smartContracts';
+import {
+  batchJsonRpcRequest,
+  cronosScanRequestAll,
+  cronosScanResponse,
+  disableRpcBatching,
+  enableRpcBatching,
+  jsonRpcResponse,
+  testCronosCredentials,
+} from './transport';
+import { getErrorCode, InvalidInputError } from './errors';
+import { formatBlockNumber, isValidTxHash, simplifyPayload } from './utils';
+import type { AbiFragment, PayloadKind } from './utils';
+
+type ActionOperations = Record<
+  string,
+  (this: IExecuteFunctions, index: number) => Promise<INodeExecutionData[]>
+>;
+
+// Operations implemented in ./actions that are offered alongside the inline
+// operations of their resource
+const ACTION_OPERATIONS: Record<string, ActionOperations> = {
+  account: {
+    getTokenBalances: accountsOperations.getTokenBalances,
+  },
+  transaction: {
+    sendTransaction: transactionsOperations.sendTransaction,
+    speedUpTransaction: transactionsOperations.speedUpTransaction,
+    cancelTransaction: transactionsOperations.cancelTransaction,
+  },
+  smartContract: {
+    readContract: smartContractsOperations.readContract,
+    multicall: smartContractsOperations.multicall,
+    writeContract: smartContractsOperations.writeContract,
+    deployContract: smartContractsOperations.deployContract,
+  },
+};
+
+// Operations implemented in ./actions from version 2 on, in place of the inline
+// operation of the same name. Version 1 keeps reading token info from the
+// explorer; version 2 reads it from the token contract in one multicall.
+const VERSION_2_ACTION_OPERATIONS: Record<string, ActionOperations> = {
+  token: {
+    getTokenInfo: tokensOperations.getTokenInfo,
+  },
+};
+
+// List operations and the output field that holds their records. Unless Output
+// Mode is "Single Summary Item", every record is emitted as an item of its own.
+const LIST_RECORDS: Record<string, Record<string, string>> = {
+  account: {
+    getMultipleBalances: 'result',
+    getTokenBalances: 'tokenBalances',
+    getTransactions: 'result',
+    getInternalTransactions: 'result',
+    getTokenTransactions: 'result',
+  },
+  smartContract: {
+    getLogs: 'result',
+    multicall: 'results',
+  },
+  token: {
+    getTokenTransfers: 'result',
+    getNftTransfers: 'result',
+    getTokenHolders: 'result',
+    getTransferEvents: 'result',
+  },
+  nft: {
+    getNFTTransfers: 'transfers',
+    getNFTOwners: 'owners',
+  },
+  defi: {
+    getYieldFarms: 'farms',
+  },
+  event: {
+    getLogs: 'logs',
+    filterEvents: 'events',
+  },
+};
+
+// Operations that list records, where Output Mode is offered
+const LIST_OPERATIONS = {
+  resource: Object.keys(LIST_RECORDS),
+  operation: Array.from(new Set(Object.values(LIST_RECORDS).flatMap(Object.keys))),
+};
+
+// Choices of Output Mode
+const OUTPUT_MODES = [
+  {
+    name: 'One Item per Record',
+    value: 'records',
+    description: 'Output every record as an item of its own',
+  },
+  {
+    name: 'Single Summary Item',
+    value: 'summary',
+    description: 'Output one item holding all records',
+  },
+];
+
+// Operations whose output is computed rather than passed through, which have
+// no Simplify option
+const COMPUTED_OPERATIONS = {
+  resource: ['defi', 'signature', 'utility'],
+  operation: [
+    'getTokenBalances',
+    'sendTransaction',
+    'speedUpTransaction',
+    'cancelTransaction',
+    'writeContract',
+    'deployContract',
+    'getNFTMetadata',
+    'getCollectionInfo',
+    'getNFTOwners',
+    'subscribeToLogs',
+  ],
+};
+
+// Scalar results of inline operations that Simplify converts. Other scalars,
+// such as hashes, call data and code, are passed through unchanged.
+const SCALAR_KINDS: Record<string, Record<string, PayloadKind>> = {
+  account: { getBalance: 'wei', getTransactionCount: 'quantity' },
+  transaction: { estimateGas: 'quantity', getGasPrice: 'quantity' },
+  block: {
+    getLatestBlock: 'quantity',
+    getBlockNumber: 'quantity',
+    getBlockTransactionCount: 'quantity',
+  },
+  stats: { getTotalSupply: 'wei', getGasPrice: 'quantity' },
+  network: { getChainId: 'quantity', getProtocolVersion: 'quantity' },
+};
+
+// continueOnFail output for a failed item: the message, a stable error code to
+// branch on and, for reverted calls, the decoded reason
+function errorOutput(error: Error): IDataObject {
+  const output: IDataObject = { error: error.message, code: getErrorCode(error) };
+  const context = (error as NodeApiError).context;
+  if (context?.revert) {
+    output.revert = context.revert;
+  }
+  return output;
+}
 
 export class Cronos implements INodeType {
   description: INodeTypeDescription = {
@@ -26,18 +188,20 @@ export class Cronos implements INodeType {
     name: 'cronos',
     icon: 'file:cronos.svg',
     group: ['transform'],
-    version: 1,
+    version: [1, 2],
+    defaultVersion: 2,
     subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
     description: 'Interact with the Cronos API',
     defaults: {
       name: 'Cronos',
     },
-    inputs: ['main'],
-    outputs: ['main'],
+    inputs: [NodeConnectionType.Main],
+    outputs: [NodeConnectionType.Main],
     credentials: [
       {
         name: 'cronosApi',
         required: true,
+        testedBy: 'cronosApiTest',
       },
     ],
     properties: [
@@ -75,7 +239,27 @@ export class Cronos implements INodeType {
           {
             name: 'Stats',
             value: 'stats',
-          }
+          },
+          {
+            name: 'NFT',
+            value: 'nft',
+          },
+          {
+            name: 'DeFi',
+            value: 'defi',
+          },
+          {
+            name: 'Event',
+            value: 'event',
+          },
+          {
+            name: 'Signature',
+            value: 'signature',
+          },
+          {
+            name: 'Utility',
+            value: 'utility',
+          },
         ],
         default: 'account',
       },
@@ -103,6 +287,12 @@ export class Cronos implements INodeType {
       description: 'Get CRO balance for multiple addresses',
       action: 'Get CRO balance for multiple addresses',
     },
+    {
+      name: 'Get Token Balances',
+      value: 'getTokenBalances',
+      description: 'Get ERC-20 token balances of an address in one multicall',
+      action: 'Get token balances of an address',
+    },
     {
       name: 'Get Transactions',
       value: 'getTransactions',
@@ -171,6 +361,24 @@ export class Cronos implements INodeType {
       description: 'Submits a pre-signed transaction for broadcast',
       action: 'Send raw transaction',
     },
+    {
+      name: 'Send Transaction',
+      value: 'sendTransaction',
+      description: 'Sign a CRO transfer with the credential key and broadcast it',
+      action: 'Send transaction',
+    },
+    {
+      name: 'Speed Up Transaction',
+      value: 'speedUpTransaction',
+      description: 'Replace a pending transaction with the same one at higher fees',
+      action: 'Speed up transaction',
+    },
+    {
+      name: 'Cancel Transaction',
+      value: 'cancelTransaction',
+      description: 'Replace a pending transaction with a 0-value transfer to yourself',
+      action: 'Cancel transaction',
+    },
     {
       name: 'Estimate Gas',
       value: 'estimateGas',
@@ -245,6 +453,30 @@ export class Cronos implements INodeType {
       description: 'Get contract storage value at position',
       action: 'Get contract storage value',
     },
+    {
+      name: 'Read Contract',
+      value: 'readContract',
+      description: 'Call a view or pure function and decode its named outputs',
+      action: 'Read contract',
+    },
+    {
+      name: 'Multicall',
+      value: 'multicall',
+      description: 'Run many read-only calls in a single request through Multicall3',
+      action: 'Multicall',
+    },
+    {
+      name: 'Write Contract',
+      value: 'writeContract',
+      description: 'Sign and broadcast a state-changing contract call',
+      action: 'Write contract',
+    },
+    {
+      name: 'Deploy Contract',
+      value: 'deployContract',
+      description: 'Sign and broadcast a contract deployment',
+      action: 'Deploy contract',
+    },
   ],
   default: 'getContractAbi',
 },
@@ -428,6 +660,190 @@ export class Cronos implements INodeType {
     { name: 'Get Protocol Version', value: 'getProtocolVersion', description: 'Get Ethereum protocol version', action: 'Get protocol version' }
   ],
   default: 'getChainId',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+    },
+  },
+  options: [
+    {
+      name: 'Get NFT Metadata',
+      value: 'getNFTMetadata',
+      description: 'Get token URI, owner and resolved metadata for an NFT',
+      action: 'Get NFT metadata',
+    },
+    {
+      name: 'Get NFT Transfers',
+      value: 'getNFTTransfers',
+      description: 'Get transfer history of an NFT collection or token',
+      action: 'Get NFT transfers',
+    },
+    {
+      name: 'Get Collection Info',
+      value: 'getCollectionInfo',
+      description: 'Get name, symbol, supply and standard of an NFT collection',
+      action: 'Get collection info',
+    },
+    {
+      name: 'Get NFT Owners',
+      value: 'getNFTOwners',
+      description: 'Get the current owner(s) of an NFT',
+      action: 'Get NFT owners',
+    },
+  ],
+  default: 'getNFTMetadata',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['defi'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Protocol TVL',
+      value: 'getProtocolTVL',
+      description: 'Get an estimate of the total value locked in a protocol',
+      action: 'Get protocol TVL',
+    },
+    {
+      name: 'Get Pool Info',
+      value: 'getPoolInfo',
+      description: 'Get tokens, reserves and supply of a liquidity pool',
+      action: 'Get pool info',
+    },
+    {
+      name: 'Get DEX Stats',
+      value: 'getDEXStats',
+      description: 'Get pair count, fees and sample pairs of a DEX',
+      action: 'Get DEX stats',
+    },
+    {
+      name: 'Get Yield Farms',
+      value: 'getYieldFarms',
+      description: 'Get the yield farms offered by a protocol',
+      action: 'Get yield farms',
+    },
+  ],
+  default: 'getPoolInfo',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['event'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Logs',
+      value: 'getLogs',
+      description: 'Get event logs and decode known events',
+      action: 'Get event logs',
+    },
+    {
+      name: 'Subscribe To Logs',
+      value: 'subscribeToLogs',
+      description: 'Build an eth_subscribe filter for real-time logs',
+      action: 'Subscribe to logs',
+    },
+    {
+      name: 'Filter Events',
+      value: 'filterEvents',
+      description: 'Get logs of a specific event type',
+      action: 'Filter events',
+    },
+  ],
+  default: 'getLogs',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['signature'],
+    },
+  },
+  options: [
+    {
+      name: 'Sign Message',
+      value: 'signMessage',
+      description: 'Sign a message with the credential key (EIP-191 personal_sign)',
+      action: 'Sign a message',
+    },
+    {
+      name: 'Sign Typed Data',
+      value: 'signTypedData',
+      description: 'Sign EIP-712 typed structured data with the credential key',
+      action: 'Sign typed data',
+    },
+    {
+      name: 'Verify Signature',
+      value: 'verifySignature',
+      description: 'Recover the signer of a message or typed data and compare it with an address',
+      action: 'Verify a signature',
+    },
+  ],
+  default: 'signMessage',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+    },
+  },
+  options: [
+    {
+      name: 'Convert Units',
+      value: 'convertUnits',
+      description: 'Convert a value between wei, gwei, CRO and custom decimals',
+      action: 'Convert units',
+    },
+    {
+      name: 'Encode Function',
+      value: 'encodeFunction',
+      description: 'ABI-encode a function call',
+      action: 'Encode function',
+    },
+    {
+      name: 'Decode Data',
+      value: 'decodeData',
+      description: 'Decode ABI-encoded data',
+      action: 'Decode data',
+    },
+    {
+      name: 'Get API Health',
+      value: 'getAPIHealth',
+      description: 'Check the health and latency of the RPC and explorer endpoints',
+      action: 'Get API health',
+    },
+    {
+      name: 'Decode Raw Transaction',
+      value: 'decodeRawTransaction',
+      description: 'Decode a signed transaction and recover its sender',
+      action: 'Decode raw transaction',
+    },
+  ],
+  default: 'convertUnits',
 },
       // Parameter definitions
 {
@@ -471,6 +887,35 @@ export class Cronos implements INodeType {
   default: 'latest',
   description: 'The block parameter to retrieve balance from',
 },
+{
+  displayName: 'Address',
+  name: 'address',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['account'],
+      operation: ['getTokenBalances'],
+    },
+  },
+  default: '',
+  description: 'The address holding the tokens',
+},
+{
+  displayName: 'Token Addresses',
+  name: 'tokenAddresses',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['account'],
+      operation: ['getTokenBalances'],
+    },
+  },
+  default: '',
+  placeholder: '0x..., 0x...',
+  description: 'Comma-separated list of ERC-20 token contract addresses',
+},
 {
   displayName: 'Addresses',
   name: 'addresses',
@@ -560,6 +1005,7 @@ export class Cronos implements INodeType {
     show: {
       resource: ['account'],
       operation: ['getTransactions'],
+      '@version': [1],
     },
   },
   default: 1,
@@ -573,11 +1019,44 @@ export class Cronos implements INodeType {
     show: {
       resource: ['account'],
       operation: ['getTransactions'],
+      '@version': [1],
     },
   },
   default: 10,
   description: 'Number of transactions displayed per page (max 10000)',
 },
+{
+  displayName: 'Return All',
+  name: 'returnAll',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['account'],
+      operation: ['getTransactions'],
+      '@version': [2],
+    },
+  },
+  default: false,
+  description: 'Whether to return all transactions or only up to a given limit',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  typeOptions: {
+    minValue: 1,
+  },
+  displayOptions: {
+    show: {
+      resource: ['account'],
+      operation: ['getTransactions'],
+      '@version': [2],
+      returnAll: [false],
+    },
+  },
+  default: 50,
+  description: 'Max number of results to return',
+},
 {
   displayName: 'Sort',
   name: 'sort',
@@ -649,6 +1128,7 @@ export class Cronos implements INodeType {
     show: {
       resource: ['account'],
       operation: ['getInternalTransactions'],
+      '@version': [1],
     },
   },
   default: 1,
@@ -662,11 +1142,44 @@ export class Cronos implements INodeType {
     show: {
       resource: ['account'],
       operation: ['getInternalTransactions'],
+      '@version': [1],
     },
   },
   default: 10,
   description: 'Number of transactions displayed per page (max 10000)',
 },
+{
+  displayName: 'Return All',
+  name: 'returnAll',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['account'],
+      operation: ['getInternalTransactions'],
+      '@version': [2],
+    },
+  },
+  default: false,
+  description: 'Whether to return all internal transactions or only up to a given limit',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  typeOptions: {
+    minValue: 1,
+  },
+  displayOptions: {
+    show: {
+      resource: ['account'],
+      operation: ['getInternalTransactions'],
+      '@version': [2],
+      returnAll: [false],
+    },
+  },
+  default: 50,
+  description: 'Max number of results to return',
+},
 {
   displayName: 'Sort',
   name: 'sort',
@@ -725,6 +1238,7 @@ export class Cronos implements INodeType {
     show: {
       resource: ['account'],
       operation: ['getTokenTransactions'],
+      '@version': [1],
     },
   },
   default: 1,
@@ -738,11 +1252,44 @@ export class Cronos implements INodeType {
     show: {
       resource: ['account'],
       operation: ['getTokenTransactions'],
+      '@version': [1],
     },
   },
   default: 10,
   description: 'Number of transactions displayed per page (max 10000)',
 },
+{
+  displayName: 'Return All',
+  name: 'returnAll',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['account'],
+      operation: ['getTokenTransactions'],
+      '@version': [2],
+    },
+  },
+  default: false,
+  description: 'Whether to return all token transfers or only up to a given limit',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  typeOptions: {
+    minValue: 1,
+  },
+  displayOptions: {
+    show: {
+      resource: ['account'],
+      operation: ['getTokenTransactions'],
+      '@version': [2],
+      returnAll: [false],
+    },
+  },
+  default: 50,
+  description: 'Max number of results to return',
+},
 {
   displayName: 'Start Block',
   name: 'startblock',
@@ -824,18 +1371,17 @@ export class Cronos implements INodeType {
   description: 'The transaction hash to lookup',
 },
 {
-  displayName: 'Transaction Hash',
-  name: 'txhash',
-  type: 'string',
-  required: true,
+  displayName: 'Decode Input',
+  name: 'decodeInput',
+  type: 'boolean',
   displayOptions: {
     show: {
       resource: ['transaction'],
-      operation: ['getTransactionReceipt'],
+      operation: ['getTransaction'],
     },
   },
-  default: '',
-  description: 'The transaction hash to get receipt for',
+  default: false,
+  description: 'Whether to decode the input into the called function and its named arguments using the verified ABI of the target contract, following proxies',
 },
 {
   displayName: 'Transaction Hash',
@@ -845,11 +1391,68 @@ export class Cronos implements INodeType {
   displayOptions: {
     show: {
       resource: ['transaction'],
-      operation: ['getTransactionStatus'],
+      operation: ['getTransactionReceipt'],
     },
   },
   default: '',
-  description: 'The transaction hash to check status for',
+  description: 'The transaction hash to get receipt for',
+},
+{
+  displayName: 'Decode Logs',
+  name: 'decodeLogs',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['transaction'],
+      operation: ['getTransactionReceipt'],
+    },
+  },
+  default: false,
+  description: 'Whether to decode each log into a named event using the verified ABI of the emitting contract, following proxies',
+},
+{
+  displayName: 'Transaction Hash',
+  name: 'txhash',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transaction'],
+      operation: ['getTransactionStatus'],
+    },
+  },
+  default: '',
+  description: 'The transaction hash to check status for',
+},
+{
+  displayName: 'Transaction Hash',
+  name: 'txhash',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transaction'],
+      operation: ['speedUpTransaction', 'cancelTransaction'],
+    },
+  },
+  default: '',
+  description: 'Hash of the pending transaction to replace. It must have been sent from the address of the credential key.',
+},
+{
+  displayName: 'Fee Bump (%)',
+  name: 'feeBump',
+  type: 'number',
+  typeOptions: {
+    minValue: 10,
+  },
+  displayOptions: {
+    show: {
+      resource: ['transaction'],
+      operation: ['speedUpTransaction', 'cancelTransaction'],
+    },
+  },
+  default: 10,
+  description: 'How much to raise the fees of the pending transaction by. Nodes only accept a replacement with fees at least 10% higher. The current network fees are used when they are higher still.',
 },
 {
   displayName: 'Raw Transaction Hex',
@@ -945,6 +1548,359 @@ export class Cronos implements INodeType {
   description: 'Hash of the method signature and encoded parameters',
   placeholder: '0x...',
 },
+{
+  displayName: 'To',
+  name: 'to',
+  type: 'string',
+  required: true,
+  displayOptions: { show: { resource: ['transaction'], operation: ['sendTransaction'] } },
+  default: '',
+  description: 'Recipient address',
+  placeholder: '0x...',
+},
+{
+  displayName: 'Value (CRO)',
+  name: 'value',
+  type: 'string',
+  required: true,
+  displayOptions: { show: { resource: ['transaction'], operation: ['sendTransaction'] } },
+  default: '0',
+  description: 'Amount of CRO to send',
+},
+{
+  displayName: 'Value (CRO)',
+  name: 'value',
+  type: 'string',
+  displayOptions: { show: { resource: ['smartContract'], operation: ['writeContract', 'deployContract'] } },
+  default: '0',
+  description: 'Amount of CRO to send with the transaction',
+},
+{
+  displayName: 'Data',
+  name: 'data',
+  type: 'string',
+  displayOptions: { show: { resource: ['transaction'], operation: ['sendTransaction'] } },
+  default: '0x',
+  description: 'Optional call data to include',
+},
+{
+  displayName: 'Contract Address',
+  name: 'contractAddress',
+  type: 'string',
+  required: true,
+  displayOptions: { show: { resource: ['smartContract'], operation: ['readContract', 'writeContract'] } },
+  default: '',
+  description: 'Address of the contract to call',
+  placeholder: '0x...',
+},
+{
+  displayName: 'ABI Source',
+  name: 'abiSource',
+  type: 'options',
+  displayOptions: { show: { resource: ['smartContract'], operation: ['readContract'] } },
+  options: [
+    {
+      name: 'Fetch From CronosScan',
+      value: 'contract',
+      description: 'Use the verified ABI of the contract',
+    },
+    {
+      name: 'Enter ABI',
+      value: 'manual',
+      description: 'Paste a JSON ABI or human-readable signatures',
+    },
+    {
+      name: 'Function Signature',
+      value: 'signature',
+      description: 'Call a single function by its signature',
+    },
+  ],
+  default: 'contract',
+},
+{
+  displayName: 'ABI',
+  name: 'abi',
+  type: 'string',
+  typeOptions: {
+    rows: 4,
+  },
+  required: true,
+  displayOptions: { show: { resource: ['smartContract'], operation: ['readContract'], abiSource: ['manual'] } },
+  default: '',
+  placeholder: 'function balanceOf(address owner) view returns (uint256)',
+  description: 'Contract ABI as JSON, or human-readable signatures (one per line)',
+},
+{
+  displayName: 'Function Name or ID',
+  name: 'functionName',
+  type: 'options',
+  typeOptions: {
+    loadOptionsMethod: 'getReadFunctions',
+    loadOptionsDependsOn: ['contractAddress', 'abiSource', 'abi'],
+  },
+  required: true,
+  displayOptions: { show: { resource: ['smartContract'], operation: ['readContract'], abiSource: ['contract', 'manual'] } },
+  default: '',
+  description: 'View or pure function to call. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+},
+{
+  displayName: 'Function Inputs',
+  name: 'functionInputs',
+  type: 'resourceMapper',
+  noDataExpression: true,
+  typeOptions: {
+    loadOptionsDependsOn: ['functionName'],
+    resourceMapper: {
+      resourceMapperMethod: 'getFunctionInputs',
+      mode: 'add',
+      fieldWords: {
+        singular: 'argument',
+        plural: 'arguments',
+      },
+      addAllFields: true,
+      multiKeyMatch: false,
+      supportAutoMap: false,
+      noFieldsError: 'This function takes no arguments',
+    },
+  },
+  displayOptions: { show: { resource: ['smartContract'], operation: ['readContract'], abiSource: ['contract', 'manual'] } },
+  default: {
+    mappingMode: 'defineBelow',
+    value: null,
+  },
+  description: 'Arguments of the selected function. Arrays and tuples take JSON.',
+},
+{
+  displayName: 'Function Signature',
+  name: 'functionSignature',
+  type: 'string',
+  required: true,
+  displayOptions: { show: { resource: ['smartContract'], operation: ['readContract'], abiSource: ['signature'] } },
+  default: '',
+  description: 'Function signature, e.g. balanceOf(address) returns (uint256). Outputs are decoded when the signature declares them.',
+  placeholder: 'balanceOf(address owner) returns (uint256 balance)',
+},
+{
+  displayName: 'Function Signature',
+  name: 'functionSignature',
+  type: 'string',
+  required: true,
+  displayOptions: { show: { resource: ['smartContract'], operation: ['writeContract'] } },
+  default: '',
+  description: 'Function signature such as transfer(address,uint256), or its 4-byte selector',
+  placeholder: 'transfer(address,uint256)',
+},
+{
+  displayName: 'Function Parameters',
+  name: 'functionParams',
+  type: 'json',
+  displayOptions: { show: { resource: ['smartContract'], operation: ['writeContract'] } },
+  default: '[]',
+  description: 'Arguments matching the signature inputs, as a JSON array or an object keyed by input name. Tuples take an array or object; {"type", "value"} lists are also accepted.',
+},
+{
+  displayName: 'Function Parameters',
+  name: 'functionParams',
+  type: 'json',
+  displayOptions: { show: { resource: ['smartContract'], operation: ['readContract'], abiSource: ['signature'] } },
+  default: '[]',
+  description: 'Arguments matching the signature inputs, as a JSON array or an object keyed by input name. Tuples take an array or object; {"type", "value"} lists are also accepted.',
+},
+{
+  displayName: 'Bytecode',
+  name: 'bytecode',
+  type: 'string',
+  required: true,
+  displayOptions: { show: { resource: ['smartContract'], operation: ['deployContract'] } },
+  default: '',
+  description: 'Compiled contract bytecode',
+  placeholder: '0x6080...',
+},
+{
+  displayName: 'Constructor Signature',
+  name: 'constructorSignature',
+  type: 'string',
+  displayOptions: { show: { resource: ['smartContract'], operation: ['deployContract'] } },
+  default: '',
+  description: 'Constructor inputs, used to encode the constructor parameters',
+  placeholder: 'constructor(string name, uint256 supply)',
+},
+{
+  displayName: 'Constructor Parameters',
+  name: 'constructorParams',
+  type: 'json',
+  displayOptions: { show: { resource: ['smartContract'], operation: ['deployContract'] } },
+  default: '[]',
+  description: 'Constructor arguments, as a JSON array or an object keyed by input name. Without a constructor signature, use a list of {"type", "value"} objects.',
+},
+{
+  displayName: 'Calls',
+  name: 'calls',
+  type: 'json',
+  required: true,
+  displayOptions: { show: { resource: ['smartContract'], operation: ['multicall'] } },
+  default: '[\n  {\n    "target": "0x...",\n    "function": "balanceOf(address owner) returns (uint256 balance)",\n    "args": ["0x..."]\n  }\n]',
+  description: 'JSON array of calls, each with a target contract, a function signature and its args. Outputs are decoded when the signature declares them. A call fails the whole request only if it sets "allowFailure": false.',
+},
+{
+  displayName: 'Block',
+  name: 'blockParameter',
+  type: 'string',
+  displayOptions: { show: { resource: ['smartContract'], operation: ['readContract', 'multicall'] } },
+  default: 'latest',
+  description: 'Block number (hex or decimal), "latest", "earliest", or "pending"',
+},
+{
+  displayName: 'Gas Limit',
+  name: 'gasLimit',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['transaction', 'smartContract'],
+      operation: ['sendTransaction', 'writeContract', 'deployContract'],
+    },
+  },
+  default: '',
+  description: 'Gas limit for the transaction. Leave empty to estimate.',
+},
+{
+  displayName: 'Transaction Type',
+  name: 'transactionType',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['transaction', 'smartContract'],
+      operation: ['sendTransaction', 'writeContract', 'deployContract'],
+    },
+  },
+  options: [
+    {
+      name: 'Legacy',
+      value: 'legacy',
+      description: 'Gas price transaction with EIP-155 replay protection',
+    },
+    {
+      name: 'EIP-1559',
+      value: 'eip1559',
+      description: 'Type 2 transaction with a max fee and priority fee',
+    },
+    {
+      name: 'EIP-2930',
+      value: 'eip2930',
+      description: 'Type 1 transaction with an access list',
+    },
+  ],
+  default: 'legacy',
+},
+{
+  displayName: 'Gas Price',
+  name: 'gasPrice',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['transaction', 'smartContract'],
+      operation: ['sendTransaction', 'writeContract', 'deployContract'],
+      transactionType: ['legacy', 'eip2930'],
+    },
+  },
+  default: '',
+  description: 'Gas price in wei. Leave empty to use the current network gas price.',
+},
+{
+  displayName: 'Max Fee Per Gas',
+  name: 'maxFeePerGas',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['transaction', 'smartContract'],
+      operation: ['sendTransaction', 'writeContract', 'deployContract'],
+      transactionType: ['eip1559'],
+    },
+  },
+  default: '',
+  description: 'Max fee per gas in wei. Leave empty to derive it from the latest base fee.',
+},
+{
+  displayName: 'Max Priority Fee Per Gas',
+  name: 'maxPriorityFeePerGas',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['transaction', 'smartContract'],
+      operation: ['sendTransaction', 'writeContract', 'deployContract'],
+      transactionType: ['eip1559'],
+    },
+  },
+  default: '',
+  description: 'Priority fee per gas in wei. Leave empty to use the median tip of recent blocks.',
+},
+{
+  displayName: 'Access List',
+  name: 'accessList',
+  type: 'json',
+  displayOptions: {
+    show: {
+      resource: ['transaction', 'smartContract'],
+      operation: ['sendTransaction', 'writeContract', 'deployContract'],
+      transactionType: ['eip1559', 'eip2930'],
+    },
+  },
+  default: '[]',
+  description: 'JSON array of {"address", "storageKeys"} objects',
+},
+{
+  displayName: 'Wait for Confirmations',
+  name: 'confirmations',
+  type: 'number',
+  typeOptions: {
+    minValue: 0,
+  },
+  displayOptions: {
+    show: {
+      resource: ['transaction', 'smartContract'],
+      operation: [
+        'sendTransaction',
+        'speedUpTransaction',
+        'cancelTransaction',
+        'writeContract',
+        'deployContract',
+      ],
+    },
+  },
+  default: 0,
+  description: 'Number of blocks, counting the one it is mined in, to wait for before returning the receipt, gas used, fee and decoded logs of the transaction. 0 returns right after broadcasting.',
+},
+{
+  displayName: 'Confirmation Timeout',
+  name: 'confirmationTimeout',
+  type: 'number',
+  typeOptions: {
+    minValue: 1,
+  },
+  displayOptions: {
+    show: {
+      resource: ['transaction', 'smartContract'],
+      operation: [
+        'sendTransaction',
+        'speedUpTransaction',
+        'cancelTransaction',
+        'writeContract',
+        'deployContract',
+      ],
+      confirmations: [{ _cnd: { gt: 0 } }],
+    },
+  },
+  default: 120,
+  description: 'Seconds to wait for the confirmations before returning the transaction as pending',
+},
+{
+  displayName: 'Nonce',
+  name: 'nonce',
+  type: 'string',
+  displayOptions: { show: { resource: ['transaction'], operation: ['sendTransaction'] } },
+  default: '',
+  description: 'Transaction nonce. Leave empty to have the node allocate sequential nonces for the sender across items and executions.',
+},
 {
   displayName: 'Contract Address',
   name: 'address',
@@ -1212,7 +2168,7 @@ export class Cronos implements INodeType {
   displayOptions: {
     show: {
       resource: ['token'],
-      operation: ['getTokenTransfers', 'getNftTransfers', 'getTokenHolders'],
+      operation: ['getTokenHolders'],
     },
   },
   default: 1,
@@ -1225,52 +2181,112 @@ export class Cronos implements INodeType {
   displayOptions: {
     show: {
       resource: ['token'],
-      operation: ['getTokenTransfers', 'getNftTransfers', 'getTokenHolders'],
+      operation: ['getTokenHolders'],
     },
   },
   default: 10,
   description: 'Number of items per page (max 10000)',
 },
 {
-  displayName: 'Start Block',
-  name: 'startBlock',
+  displayName: 'Page',
+  name: 'page',
   type: 'number',
   displayOptions: {
     show: {
       resource: ['token'],
       operation: ['getTokenTransfers', 'getNftTransfers'],
+      '@version': [1],
     },
   },
-  default: 0,
-  description: 'Starting block number',
+  default: 1,
+  description: 'Page number for pagination',
 },
 {
-  displayName: 'End Block',
-  name: 'endBlock',
-  type: 'string',
+  displayName: 'Offset',
+  name: 'offset',
+  type: 'number',
   displayOptions: {
     show: {
       resource: ['token'],
       operation: ['getTokenTransfers', 'getNftTransfers'],
+      '@version': [1],
     },
   },
-  default: 'latest',
-  description: 'Ending block number or "latest"',
+  default: 10,
+  description: 'Number of items per page (max 10000)',
 },
 {
-  displayName: 'Sort',
-  name: 'sort',
-  type: 'options',
+  displayName: 'Return All',
+  name: 'returnAll',
+  type: 'boolean',
   displayOptions: {
     show: {
       resource: ['token'],
       operation: ['getTokenTransfers', 'getNftTransfers'],
+      '@version': [2],
     },
   },
-  options: [
-    {
-      name: 'Ascending',
-      value: 'asc',
+  default: false,
+  description: 'Whether to return all transfers or only up to a given limit',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  typeOptions: {
+    minValue: 1,
+  },
+  displayOptions: {
+    show: {
+      resource: ['token'],
+      operation: ['getTokenTransfers', 'getNftTransfers'],
+      '@version': [2],
+      returnAll: [false],
+    },
+  },
+  default: 50,
+  description: 'Max number of results to return',
+},
+{
+  displayName: 'Start Block',
+  name: 'startBlock',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['token'],
+      operation: ['getTokenTransfers', 'getNftTransfers'],
+    },
+  },
+  default: 0,
+  description: 'Starting block number',
+},
+{
+  displayName: 'End Block',
+  name: 'endBlock',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['token'],
+      operation: ['getTokenTransfers', 'getNftTransfers'],
+    },
+  },
+  default: 'latest',
+  description: 'Ending block number or "latest"',
+},
+{
+  displayName: 'Sort',
+  name: 'sort',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['token'],
+      operation: ['getTokenTransfers', 'getNftTransfers'],
+    },
+  },
+  options: [
+    {
+      name: 'Ascending',
+      value: 'asc',
     },
     {
       name: 'Descending',
@@ -1529,528 +2545,1613 @@ export class Cronos implements INodeType {
   default: 'latest',
   description: 'Block number (hex format), hash, or one of: "latest", "earliest", "pending"',
 },
-    ],
-  };
-
-  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-    const items = this.getInputData();
-    const resource = this.getNodeParameter('resource', 0) as string;
-
-    switch (resource) {
-      case 'account':
-        return [await executeAccountOperations.call(this, items)];
-      case 'transaction':
-        return [await executeTransactionOperations.call(this, items)];
-      case 'smartContract':
-        return [await executeSmartContractOperations.call(this, items)];
-      case 'token':
-        return [await executeTokenOperations.call(this, items)];
-      case 'block':
-        return [await executeBlockOperations.call(this, items)];
-      case 'stats':
-        return [await executeStatsOperations.call(this, items)];
-      case 'network':
-        return [await executeNetworkOperations.call(this, items)];
-      default:
-        throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
-    }
-  }
-}
-
-// ============================================================
-// Resource Handler Functions
-// ============================================================
-
-async function executeAccountOperations(
-  this: IExecuteFunctions,
-  items: INodeExecutionData[],
-): Promise<INodeExecutionData[]> {
-  const returnData: INodeExecutionData[] = [];
-  const operation = this.getNodeParameter('operation', 0) as string;
-  const credentials = await this.getCredentials('cronosApi') as any;
-
-  for (let i = 0; i < items.length; i++) {
-    try {
-      let result: any;
-      
-      switch (operation) {
-        case 'getBalance': {
-          const address = this.getNodeParameter('address', i) as string;
-          const tag = this.getNodeParameter('tag', i) as string;
-          
-          const queryParams = new URLSearchParams({
-            module: 'account',
-            action: 'balance',
-            address: address,
-            tag: tag,
-            apikey: credentials.apiKey,
-          });
-
-          const options: any = {
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://cronos.org/explorer/api'}?${queryParams.toString()}`,
-            json: true,
-          };
-          
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-        
-        case 'getMultipleBalances': {
-          const addresses = this.getNodeParameter('addresses', i) as string;
-          const tag = this.getNodeParameter('tag', i) as string;
-          
-          const queryParams = new URLSearchParams({
-            module: 'account',
-            action: 'balancemulti',
-            address: addresses,
-            tag: tag,
-            apikey: credentials.apiKey,
-          });
-
-          const options: any = {
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://cronos.org/explorer/api'}?${queryParams.toString()}`,
-            json: true,
-          };
-          
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-        
-        case 'getTransactions': {
-          const address = this.getNodeParameter('address', i) as string;
-          const startblock = this.getNodeParameter('startblock', i) as number;
-          const endblock = this.getNodeParameter('endblock', i) as number;
-          const page = this.getNodeParameter('page', i) as number;
-          const offset = this.getNodeParameter('offset', i) as number;
-          const sort = this.getNodeParameter('sort', i) as string;
-          
-          const queryParams = new URLSearchParams({
-            module: 'account',
-            action: 'txlist',
-            address: address,
-            startblock: startblock.toString(),
-            endblock: endblock.toString(),
-            page: page.toString(),
-            offset: offset.toString(),
-            sort: sort,
-            apikey: credentials.apiKey,
-          });
-
-          const options: any = {
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://cronos.org/explorer/api'}?${queryParams.toString()}`,
-            json: true,
-          };
-          
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-        
-        case 'getInternalTransactions': {
-          const address = this.getNodeParameter('address', i) as string;
-          const startblock = this.getNodeParameter('startblock', i) as number;
-          const endblock = this.getNodeParameter('endblock', i) as number;
-          const page = this.getNodeParameter('page', i) as number;
-          const offset = this.getNodeParameter('offset', i) as number;
-          const sort = this.getNodeParameter('sort', i) as string;
-          
-          const queryParams = new URLSearchParams({
-            module: 'account',
-            action: 'txlistinternal',
-            address: address,
-            startblock: startblock.toString(),
-            endblock: endblock.toString(),
-            page: page.toString(),
-            offset: offset.toString(),
-            sort: sort,
-            apikey: credentials.apiKey,
-          });
-
-          const options: any = {
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://cronos.org/explorer/api'}?${queryParams.toString()}`,
-            json: true,
-          };
-          
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-        
-        case 'getTokenTransactions': {
-          const address = this.getNodeParameter('address', i) as string;
-          const contractaddress = this.getNodeParameter('contractaddress', i) as string;
-          const page = this.getNodeParameter('page', i) as number;
-          const offset = this.getNodeParameter('offset', i) as number;
-          const startblock = this.getNodeParameter('startblock', i) as number;
-          const endblock = this.getNodeParameter('endblock', i) as number;
-          const sort = this.getNodeParameter('sort', i) as string;
-          
-          const queryParams = new URLSearchParams({
-            module: 'account',
-            action: 'tokentx',
-            address: address,
-            page: page.toString(),
-            offset: offset.toString(),
-            startblock: startblock.toString(),
-            endblock: endblock.toString(),
-            sort: sort,
-            apikey: credentials.apiKey,
-          });
-          
-          if (contractaddress) {
-            queryParams.append('contractaddress', contractaddress);
-          }
-
-          const options: any = {
-            method: 'GET',
-            url: `${credentials.baseUrl || 'https://cronos.org/explorer/api'}?${queryParams.toString()}`,
-            json: true,
-          };
-          
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-
-        case 'getTransactionCount': {
-          const address = this.getNodeParameter('address', i) as string;
-          const block = this.getNodeParameter('block', i) as string;
-
-          const requestBody = {
-            jsonrpc: '2.0',
-            method: 'eth_getTransactionCount',
-            params: [address, block],
-            id: 1,
-          };
-
-          const options: any = {
-            method: 'POST',
-            url: credentials.baseUrl || 'https://evm.cronos.org',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestBody),
-            json: true,
-          };
-
-          if (credentials.apiKey) {
-            options.headers['Authorization'] = `Bearer ${credentials.apiKey}`;
-          }
-
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-
-        case 'getCode': {
-          const address = this.getNodeParameter('address', i) as string;
-          const block = this.getNodeParameter('block', i) as string;
-
-          const requestBody = {
-            jsonrpc: '2.0',
-            method: 'eth_getCode',
-            params: [address, block],
-            id: 1,
-          };
-
-          const options: any = {
-            method: 'POST',
-            url: credentials.baseUrl || 'https://evm.cronos.org',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestBody),
-            json: true,
-          };
-
-          if (credentials.apiKey) {
-            options.headers['Authorization'] = `Bearer ${credentials.apiKey}`;
-          }
-
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-        
-        default:
-          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
-      }
-      
-      returnData.push({ json: result, pairedItem: { item: i } });
-    } catch (error: any) {
-      if (this.continueOnFail()) {
-        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
-      } else {
-        throw new NodeApiError(this.getNode(), error);
-      }
-    }
-  }
-  
-  return returnData;
-}
-
-async function executeTransactionOperations(
-  this: IExecuteFunctions,
-  items: INodeExecutionData[],
-): Promise<INodeExecutionData[]> {
-  const returnData: INodeExecutionData[] = [];
-  const operation = this.getNodeParameter('operation', 0) as string;
-  const credentials = await this.getCredentials('cronosApi') as any;
-
-  for (let i = 0; i < items.length; i++) {
-    try {
-      let result: any;
-      const baseUrl = credentials.baseUrl || 'https://cronos.org/explorer/api';
-      
-      switch (operation) {
-        case 'getTransaction': {
-          const txhash = this.getNodeParameter('txhash', i) as string;
-          const options: any = {
-            method: 'GET',
-            url: `${baseUrl}/api`,
-            qs: {
-              module: 'proxy',
-              action: 'eth_getTransactionByHash',
-              txhash: txhash,
-              apikey: credentials.apiKey,
-            },
-            json: true,
-          };
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-        
-        case 'getTransactionReceipt': {
-          const txhash = this.getNodeParameter('txhash', i) as string;
-          const options: any = {
-            method: 'GET',
-            url: `${baseUrl}/api`,
-            qs: {
-              module: 'proxy',
-              action: 'eth_getTransactionReceipt',
-              txhash: txhash,
-              apikey: credentials.apiKey,
-            },
-            json: true,
-          };
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-        
-        case 'getTransactionStatus': {
-          const txhash = this.getNodeParameter('txhash', i) as string;
-          const options: any = {
-            method: 'GET',
-            url: `${baseUrl}/api`,
-            qs: {
-              module: 'transaction',
-              action: 'gettxreceiptstatus',
-              txhash: txhash,
-              apikey: credentials.apiKey,
-            },
-            json: true,
-          };
-          result = await this.helpers.httpRequest(options) as any;
-          break;
-        }
-
-        case 'sendRawTransaction': {
-          const hex = this.getNodeParameter('hex', i, '') as string;
-          const signedTransaction = this.getNodeParameter('signedTransaction', i, '') as string;
-          
-          // Use hex parameter if available, otherwise use signedTransaction
-          const transactionHex = hex || signedTransaction;
-          
-          let rpcId = Math.floor(Math.random() * 10000);
-
-          const baseOptions: any = {
-            method: 'POST',
-            url: credentials.baseUrl || 'https://evm.cronos.org',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            json: true,
-          };
-
-          if (credentials.apiKey) {
-            baseOptions.headers['Authorization'] = `Bearer ${credentials.apiKey}`;
-          }
-
-          baseOptions.body = {
-            jsonrpc: '2.0',
-            method: 'eth_sendRawTransaction',
-            params: [transactionHex],
-            id: rpcId,
-          };
-
-          result = await this.helpers.httpRequest(baseOptions) as any;
-          break;
-        }
-
-        case 'estimateGas': {
-          const fromAddress = this.getNodeParameter('fromAddress', i) as string;
-          const toAddress = this.getNodeParameter('toAddress', i, '') as string;
-          const value = this.getNodeParameter('value', i, '0x0') as string;
-          const gas = this.getNodeParameter('gas', i, '') as string;
-          const gasPrice = this.getNodeParameter('gasPrice', i, '') as string;
-          const data = this.getNodeParameter('data', i, '') as string;
-
-          const transactionObject: any = {
-            from: fromAddress,
-          };
-
-          if (toAddress) transactionObject.to = toAddress;
-          if (value) transactionObject.value = value;
-          if (gas) transactionObject.gas = gas;
-          if (gasPrice) transactionObject.gasPrice = gasPrice;
-          if (data) transactionObject.data = data;
-          
-          let rpcId = Math.floor(Math.random() * 10000);
-
-          const baseOptions: any = {
-            method: 'POST',
-            url: credentials.baseUrl || 'https://evm.cronos.org',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            json: true,
-          };
-
-          if (credentials.apiKey) {
-            baseOptions.headers['Authorization'] = `Bearer ${credentials.apiKey}`;
-          }
-
-          baseOptions.body = {
-            jsonrpc: '2.0',
-            method: 'eth_estimateGas',
-            params: [transactionObject],
-            id: rpcId,
-          };
-
-          result = await this.helpers.httpRequest(baseOptions) as any;
-          break;
-        }
-
-        case 'getGasPrice': {
-          let rpcId = Math.floor(Math.random() * 10000);
-
-          const baseOptions: any = {
-            method: 'POST',
-            url: credentials.baseUrl || 'https://evm.cronos.org',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            json: true,
-          };
-
-          if (credentials.apiKey) {
-            baseOptions.headers['Authorization'] = `Bearer ${credentials.apiKey}`;
-          }
-
-          baseOptions.body = {
-            jsonrpc: '2.0',
-            method: 'eth_gasPrice',
-            params: [],
-            id: rpcId,
-          };
-
-          result = await this.helpers.httpRequest(baseOptions) as any;
-          break;
-        }
-        
-        default:
-          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
-      }
-
-      if (result && result.status === '0' && result.message) {
-        throw new NodeApiError(this.getNode(), { message: result.message, result });
-      }
-
-      if (result && result.error) {
-        throw new NodeOperationError(
-          this.getNode(),
-          `Cronos RPC Error: ${result.error.message}`,
-          { itemIndex: i },
-        );
-      }
-
-      returnData.push({ json: result, pairedItem: { item: i } });
-    } catch (error: any) {
-      if (this.continueOnFail()) {
-        returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
-      } else {
-        throw error;
-      }
-    }
-  }
-  return returnData;
-}
-
-async function executeSmartContractOperations(
-  this: IExecuteFunctions,
-  items: INodeExecutionData[],
-): Promise<INodeExecutionData[]> {
-  const returnData: INodeExecutionData[] = [];
-  const operation = this.getNodeParameter('operation', 0) as string;
-  const credentials = await this.getCredentials('cronosApi') as any;
-
-  for (let i = 0; i < items.length; i++) {
-    try {
-      let result: any;
-
-      switch (operation) {
-        case 'getContractAbi': {
-          const address = this.getNodeParameter('address', i) as string;
-          
-          const options: any = {
-            method: 'GET',
-            url: `${credentials.baseUrl}/api`,
-            qs: {
-              module: 'contract',
-              action: 'getabi',
-              address: address,
-              apikey: credentials.apiKey,
-            },
-            json: true,
-          };
-
-          result = await this.helpers.httpRequest(options) as any;
-          
-          if (result.status !== '1') {
-            throw new NodeApiError(this.getNode(), result, {
-              message: result.message || 'Failed to get contract ABI',
-              description: `Error retrieving ABI for contract ${address}`,
-            });
-          }
-          break;
-        }
-
-        case 'getSourceCode': {
-          const address = this.getNodeParameter('address', i) as string;
-          
-          const options: any = {
-            method: 'GET',
-            url: `${credentials.baseUrl}/api`,
-            qs: {
-              module: 'contract',
-              action: 'getsourcecode',
-              address: address,
-              apikey: credentials.apiKey,
-            },
-            json: true,
-          };
-
-          result = await this.helpers.httpRequest(options) as any;
-          
-          if (result.status !== '1') {
-            throw new NodeApiError(this.getNode(), result, {
-              message: result.message || 'Failed to get source code',
-              description: `Error retrieving source code for contract ${address}`,
-            });
-          }
-          break;
-        }
-
-        case 'verifySourceCode': {
-          const contractaddress = this.getNodeParameter('contractaddress', i) as string;
-          const sourceCode = this.getNodeParameter('sourceCode', i) as string;
-          const contractname =
\ No newline at end of file
+{
+  displayName: 'Contract Address',
+  name: 'contractAddress',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+    },
+  },
+  default: '',
+  placeholder: '0x...',
+  description: 'The NFT collection contract address',
+},
+{
+  displayName: 'Token ID',
+  name: 'tokenId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTMetadata', 'getNFTOwners'],
+    },
+  },
+  default: '',
+  description: 'The ID of the token',
+},
+{
+  displayName: 'Token ID',
+  name: 'tokenId',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTTransfers'],
+    },
+  },
+  default: '',
+  description: 'Only return transfers of this token (leave empty for the whole collection)',
+},
+{
+  displayName: 'Start Block',
+  name: 'startBlock',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTTransfers'],
+    },
+  },
+  default: 0,
+  description: 'Starting block number (0 = genesis block)',
+},
+{
+  displayName: 'End Block',
+  name: 'endBlock',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTTransfers'],
+    },
+  },
+  default: 99999999,
+  description: 'Ending block number (99999999 = latest block)',
+},
+{
+  displayName: 'Page',
+  name: 'page',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTTransfers'],
+      '@version': [1],
+    },
+  },
+  default: 1,
+  description: 'Page number (1-based)',
+},
+{
+  displayName: 'Offset',
+  name: 'offset',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTTransfers'],
+      '@version': [1],
+    },
+  },
+  default: 100,
+  description: 'Number of transfers displayed per page (max 10000)',
+},
+{
+  displayName: 'Return All',
+  name: 'returnAll',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTTransfers'],
+      '@version': [2],
+    },
+  },
+  default: false,
+  description: 'Whether to return all transfers or only up to a given limit',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  typeOptions: {
+    minValue: 1,
+  },
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTTransfers'],
+      '@version': [2],
+      returnAll: [false],
+    },
+  },
+  default: 50,
+  description: 'Max number of results to return',
+},
+{
+  displayName: 'Sort',
+  name: 'sort',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['nft'],
+      operation: ['getNFTTransfers'],
+    },
+  },
+  options: [
+    {
+      name: 'Ascending',
+      value: 'asc',
+    },
+    {
+      name: 'Descending',
+      value: 'desc',
+    },
+  ],
+  default: 'desc',
+  description: 'Sort order',
+},
+{
+  displayName: 'Protocol',
+  name: 'protocol',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['defi'],
+      operation: ['getProtocolTVL', 'getYieldFarms'],
+    },
+  },
+  options: [
+    {
+      name: 'VVS Finance',
+      value: 'vvs',
+    },
+  ],
+  default: 'vvs',
+  description: 'The DeFi protocol to query',
+},
+{
+  displayName: 'Pool Address',
+  name: 'poolAddress',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['defi'],
+      operation: ['getPoolInfo'],
+    },
+  },
+  default: '',
+  placeholder: '0x...',
+  description: 'The liquidity pool (pair) contract address',
+},
+{
+  displayName: 'DEX',
+  name: 'dex',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['defi'],
+      operation: ['getDEXStats'],
+    },
+  },
+  options: [
+    {
+      name: 'VVS Finance',
+      value: 'vvs',
+    },
+  ],
+  default: 'vvs',
+  description: 'The decentralized exchange to query',
+},
+{
+  displayName: 'From Block',
+  name: 'fromBlock',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['event'],
+      operation: ['getLogs'],
+    },
+  },
+  default: 'latest',
+  description: 'Starting block number, "latest", "earliest" or "pending"',
+},
+{
+  displayName: 'To Block',
+  name: 'toBlock',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['event'],
+      operation: ['getLogs', 'filterEvents'],
+    },
+  },
+  default: 'latest',
+  description: 'Ending block number, "latest", "earliest" or "pending"',
+},
+{
+  displayName: 'Event Type',
+  name: 'eventType',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['event'],
+      operation: ['filterEvents'],
+    },
+  },
+  options: [
+    {
+      name: 'Transfer',
+      value: 'transfer',
+    },
+    {
+      name: 'Approval',
+      value: 'approval',
+    },
+    {
+      name: 'Transfer Single (ERC-1155)',
+      value: 'transferSingle',
+    },
+    {
+      name: 'Transfer Batch (ERC-1155)',
+      value: 'transferBatch',
+    },
+    {
+      name: 'Custom',
+      value: 'custom',
+    },
+  ],
+  default: 'transfer',
+  description: 'The event to filter logs for',
+},
+{
+  displayName: 'Event Signature',
+  name: 'eventSignature',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['event'],
+      operation: ['filterEvents'],
+      eventType: ['custom'],
+    },
+  },
+  default: '',
+  placeholder: 'Swap(address,uint256,uint256,uint256,uint256,address)',
+  description: 'Event signature or its 32-byte topic hash',
+},
+{
+  displayName: 'From Block',
+  name: 'fromBlock',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['event'],
+      operation: ['filterEvents'],
+    },
+  },
+  default: 0,
+  description: 'Starting block number',
+},
+{
+  displayName: 'Address',
+  name: 'address',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['event'],
+    },
+  },
+  default: '',
+  placeholder: '0x...',
+  description: 'Only return logs emitted by this contract (leave empty for all)',
+},
+{
+  displayName: 'Topics',
+  name: 'topics',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['event'],
+      operation: ['getLogs', 'subscribeToLogs'],
+    },
+  },
+  default: '',
+  placeholder: '["0xddf252ad..."]',
+  description: 'A single topic or a JSON array of topics. Topics are order-dependent.',
+},
+{
+  displayName: 'Value',
+  name: 'value',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['convertUnits'],
+    },
+  },
+  default: '',
+  description: 'The amount to convert',
+},
+{
+  displayName: 'From Unit',
+  name: 'fromUnit',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['convertUnits'],
+    },
+  },
+  options: [
+    {
+      name: 'Wei',
+      value: 'wei',
+    },
+    {
+      name: 'Gwei',
+      value: 'gwei',
+    },
+    {
+      name: 'CRO',
+      value: 'cro',
+    },
+    {
+      name: 'Custom Decimals',
+      value: 'custom',
+    },
+  ],
+  default: 'wei',
+  description: 'The unit of the input value',
+},
+{
+  displayName: 'To Unit',
+  name: 'toUnit',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['convertUnits'],
+    },
+  },
+  options: [
+    {
+      name: 'Wei',
+      value: 'wei',
+    },
+    {
+      name: 'Gwei',
+      value: 'gwei',
+    },
+    {
+      name: 'CRO',
+      value: 'cro',
+    },
+    {
+      name: 'Custom Decimals',
+      value: 'custom',
+    },
+  ],
+  default: 'cro',
+  description: 'The unit to convert to',
+},
+{
+  displayName: 'Decimals',
+  name: 'decimals',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['convertUnits'],
+    },
+  },
+  default: 18,
+  description: 'Number of decimals used by the "Custom Decimals" unit',
+},
+{
+  displayName: 'Function Signature',
+  name: 'functionSignature',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['encodeFunction'],
+    },
+  },
+  default: '',
+  placeholder: 'transfer(address,uint256)',
+  description: 'Function signature such as transfer(address,uint256), or its 4-byte selector',
+},
+{
+  displayName: 'Parameters',
+  name: 'parameters',
+  type: 'json',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['encodeFunction'],
+    },
+  },
+  default: '[]',
+  description: 'Arguments matching the signature inputs, as a JSON array or an object keyed by input name. Tuples take an array or object; {"type", "value"} lists are also accepted.',
+},
+{
+  displayName: 'Decode As',
+  name: 'decodeMode',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeData'],
+    },
+  },
+  options: [
+    {
+      name: 'Parameters',
+      value: 'parameters',
+      description: 'ABI-encoded values of the given types',
+    },
+    {
+      name: 'Function Call Data',
+      value: 'calldata',
+      description: 'Transaction input: a function selector followed by its arguments',
+    },
+    {
+      name: 'Function Result',
+      value: 'result',
+      description: 'Data returned by a contract call',
+    },
+    {
+      name: 'Event Log',
+      value: 'log',
+      description: 'Topics and data of an event log',
+    },
+  ],
+  default: 'parameters',
+},
+{
+  displayName: 'Data',
+  name: 'data',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeData'],
+    },
+  },
+  default: '',
+  placeholder: '0x...',
+  description: 'The hex data to decode',
+},
+{
+  displayName: 'Types',
+  name: 'types',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeData'],
+      decodeMode: ['parameters'],
+    },
+  },
+  default: '',
+  placeholder: 'address,uint256',
+  description: 'Comma-separated list or JSON array of the encoded types, e.g. string,(address to,uint256 amount)[]',
+},
+{
+  displayName: 'Topics',
+  name: 'topics',
+  type: 'json',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeData'],
+      decodeMode: ['log'],
+    },
+  },
+  default: '[]',
+  description: 'JSON array of the log topics, starting with the event topic',
+},
+{
+  displayName: 'ABI Source',
+  name: 'abiSource',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeData'],
+      decodeMode: ['calldata', 'result', 'log'],
+    },
+  },
+  options: [
+    {
+      name: 'Enter ABI',
+      value: 'manual',
+      description: 'Paste a JSON ABI or human-readable signatures',
+    },
+    {
+      name: 'Fetch From CronosScan',
+      value: 'contract',
+      description: 'Use the verified ABI of a contract',
+    },
+  ],
+  default: 'manual',
+},
+{
+  displayName: 'ABI',
+  name: 'abi',
+  type: 'string',
+  typeOptions: {
+    rows: 4,
+  },
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeData'],
+      decodeMode: ['calldata', 'result', 'log'],
+      abiSource: ['manual'],
+    },
+  },
+  default: '',
+  placeholder: 'function balanceOf(address owner) view returns (uint256)',
+  description: 'Contract ABI as JSON, or human-readable signatures (one per line)',
+},
+{
+  displayName: 'Contract Address',
+  name: 'contractAddress',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeData'],
+      decodeMode: ['calldata', 'result', 'log'],
+      abiSource: ['contract'],
+    },
+  },
+  default: '',
+  placeholder: '0x...',
+  description: 'Verified contract whose ABI is used for decoding',
+},
+{
+  displayName: 'Function',
+  name: 'functionName',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeData'],
+      decodeMode: ['result'],
+    },
+  },
+  default: '',
+  placeholder: 'balanceOf',
+  description: 'Name or signature of the function that returned the data. Can be left empty when the ABI has a single function.',
+},
+{
+  displayName: 'Raw Transaction',
+  name: 'rawTransaction',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['utility'],
+      operation: ['decodeRawTransaction'],
+    },
+  },
+  default: '',
+  placeholder: '0x02f8...',
+  description: 'Signed legacy, EIP-2930 or EIP-1559 transaction as passed to eth_sendRawTransaction',
+},
+{
+  displayName: 'Signed Data',
+  name: 'signedData',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['signature'],
+      operation: ['verifySignature'],
+    },
+  },
+  options: [
+    {
+      name: 'Message',
+      value: 'message',
+      description: 'A message signed with personal_sign (EIP-191)',
+    },
+    {
+      name: 'Typed Data',
+      value: 'typedData',
+      description: 'Typed structured data signed with eth_signTypedData_v4 (EIP-712)',
+    },
+  ],
+  default: 'message',
+  description: 'What the signature was made over',
+},
+{
+  displayName: 'Message',
+  name: 'message',
+  type: 'string',
+  typeOptions: { rows: 4 },
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signature'],
+      operation: ['signMessage'],
+    },
+  },
+  default: '',
+  description: 'Text to sign. It is signed as UTF-8 with the EIP-191 prefix, like a wallet would.',
+},
+{
+  displayName: 'Message',
+  name: 'message',
+  type: 'string',
+  typeOptions: { rows: 4 },
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signature'],
+      operation: ['verifySignature'],
+      signedData: ['message'],
+    },
+  },
+  default: '',
+  description: 'The exact text that was signed',
+},
+{
+  displayName: 'Typed Data',
+  name: 'typedData',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signature'],
+      operation: ['signTypedData'],
+    },
+  },
+  default: '{\n  "types": {},\n  "primaryType": "",\n  "domain": {},\n  "message": {}\n}',
+  description: 'EIP-712 typed data with types, primaryType, domain and message, as passed to eth_signTypedData_v4. EIP712Domain may be left out of types.',
+},
+{
+  displayName: 'Typed Data',
+  name: 'typedData',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signature'],
+      operation: ['verifySignature'],
+      signedData: ['typedData'],
+    },
+  },
+  default: '{\n  "types": {},\n  "primaryType": "",\n  "domain": {},\n  "message": {}\n}',
+  description: 'The exact typed data that was signed',
+},
+{
+  displayName: 'Signature',
+  name: 'signature',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signature'],
+      operation: ['verifySignature'],
+    },
+  },
+  default: '',
+  placeholder: '0x...',
+  description: '65-byte signature as returned by a wallet, or a 64-byte EIP-2098 compact signature',
+},
+{
+  displayName: 'Expected Address',
+  name: 'expectedAddress',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signature'],
+      operation: ['verifySignature'],
+    },
+  },
+  default: '',
+  placeholder: '0x...',
+  description: 'Address the signature should come from',
+},
+
+// Version 1 nodes returned the raw payload before Simplify existed, so that
+// stays their default
+{
+  displayName: 'Simplify',
+  name: 'simplify',
+  type: 'boolean',
+  displayOptions: {
+    show: { '@version': [1] },
+    hide: COMPUTED_OPERATIONS,
+  },
+  default: false,
+  description: 'Whether to return a simplified version of the response instead of the raw data',
+},
+{
+  displayName: 'Simplify',
+  name: 'simplify',
+  type: 'boolean',
+  displayOptions: {
+    show: { '@version': [2] },
+    hide: { ...COMPUTED_OPERATIONS, operation: [...COMPUTED_OPERATIONS.operation, 'getTokenInfo'] },
+  },
+  default: true,
+  description: 'Whether to return a simplified version of the response instead of the raw data',
+},
+// Version 1 nodes returned one item holding all records before Output Mode
+// existed, so that stays their default
+{
+  displayName: 'Output Mode',
+  name: 'outputMode',
+  type: 'options',
+  options: OUTPUT_MODES,
+  displayOptions: {
+    show: { ...LIST_OPERATIONS, '@version': [1] },
+  },
+  default: 'summary',
+},
+{
+  displayName: 'Output Mode',
+  name: 'outputMode',
+  type: 'options',
+  options: OUTPUT_MODES,
+  displayOptions: {
+    show: { ...LIST_OPERATIONS, '@version': [2] },
+  },
+  default: 'records',
+},
+
+// Options shared by all operations
+{
+  displayName: 'Options',
+  name: 'options',
+  type: 'collection',
+  placeholder: 'Add Option',
+  default: {},
+  options: [
+    {
+      displayName: 'RPC Batch Size',
+      name: 'rpcBatchSize',
+      type: 'number',
+      typeOptions: {
+        minValue: 1,
+      },
+      default: 100,
+      description: 'Process this many input items at once and send their JSON-RPC calls together as batch requests of up to this size. Leave unset to send one request per call.',
+    },
+  ],
+},
+    ],
+  };
+
+  methods = {
+    credentialTest: {
+      cronosApiTest: testCronosCredentials,
+    },
+    loadOptions: {
+      getReadFunctions,
+    },
+    resourceMapping: {
+      getFunctionInputs,
+    },
+  };
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const resource = this.getNodeParameter('resource', 0) as string;
+    const operation = this.getNodeParameter('operation', 0) as string;
+
+    const actionOperations: ActionOperations = {
+      ...ACTION_OPERATIONS[resource],
+      ...(this.getNode().typeVersion >= 2 ? VERSION_2_ACTION_OPERATIONS[resource] : {}),
+    };
+    if (actionOperations[operation]) {
+      return [await executeActionOperations.call(this, items, actionOperations)];
+    }
+
+    switch (resource) {
+      case 'account':
+        return [await executeAccountOperations.call(this, items)];
+      case 'transaction':
+        return [await executeTransactionOperations.call(this, items)];
+      case 'smartContract':
+        return [await executeSmartContractOperations.call(this, items)];
+      case 'token':
+        return [await executeTokenOperations.call(this, items)];
+      case 'block':
+        return [await executeBlockOperations.call(this, items)];
+      case 'stats':
+        return [await executeStatsOperations.call(this, items)];
+      case 'network':
+        return [await executeNetworkOperations.call(this, items)];
+      case 'nft':
+        return [await executeActionOperations.call(this, items, nftsOperations)];
+      case 'defi':
+        return [await executeActionOperations.call(this, items, defiOperations)];
+      case 'event':
+        return [await executeActionOperations.call(this, items, eventsOperations)];
+      case 'signature':
+        return [await executeActionOperations.call(this, items, signatureOperations)];
+      case 'utility':
+        return [await executeActionOperations.call(this, items, utilityOperations)];
+      default:
+        throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
+    }
+  }
+}
+
+// ============================================================
+// Item Processing
+// ============================================================
+
+type ItemOutcome = { results: INodeExecutionData[] } | { error: unknown };
+
+// Plain errors come from the helpers in ./utils, which raise them while parsing
+// or encoding parameter values; anything else that is not an n8n error is
+// unexpected
+function itemError(
+  node: INode,
+  error: unknown,
+  itemIndex: number,
+): NodeApiError | NodeOperationError {
+  if (error instanceof NodeApiError || error instanceof NodeOperationError) {
+    return error;
+  }
+  let nodeError: NodeOperationError;
+  if (!(error instanceof Error)) {
+    nodeError = new NodeOperationError(node, String(error));
+  } else if (Object.getPrototypeOf(error) === Error.prototype) {
+    nodeError = new InvalidInputError(node, error);
+  } else {
+    nodeError = new NodeOperationError(node, error);
+  }
+  nodeError.context.itemIndex = itemIndex;
+  return nodeError;
+}
+
+// Turns every record in `field` of the results into an item of its own
+function splitRecords(results: INodeExecutionData[], field: string): INodeExecutionData[] {
+  return results.flatMap((result) => {
+    const records = result.json[field];
+    if (!Array.isArray(records)) {
+      return [result];
+    }
+    return records.map((record) => ({
+      json: typeof record === 'object' && record !== null ? record : { value: record },
+    }));
+  });
+}
+
+// Runs `processItem` for every input item and pairs its output with the item,
+// split into one item per record for list operations. Items are processed one
+// at a time unless an RPC Batch Size is set; then that many items are processed
+// at once and their JSON-RPC calls are coalesced into batch requests.
+async function processItems(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+  processItem: (itemIndex: number) => Promise<INodeExecutionData[]>,
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const resource = this.getNodeParameter('resource', 0) as string;
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const recordField = LIST_RECORDS[resource]?.[operation];
+  const options = this.getNodeParameter('options', 0, {}) as IDataObject;
+  const batchSize = Math.max(1, Math.floor((options.rpcBatchSize as number) || 1));
+  const batching = options.rpcBatchSize !== undefined;
+
+  if (batching) {
+    enableRpcBatching.call(this, batchSize);
+  }
+
+  try {
+    for (let start = 0; start < items.length; start += batchSize) {
+      const end = Math.min(start + batchSize, items.length);
+      const pending: Array<Promise<ItemOutcome>> = [];
+      for (let i = start; i < end; i++) {
+        pending.push(
+          processItem(i).then(
+            (results) => ({ results }),
+            (error) => ({ error }),
+          ),
+        );
+      }
+
+      const outcomes = await Promise.all(pending);
+      for (let i = start; i < end; i++) {
+        const outcome = outcomes[i - start];
+        if ('results' in outcome) {
+          const results =
+            recordField && this.getNodeParameter('outputMode', i, 'records') === 'records'
+              ? splitRecords(outcome.results, isRawOutput.call(this, i) ? 'result' : recordField)
+              : outcome.results;
+          for (const result of results) {
+            returnData.push({ ...result, pairedItem: { item: i } });
+          }
+        } else if (this.continueOnFail()) {
+          const error = itemError(this.getNode(), outcome.error, i);
+          returnData.push({ json: errorOutput(error), pairedItem: { item: i } });
+        } else {
+          throw itemError(this.getNode(), outcome.error, i);
+        }
+      }
+    }
+  } finally {
+    if (batching) {
+      disableRpcBatching.call(this);
+    }
+  }
+
+  return returnData;
+}
+
+// Output of an inline operation: `result` holds the RPC or explorer payload
+type OperationOutput = { result?: unknown } & Record<string, unknown>;
+
+// The JSON of an inline operation's item, with `result` normalized unless
+// Simplify is turned off
+function simplifyOutput(
+  this: IExecuteFunctions,
+  itemIndex: number,
+  output: OperationOutput,
+): IDataObject {
+  if (isRawOutput.call(this, itemIndex)) {
+    return output as IDataObject;
+  }
+  const resource = this.getNodeParameter('resource', 0) as string;
+  const operation = this.getNodeParameter('operation', 0) as string;
+  const kind = SCALAR_KINDS[resource]?.[operation];
+  return { ...output, result: simplifyPayload(output.result, kind) } as IDataObject;
+}
+
+// Whether Simplify is turned off for an item, so payloads are passed through
+function isRawOutput(this: IExecuteFunctions, itemIndex: number): boolean {
+  return this.getNodeParameter('simplify', itemIndex, true) === false;
+}
+
+// Output of an inline operation that makes one explorer call: the untouched
+// response with its `status` and `message` in raw output, else `{ result }`
+async function scanOutput(
+  this: IExecuteFunctions,
+  itemIndex: number,
+  module: string,
+  action: string,
+  params: IDataObject = {},
+  method: IHttpRequestMethods = 'GET',
+): Promise<OperationOutput> {
+  const response = await cronosScanResponse.call(this, module, action, params, method);
+  return isRawOutput.call(this, itemIndex) ? { ...response } : { result: response.result };
+}
+
+// Output of an inline operation that makes one JSON-RPC call: the untouched
+// response object in raw output, else `{ result }`
+async function rpcOutput(
+  this: IExecuteFunctions,
+  itemIndex: number,
+  method: string,
+  params: unknown[],
+): Promise<OperationOutput> {
+  const response = await jsonRpcResponse.call(this, method, params);
+  return isRawOutput.call(this, itemIndex) ? { ...response } : { result: response.result };
+}
+
+// Output of an explorer list operation. Version 1 nodes fetch the one page set
+// by Page and Offset; later versions page through the records up to Limit, or
+// all of them with Return All, and put them in `result`.
+async function listOutput(
+  this: IExecuteFunctions,
+  itemIndex: number,
+  action: string,
+  params: IDataObject,
+): Promise<OperationOutput> {
+  if (this.getNode().typeVersion < 2) {
+    return scanOutput.call(this, itemIndex, 'account', action, {
+      ...params,
+      page: this.getNodeParameter('page', itemIndex) as number,
+      offset: this.getNodeParameter('offset', itemIndex) as number,
+    });
+  }
+  const limit = this.getNodeParameter('returnAll', itemIndex) as boolean
+    ? undefined
+    : (this.getNodeParameter('limit', itemIndex) as number);
+  return { result: await cronosScanRequestAll.call(this, 'account', action, params, { limit }) };
+}
+
+// ============================================================
+// Resource Handler Functions
+// ============================================================
+//
+// Every handler goes through ./transport so that endpoint selection, API key
+// placement, error mapping and the configured network are shared. Explorer
+// and JSON-RPC payloads are returned as `{ result }`, or as the whole response
+// when Simplify is off.
+
+async function executeAccountOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  return processItems.call(this, items, async (i) => {
+    let result: OperationOutput;
+
+    switch (operation) {
+      case 'getBalance': {
+        const address = this.getNodeParameter('address', i) as string;
+        const tag = this.getNodeParameter('tag', i) as string;
+
+        result = await scanOutput.call(this, i, 'account', 'balance', { address, tag });
+        break;
+      }
+
+      case 'getMultipleBalances': {
+        const addresses = (this.getNodeParameter('addresses', i) as string)
+          .split(',')
+          .map((address) => address.trim())
+          .filter((address) => address);
+        const tag = this.getNodeParameter('tag', i) as string;
+
+        // Version 1 nodes read the balances from the explorer
+        if (this.getNode().typeVersion < 2) {
+          result = await scanOutput.call(this, i, 'account', 'balancemulti', {
+            address: addresses.join(','),
+            tag,
+          });
+          break;
+        }
+
+        const balances = await batchJsonRpcRequest.call(
+          this,
+          addresses.map((address) => ({ method: 'eth_getBalance', params: [address, tag] })),
+        );
+
+        result = {
+          result: addresses.map((account, index) => ({
+            account,
+            balance: balances[index],
+          })),
+        };
+        break;
+      }
+
+      case 'getTransactions':
+      case 'getInternalTransactions': {
+        const address = this.getNodeParameter('address', i) as string;
+        const startblock = this.getNodeParameter('startblock', i) as number;
+        const endblock = this.getNodeParameter('endblock', i) as number;
+        const sort = this.getNodeParameter('sort', i) as string;
+
+        const action = operation === 'getTransactions' ? 'txlist' : 'txlistinternal';
+        result = await listOutput.call(this, i, action, { address, startblock, endblock, sort });
+        break;
+      }
+
+      case 'getTokenTransactions': {
+        const address = this.getNodeParameter('address', i) as string;
+        const contractaddress = this.getNodeParameter('contractaddress', i) as string;
+        const startblock = this.getNodeParameter('startblock', i) as number;
+        const endblock = this.getNodeParameter('endblock', i) as number;
+        const sort = this.getNodeParameter('sort', i) as string;
+
+        const params: IDataObject = { address, startblock, endblock, sort };
+        if (contractaddress) {
+          params.contractaddress = contractaddress;
+        }
+
+        result = await listOutput.call(this, i, 'tokentx', params);
+        break;
+      }
+
+      case 'getTransactionCount': {
+        const address = this.getNodeParameter('address', i) as string;
+        const block = this.getNodeParameter('block', i) as string;
+
+        result = await rpcOutput.call(this, i, 'eth_getTransactionCount', [
+          address,
+          formatBlockNumber(block),
+        ]);
+        break;
+      }
+
+      case 'getCode': {
+        const address = this.getNodeParameter('address', i) as string;
+        const block = this.getNodeParameter('block', i) as string;
+
+        result = await rpcOutput.call(this, i, 'eth_getCode', [address, formatBlockNumber(block)]);
+        break;
+      }
+
+      default:
+        throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+    }
+
+    return [{ json: simplifyOutput.call(this, i, result) }];
+  });
+}
+
+async function executeTransactionOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', 0) as string;
+  // Contract ABIs fetched for decoding, shared across items
+  const abiCache = new Map<string, Promise<AbiFragment[]>>();
+
+  return processItems.call(this, items, async (i) => {
+    let result: OperationOutput;
+
+    switch (operation) {
+      case 'getTransaction': {
+        const txhash = this.getNodeParameter('txhash', i) as string;
+        result = await rpcOutput.call(this, i, 'eth_getTransactionByHash', [txhash]);
+        const tx = result.result as IDataObject;
+        if (tx && this.getNodeParameter('decodeInput', i, false)) {
+          Object.assign(result, await decodeTransactionInput.call(this, tx, abiCache));
+        }
+        break;
+      }
+
+      case 'getTransactionReceipt': {
+        const txhash = this.getNodeParameter('txhash', i) as string;
+        result = await rpcOutput.call(this, i, 'eth_getTransactionReceipt', [txhash]);
+        const receipt = result.result as IDataObject;
+        if (receipt && this.getNodeParameter('decodeLogs', i, false)) {
+          result.decodedLogs = await decodeReceiptLogs.call(this, receipt, abiCache);
+        }
+        break;
+      }
+
+      case 'getTransactionStatus': {
+        const txhash = this.getNodeParameter('txhash', i) as string;
+        result = await scanOutput.call(this, i, 'transaction', 'gettxreceiptstatus', { txhash });
+        break;
+      }
+
+      case 'sendRawTransaction': {
+        const hex = this.getNodeParameter('hex', i, '') as string;
+        const signedTransaction = this.getNodeParameter('signedTransaction', i, '') as string;
+
+        // Use hex parameter if available, otherwise use signedTransaction
+        const transactionHex = hex || signedTransaction;
+
+        result = await rpcOutput.call(this, i, 'eth_sendRawTransaction', [transactionHex]);
+        break;
+      }
+
+      case 'estimateGas': {
+        const fromAddress = this.getNodeParameter('fromAddress', i) as string;
+        const toAddress = this.getNodeParameter('toAddress', i, '') as string;
+        const value = this.getNodeParameter('value', i, '0x0') as string;
+        const gas = this.getNodeParameter('gas', i, '') as string;
+        const gasPrice = this.getNodeParameter('gasPrice', i, '') as string;
+        const data = this.getNodeParameter('data', i, '') as string;
+
+        const transactionObject: IDataObject = {
+          from: fromAddress,
+        };
+
+        if (toAddress) transactionObject.to = toAddress;
+        if (value) transactionObject.value = value;
+        if (gas) transactionObject.gas = gas;
+        if (gasPrice) transactionObject.gasPrice = gasPrice;
+        if (data) transactionObject.data = data;
+
+        result = await rpcOutput.call(this, i, 'eth_estimateGas', [transactionObject]);
+        break;
+      }
+
+      case 'getGasPrice': {
+        result = await rpcOutput.call(this, i, 'eth_gasPrice', []);
+        break;
+      }
+
+      default:
+        throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+    }
+
+    return [{ json: simplifyOutput.call(this, i, result) }];
+  });
+}
+
+async function executeSmartContractOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  return processItems.call(this, items, async (i) => {
+    let result: OperationOutput;
+
+    switch (operation) {
+      case 'getContractAbi': {
+        const address = this.getNodeParameter('address', i) as string;
+        result = await scanOutput.call(this, i, 'contract', 'getabi', { address });
+        break;
+      }
+
+      case 'getSourceCode': {
+        const address = this.getNodeParameter('address', i) as string;
+        result = await scanOutput.call(this, i, 'contract', 'getsourcecode', { address });
+        break;
+      }
+
+      case 'verifySourceCode': {
+        const contractaddress = this.getNodeParameter('contractaddress', i) as string;
+        const sourceCode = this.getNodeParameter('sourceCode', i) as string;
+        const contractname = this.getNodeParameter('contractname', i) as string;
+        const compilerversion = this.getNodeParameter('compilerversion', i) as string;
+
+        result = await scanOutput.call(
+          this,
+          i,
+          'contract',
+          'verifysourcecode',
+          {
+            contractaddress,
+            sourceCode,
+            codeformat: 'solidity-single-file',
+            contractname,
+            compilerversion,
+          },
+          'POST',
+        );
+        break;
+      }
+
+      case 'checkVerificationStatus': {
+        const guid = this.getNodeParameter('guid', i) as string;
+        result = await scanOutput.call(this, i, 'contract', 'checkverifystatus', { guid });
+        break;
+      }
+
+      case 'callContract': {
+        const to = this.getNodeParameter('to', i) as string;
+        const data = this.getNodeParameter('data', i) as string;
+        const tag = this.getNodeParameter('tag', i) as string;
+
+        result = await rpcOutput.call(this, i, 'eth_call', [{ to, data }, tag]);
+        break;
+      }
+
+      case 'call': {
+        const transaction = this.getNodeParameter('transaction', i) as IDataObject | string;
+        const block = this.getNodeParameter('block', i, 'latest') as string;
+        const transactionObject =
+          typeof transaction === 'string' ? JSON.parse(transaction) : transaction;
+
+        result = await rpcOutput.call(this, i, 'eth_call', [
+          transactionObject,
+          formatBlockNumber(block),
+        ]);
+        break;
+      }
+
+      case 'getLogs': {
+        const fromBlock = this.getNodeParameter('fromBlock', i) as string;
+        const toBlock = this.getNodeParameter('toBlock', i) as string;
+        const address = this.getNodeParameter('address', i, '') as string;
+        const topics = this.getNodeParameter('topics', i, []) as string[] | string;
+
+        const filter: IDataObject = {
+          fromBlock: formatBlockNumber(fromBlock),
+          toBlock: formatBlockNumber(toBlock),
+        };
+
+        if (address) filter.address = address;
+        const topicsArray = typeof topics === 'string' ? JSON.parse(topics) : topics;
+        if (Array.isArray(topicsArray) && topicsArray.length > 0) filter.topics = topicsArray;
+
+        result = await rpcOutput.call(this, i, 'eth_getLogs', [filter]);
+        break;
+      }
+
+      case 'getStorageAt': {
+        const address = this.getNodeParameter('address', i) as string;
+        const position = this.getNodeParameter('position', i) as string;
+        const block = this.getNodeParameter('block', i, 'latest') as string;
+
+        result = await rpcOutput.call(this, i, 'eth_getStorageAt', [
+          address,
+          position,
+          formatBlockNumber(block),
+        ]);
+        break;
+      }
+
+      default:
+        throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+    }
+
+    return [{ json: simplifyOutput.call(this, i, result) }];
+  });
+}
+
+async function executeTokenOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  return processItems.call(this, items, async (i) => {
+    let result: OperationOutput;
+
+    switch (operation) {
+      case 'getTokenBalance': {
+        const contractaddress = this.getNodeParameter('contractAddress', i) as string;
+        const address = this.getNodeParameter('address', i) as string;
+        const tag = this.getNodeParameter('tag', i) as string;
+
+        result = await scanOutput.call(this, i, 'account', 'tokenbalance', {
+          contractaddress,
+          address,
+          tag,
+        });
+        break;
+      }
+
+      case 'getTokenTransfers':
+      case 'getNftTransfers': {
+        const contractaddress = this.getNodeParameter('contractAddress', i) as string;
+        const address = this.getNodeParameter('address', i) as string;
+        const startBlock = this.getNodeParameter('startBlock', i) as number;
+        const endBlock = this.getNodeParameter('endBlock', i) as string;
+        const sort = this.getNodeParameter('sort', i) as string;
+
+        const action = operation === 'getNftTransfers' ? 'tokennfttx' : 'tokentx';
+        result = await listOutput.call(this, i, action, {
+          contractaddress,
+          address,
+          startblock: startBlock,
+          endblock: endBlock === 'latest' ? 99999999 : endBlock,
+          sort,
+        });
+        break;
+      }
+
+      case 'getTokenInfo': {
+        const contractaddress = this.getNodeParameter('contractAddress', i) as string;
+        result = await scanOutput.call(this, i, 'token', 'tokeninfo', { contractaddress });
+        break;
+      }
+
+      case 'getTokenHolders': {
+        const contractaddress = this.getNodeParameter('contractAddress', i) as string;
+        const page = this.getNodeParameter('page', i) as number;
+        const offset = this.getNodeParameter('offset', i) as number;
+
+        result = await scanOutput.call(this, i, 'token', 'tokenholderlist', {
+          contractaddress,
+          page,
+          offset,
+        });
+        break;
+      }
+
+      case 'getBalance':
+      case 'getMetadata': {
+        const contractAddress = this.getNodeParameter('contractAddress', i) as string;
+        const methodCall = this.getNodeParameter('methodCall', i) as string;
+        const block = this.getNodeParameter('block', i, 'latest') as string;
+
+        result = await rpcOutput.call(this, i, 'eth_call', [
+          { to: contractAddress, data: methodCall },
+          formatBlockNumber(block),
+        ]);
+        break;
+      }
+
+      case 'getTransferEvents': {
+        const fromBlock = this.getNodeParameter('fromBlock', i) as string;
+        const toBlock = this.getNodeParameter('toBlock', i) as string;
+        const address = this.getNodeParameter('address', i) as string;
+        const transferTopics = this.getNodeParameter('transferTopics', i, '[]') as string[] | string;
+
+        let topics: string[];
+        try {
+          topics = typeof transferTopics === 'string' ? JSON.parse(transferTopics) : transferTopics;
+        } catch {
+          throw new InvalidInputError(this.getNode(), 'Invalid JSON in transferTopics');
+        }
+
+        result = await rpcOutput.call(this, i, 'eth_getLogs', [
+          {
+            fromBlock: formatBlockNumber(fromBlock),
+            toBlock: formatBlockNumber(toBlock),
+            address,
+            topics,
+          },
+        ]);
+        break;
+      }
+
+      default:
+        throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+    }
+
+    return [{ json: simplifyOutput.call(this, i, result) }];
+  });
+}
+
+async function executeBlockOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  return processItems.call(this, items, async (i) => {
+    let result: OperationOutput;
+
+    switch (operation) {
+      case 'getLatestBlock': {
+        result = await rpcOutput.call(this, i, 'eth_blockNumber', []);
+        break;
+      }
+
+      case 'getBlockByNumber': {
+        const tag = this.getNodeParameter('tag', i) as string;
+        const fullTransactions = this.getNodeParameter('boolean', i) as boolean;
+
+        result = await rpcOutput.call(this, i, 'eth_getBlockByNumber', [
+          formatBlockNumber(tag),
+          fullTransactions,
+        ]);
+        break;
+      }
+
+      case 'getBlockReward': {
+        const blockno = this.getNodeParameter('blockno', i) as string;
+        result = await scanOutput.call(this, i, 'block', 'getblockreward', { blockno });
+        break;
+      }
+
+      case 'getBlockByTimestamp': {
+        const timestamp = this.getNodeParameter('timestamp', i) as string;
+        const closest = this.getNodeParameter('closest', i) as string;
+
+        result = await scanOutput.call(this, i, 'block', 'getblocknobytime', {
+          timestamp,
+          closest,
+        });
+        break;
+      }
+
+      case 'getUncleBlock': {
+        const tag = this.getNodeParameter('tag', i) as string;
+        const index = this.getNodeParameter('index', i) as string;
+
+        result = await rpcOutput.call(this, i, 'eth_getUncleByBlockNumberAndIndex', [
+          formatBlockNumber(tag),
+          index,
+        ]);
+        break;
+      }
+
+      case 'getBlockNumber': {
+        result = await rpcOutput.call(this, i, 'eth_blockNumber', []);
+        break;
+      }
+
+      case 'getBlock': {
+        const blockNumber = this.getNodeParameter('blockNumber', i) as string;
+        const includeTransactions = this.getNodeParameter('includeTransactions', i, false) as boolean;
+
+        result = isValidTxHash(blockNumber)
+          ? await rpcOutput.call(this, i, 'eth_getBlockByHash', [blockNumber, includeTransactions])
+          : await rpcOutput.call(this, i, 'eth_getBlockByNumber', [
+              formatBlockNumber(blockNumber),
+              includeTransactions,
+            ]);
+        break;
+      }
+
+      case 'getBlockTransactionCount': {
+        const blockNumber = this.getNodeParameter('blockNumber', i) as string;
+
+        result = isValidTxHash(blockNumber)
+          ? await rpcOutput.call(this, i, 'eth_getBlockTransactionCountByHash', [blockNumber])
+          : await rpcOutput.call(this, i, 'eth_getBlockTransactionCountByNumber', [
+              formatBlockNumber(blockNumber),
+            ]);
+        break;
+      }
+
+      default:
+        throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+    }
+
+    return [{ json: simplifyOutput.call(this, i, result) }];
+  });
+}
+
+async function executeStatsOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  const actions: { [key: string]: string } = {
+    getTotalSupply: 'ethsupply',
+    getCronosSupply: 'ethsupply2',
+    getCronoPrice: 'ethprice',
+    getNodeCount: 'nodecount',
+  };
+
+  return processItems.call(this, items, async (i) => {
+    let result: OperationOutput;
+
+    if (operation === 'getGasPrice') {
+      result = await rpcOutput.call(this, i, 'eth_gasPrice', []);
+    } else if (actions[operation]) {
+      result = await scanOutput.call(this, i, 'stats', actions[operation]);
+    } else {
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+    }
+
+    return [{ json: simplifyOutput.call(this, i, result) }];
+  });
+}
+
+async function executeNetworkOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  return processItems.call(this, items, async (i) => {
+    let result: OperationOutput;
+
+    switch (operation) {
+      case 'getChainId': {
+        result = await rpcOutput.call(this, i, 'eth_chainId', []);
+        break;
+      }
+
+      case 'syncing': {
+        result = await rpcOutput.call(this, i, 'eth_syncing', []);
+        break;
+      }
+
+      case 'getProtocolVersion': {
+        result = await rpcOutput.call(this, i, 'eth_protocolVersion', []);
+        break;
+      }
+
+      default:
+        throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+    }
+
+    return [{ json: simplifyOutput.call(this, i, result) }];
+  });
+}
+
+// Resources backed by the operation maps in ./actions. Each operation reads its
+// own parameters for item `i` and returns the items to emit for it.
+async function executeActionOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+  operations: ActionOperations,
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  return processItems.call(this, items, async (i) => {
+    const handler = operations[operation];
+    if (!handler) {
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+    }
+
+    return handler.call(this, i);
+  });
+}
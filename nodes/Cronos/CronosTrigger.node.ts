@@ -12,7 +12,9 @@ import type {
 	IDataObject,
 	IHttpRequestMethods,
 } from 'n8n-workflow';
-import { NodeApiError } from 'n8n-workflow';
+import { NodeApiError, NodeConnectionType } from 'n8n-workflow';
+import type { CronosCredentials, RpcEndpoint } from './transport';
+import { getRpcEndpoint, getScanApiKey, getScanApiUrl, testCronosCredentials } from './transport';
 
 interface JsonRpcResponse {
 	jsonrpc: string;
@@ -71,11 +73,12 @@ export class CronosTrigger implements INodeType {
 			name: 'Cronos Trigger',
 		},
 		inputs: [],
-		outputs: ['main'],
+		outputs: [NodeConnectionType.Main],
 		credentials: [
 			{
 				name: 'cronosApi',
 				required: true,
+				testedBy: 'cronosApiTest',
 			},
 		],
 		polling: true,
@@ -251,30 +254,27 @@ export class CronosTrigger implements INodeType {
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			cronosApiTest: testCronosCredentials,
+		},
+	};
+
 	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
 		const event = this.getNodeParameter('event', 0) as string;
-		const credentials = await this.getCredentials('cronosApi');
+		const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
 		const webhookData = this.getWorkflowStaticData('node');
-		const network = (credentials.network as string) || 'mainnet';
-
-		const rpcUrl =
-			network === 'testnet'
-				? 'https://evm-t3.cronos.org'
-				: (credentials.rpcEndpoint as string) || 'https://evm.cronos.org';
-
-		const cronosScanUrl =
-			network === 'testnet'
-				? 'https://api-testnet.cronoscan.com/api'
-				: 'https://api.cronoscan.com/api';
-
-		const cronosScanApiKey = (credentials.cronosScanApiKey as string) || '';
 
 		try {
+			const rpc = getRpcEndpoint(credentials);
+			const cronosScanUrl = getScanApiUrl(credentials);
+			const cronosScanApiKey = getScanApiKey(credentials);
+
 			let items: IDataObject[] = [];
 
 			switch (event) {
 				case 'newBlock':
-					items = await pollNewBlock.call(this, rpcUrl, webhookData);
+					items = await pollNewBlock.call(this, rpc, webhookData);
 					break;
 				case 'newTransactionToAddress':
 					items = await pollTransactionToAddress.call(
@@ -300,7 +300,7 @@ export class CronosTrigger implements INodeType {
 				case 'contractEvent':
 					items = await pollContractEvent.call(
 						this,
-						rpcUrl,
+						rpc,
 						webhookData,
 						this.getNodeParameter('contractAddress', 0) as string,
 						this.getNodeParameter('eventSignature', 0) as string,
@@ -309,7 +309,7 @@ export class CronosTrigger implements INodeType {
 				case 'largeTransaction':
 					items = await pollLargeTransaction.call(
 						this,
-						rpcUrl,
+						rpc,
 						webhookData,
 						this.getNodeParameter('minAmount', 0) as number,
 						this.getNodeParameter('watchAddress', 0) as string,
@@ -330,12 +330,12 @@ export class CronosTrigger implements INodeType {
 
 async function pollNewBlock(
 	this: IPollFunctions,
-	rpcUrl: string,
+	rpc: RpcEndpoint,
 	webhookData: IDataObject,
 ): Promise<IDataObject[]> {
 	const response = (await this.helpers.httpRequest({
 		method: 'POST' as IHttpRequestMethods,
-		url: rpcUrl,
+		...rpc,
 		body: {
 			jsonrpc: '2.0',
 			method: 'eth_blockNumber',
@@ -359,7 +359,7 @@ async function pollNewBlock(
 	for (let i = lastBlock + 1; i <= lastBlock + blocksToFetch; i++) {
 		const blockResponse = (await this.helpers.httpRequest({
 			method: 'POST' as IHttpRequestMethods,
-			url: rpcUrl,
+			...rpc,
 			body: {
 				jsonrpc: '2.0',
 				method: 'eth_getBlockByNumber',
@@ -544,7 +544,7 @@ async function pollTokenTransfer(
 
 async function pollContractEvent(
 	this: IPollFunctions,
-	rpcUrl: string,
+	rpc: RpcEndpoint,
 	webhookData: IDataObject,
 	contractAddress: string,
 	eventSignature: string,
@@ -552,7 +552,7 @@ async function pollContractEvent(
 	// Get current block
 	const blockResponse = (await this.helpers.httpRequest({
 		method: 'POST' as IHttpRequestMethods,
-		url: rpcUrl,
+		...rpc,
 		body: {
 			jsonrpc: '2.0',
 			method: 'eth_blockNumber',
@@ -580,7 +580,7 @@ async function pollContractEvent(
 
 	const logsResponse = (await this.helpers.httpRequest({
 		method: 'POST' as IHttpRequestMethods,
-		url: rpcUrl,
+		...rpc,
 		body: {
 			jsonrpc: '2.0',
 			method: 'eth_getLogs',
@@ -611,7 +611,7 @@ async function pollContractEvent(
 
 async function pollLargeTransaction(
 	this: IPollFunctions,
-	rpcUrl: string,
+	rpc: RpcEndpoint,
 	webhookData: IDataObject,
 	minAmountCRO: number,
 	watchAddress: string,
@@ -621,7 +621,7 @@ async function pollLargeTransaction(
 	// Get current block
 	const blockResponse = (await this.helpers.httpRequest({
 		method: 'POST' as IHttpRequestMethods,
-		url: rpcUrl,
+		...rpc,
 		body: {
 			jsonrpc: '2.0',
 			method: 'eth_blockNumber',
@@ -645,7 +645,7 @@ async function pollLargeTransaction(
 	for (let i = lastBlock + 1; i <= lastBlock + blocksToCheck; i++) {
 		const block = (await this.helpers.httpRequest({
 			method: 'POST' as IHttpRequestMethods,
-			url: rpcUrl,
+			...rpc,
 			body: {
 				jsonrpc: '2.0',
 				method: 'eth_getBlockByNumber',
@@ -6,13 +6,16 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { jsonRpcRequest, cronosScanRequest } from '../../transport';
+import { aggregate3, cronosScanRequest, hasReturnData, jsonRpcRequest } from '../../transport';
+import { InvalidInputError } from '../../errors';
 import {
 	hexToDecimal,
 	weiToCro,
 	isValidAddress,
 	encodeFunctionCall,
+	decodeString,
 	decodeUint256,
+	formatAddress,
 } from '../../utils';
 import { FUNCTION_SIGNATURES } from '../../constants';
 
@@ -24,7 +27,7 @@ export async function getBalance(
 	const blockParameter = this.getNodeParameter('blockParameter', index, 'latest') as string;
 
 	if (!isValidAddress(address)) {
-		throw new Error(`Invalid address format: ${address}`);
+		throw new InvalidInputError(this.getNode(), `Invalid address format: ${address}`);
 	}
 
 	const balance = (await jsonRpcRequest.call(this, 'eth_getBalance', [address, blockParameter])) as string;
@@ -34,7 +37,7 @@ export async function getBalance(
 	return [
 		{
 			json: {
-				address,
+				address: formatAddress(address),
 				balanceWei: balanceDecimal,
 				balanceCro,
 				blockParameter,
@@ -51,7 +54,7 @@ export async function getTokenBalances(
 	const tokenAddresses = this.getNodeParameter('tokenAddresses', index, '') as string;
 
 	if (!isValidAddress(address)) {
-		throw new Error(`Invalid address format: ${address}`);
+		throw new InvalidInputError(this.getNode(), `Invalid address format: ${address}`);
 	}
 
 	const tokens = tokenAddresses
@@ -59,89 +62,64 @@ export async function getTokenBalances(
 		.map((t) => t.trim())
 		.filter((t) => t);
 
-	const balances: IDataObject[] = [];
-
 	for (const tokenAddress of tokens) {
 		if (!isValidAddress(tokenAddress)) {
-			continue;
+			throw new InvalidInputError(this.getNode(), `Invalid token address: ${tokenAddress}`);
 		}
+	}
 
-		const callData = encodeFunctionCall(FUNCTION_SIGNATURES.balanceOf, [
-			{ type: 'address', value: address },
-		]);
-
-		try {
-			const result = (await jsonRpcRequest.call(this, 'eth_call', [
-				{ to: tokenAddress, data: callData },
-				'latest',
-			])) as string;
-
-			const balance = decodeUint256(result);
-
-			// Try to get token info
-			let decimals = 18;
-			let symbol = 'UNKNOWN';
-			let name = 'Unknown Token';
-
-			try {
-				const decimalsResult = (await jsonRpcRequest.call(this, 'eth_call', [
-					{ to: tokenAddress, data: FUNCTION_SIGNATURES.decimals },
-					'latest',
-				])) as string;
-				decimals = parseInt(hexToDecimal(decimalsResult), 10) || 18;
-
-				const symbolResult = (await jsonRpcRequest.call(this, 'eth_call', [
-					{ to: tokenAddress, data: FUNCTION_SIGNATURES.symbol },
-					'latest',
-				])) as string;
-				if (symbolResult && symbolResult.length > 2) {
-					// Decode string - simplified
-					const hexStr = symbolResult.replace('0x', '');
-					if (hexStr.length >= 128) {
-						const length = parseInt(hexStr.slice(64, 128), 16);
-						const symbolHex = hexStr.slice(128, 128 + length * 2);
-						symbol = Buffer.from(symbolHex, 'hex').toString('utf8').replace(/\0/g, '');
-					}
-				}
-
-				const nameResult = (await jsonRpcRequest.call(this, 'eth_call', [
-					{ to: tokenAddress, data: FUNCTION_SIGNATURES.name },
-					'latest',
-				])) as string;
-				if (nameResult && nameResult.length > 2) {
-					const hexStr = nameResult.replace('0x', '');
-					if (hexStr.length >= 128) {
-						const length = parseInt(hexStr.slice(64, 128), 16);
-						const nameHex = hexStr.slice(128, 128 + length * 2);
-						name = Buffer.from(nameHex, 'hex').toString('utf8').replace(/\0/g, '');
-					}
-				}
-			} catch {
-				// Token info not available
-			}
+	const balanceOfData = encodeFunctionCall(FUNCTION_SIGNATURES.balanceOf, [
+		{ type: 'address', value: address },
+	]);
+
+	// balanceOf, decimals, symbol and name of every token in a single multicall
+	const results = await aggregate3.call(
+		this,
+		tokens.flatMap((tokenAddress) =>
+			[
+				balanceOfData,
+				FUNCTION_SIGNATURES.decimals,
+				FUNCTION_SIGNATURES.symbol,
+				FUNCTION_SIGNATURES.name,
+			].map((callData) => ({ target: tokenAddress, callData })),
+		),
+	);
 
-			const formattedBalance = weiToCro(balance, decimals);
-
-			balances.push({
-				tokenAddress,
-				name,
-				symbol,
-				decimals,
-				balanceRaw: balance,
-				balance: formattedBalance,
-			});
-		} catch {
-			balances.push({
-				tokenAddress,
+	const balances: IDataObject[] = tokens.map((tokenAddress, i) => {
+		const [balanceResult, decimalsResult, symbolResult, nameResult] = results.slice(
+			i * 4,
+			i * 4 + 4,
+		);
+
+		if (!hasReturnData(balanceResult)) {
+			return {
+				tokenAddress: formatAddress(tokenAddress),
 				error: 'Failed to fetch balance',
-			});
+			};
 		}
-	}
+
+		const balance = decodeUint256(balanceResult.returnData);
+		const decodedDecimals = hasReturnData(decimalsResult)
+			? parseInt(decodeUint256(decimalsResult.returnData), 10)
+			: NaN;
+		const decimals = Number.isNaN(decodedDecimals) ? 18 : decodedDecimals;
+		const symbol = hasReturnData(symbolResult) ? decodeString(symbolResult.returnData) : 'UNKNOWN';
+		const name = hasReturnData(nameResult) ? decodeString(nameResult.returnData) : 'Unknown Token';
+
+		return {
+			tokenAddress: formatAddress(tokenAddress),
+			name,
+			symbol,
+			decimals,
+			balanceRaw: balance,
+			balance: weiToCro(balance, decimals),
+		};
+	});
 
 	return [
 		{
 			json: {
-				address,
+				address: formatAddress(address),
 				tokenBalances: balances,
 				tokenCount: balances.length,
 			},
@@ -156,7 +134,7 @@ export async function getNFTs(
 	const address = this.getNodeParameter('address', index) as string;
 
 	if (!isValidAddress(address)) {
-		throw new Error(`Invalid address format: ${address}`);
+		throw new InvalidInputError(this.getNode(), `Invalid address format: ${address}`);
 	}
 
 	// Use Cronos Scan API to get NFT transfers
@@ -179,7 +157,7 @@ export async function getNFTs(
 
 			if ((transfer.to as string).toLowerCase() === address.toLowerCase()) {
 				ownedNFTs.push({
-					contractAddress: transfer.contractAddress,
+					contractAddress: formatAddress(transfer.contractAddress),
 					tokenId: transfer.tokenID,
 					tokenName: transfer.tokenName,
 					tokenSymbol: transfer.tokenSymbol,
@@ -193,7 +171,7 @@ export async function getNFTs(
 	return [
 		{
 			json: {
-				address,
+				address: formatAddress(address),
 				nfts: ownedNFTs,
 				nftCount: ownedNFTs.length,
 			},
@@ -213,7 +191,7 @@ export async function getTransactionHistory(
 	const sort = this.getNodeParameter('sort', index, 'desc') as string;
 
 	if (!isValidAddress(address)) {
-		throw new Error(`Invalid address format: ${address}`);
+		throw new InvalidInputError(this.getNode(), `Invalid address format: ${address}`);
 	}
 
 	const result = await cronosScanRequest.call(this, 'account', 'txlist', {
@@ -231,8 +209,8 @@ export async function getTransactionHistory(
 		hash: tx.hash,
 		blockNumber: tx.blockNumber,
 		timestamp: tx.timeStamp,
-		from: tx.from,
-		to: tx.to,
+		from: formatAddress(tx.from),
+		to: formatAddress(tx.to),
 		value: weiToCro(tx.value as string),
 		gasUsed: tx.gasUsed,
 		gasPrice: tx.gasPrice,
@@ -244,7 +222,7 @@ export async function getTransactionHistory(
 	return [
 		{
 			json: {
-				address,
+				address: formatAddress(address),
 				transactions: formattedTxs,
 				transactionCount: formattedTxs.length,
 				page,
@@ -266,7 +244,7 @@ export async function getTokenTransfers(
 	const sort = this.getNodeParameter('sort', index, 'desc') as string;
 
 	if (!isValidAddress(address)) {
-		throw new Error(`Invalid address format: ${address}`);
+		throw new InvalidInputError(this.getNode(), `Invalid address format: ${address}`);
 	}
 
 	const params: IDataObject = {
@@ -289,8 +267,8 @@ export async function getTokenTransfers(
 		hash: transfer.hash,
 		blockNumber: transfer.blockNumber,
 		timestamp: transfer.timeStamp,
-		from: transfer.from,
-		to: transfer.to,
+		from: formatAddress(transfer.from),
+		to: formatAddress(transfer.to),
 		value: weiToCro(
 			transfer.value as string,
 			parseInt(transfer.tokenDecimal as string, 10) || 18,
@@ -298,13 +276,13 @@ export async function getTokenTransfers(
 		tokenName: transfer.tokenName,
 		tokenSymbol: transfer.tokenSymbol,
 		tokenDecimal: transfer.tokenDecimal,
-		contractAddress: transfer.contractAddress,
+		contractAddress: formatAddress(transfer.contractAddress),
 	}));
 
 	return [
 		{
 			json: {
-				address,
+				address: formatAddress(address),
 				transfers: formattedTransfers,
 				transferCount: formattedTransfers.length,
 				page,
@@ -7,11 +7,13 @@
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
 import { jsonRpcRequest, cronosScanRequest } from '../../transport';
+import { InvalidInputError } from '../../errors';
 import {
 	hexToDecimal,
 	weiToCro,
 	decimalToHex,
 	formatBlockTimestamp,
+	formatAddress,
 } from '../../utils';
 
 export async function getBlock(
@@ -32,7 +34,7 @@ export async function getBlock(
 		])) as IDataObject;
 
 		if (!block) {
-			throw new Error(`Block not found: ${blockIdentifier}`);
+			throw new InvalidInputError(this.getNode(), `Block not found: ${blockIdentifier}`);
 		}
 
 		return [{ json: formatBlockResponse(block) }];
@@ -47,7 +49,7 @@ export async function getBlock(
 	])) as IDataObject;
 
 	if (!block) {
-		throw new Error(`Block not found: ${blockIdentifier}`);
+		throw new InvalidInputError(this.getNode(), `Block not found: ${blockIdentifier}`);
 	}
 
 	return [{ json: formatBlockResponse(block) }];
@@ -95,14 +97,14 @@ export async function getBlockTransactions(
 	const block = (await jsonRpcRequest.call(this, method, [blockParam, true])) as IDataObject;
 
 	if (!block) {
-		throw new Error(`Block not found: ${blockIdentifier}`);
+		throw new InvalidInputError(this.getNode(), `Block not found: ${blockIdentifier}`);
 	}
 
 	const transactions = (block.transactions as IDataObject[]) || [];
 	const formattedTransactions = transactions.map((tx) => ({
 		hash: tx.hash,
-		from: tx.from,
-		to: tx.to,
+		from: formatAddress(tx.from),
+		to: formatAddress(tx.to),
 		value: weiToCro(hexToDecimal(tx.value as string)),
 		valueWei: hexToDecimal(tx.value as string),
 		gas: hexToDecimal(tx.gas as string),
@@ -147,7 +149,7 @@ export async function getBlockByTimestamp(
 	])) as IDataObject;
 
 	if (!block) {
-		throw new Error(`Block not found for timestamp: ${timestamp}`);
+		throw new InvalidInputError(this.getNode(), `Block not found for timestamp: ${timestamp}`);
 	}
 
 	return [
@@ -6,8 +6,16 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { jsonRpcRequest } from '../../transport';
-import { hexToDecimal, weiToCro, isValidAddress, decodeAddress } from '../../utils';
+import { aggregate3, hasReturnData, jsonRpcRequest } from '../../transport';
+import { InvalidInputError } from '../../errors';
+import {
+	hexToDecimal,
+	weiToCro,
+	isValidAddress,
+	decodeAddress,
+	formatAddress,
+	lookupAddress,
+} from '../../utils';
 import { KNOWN_TOKENS } from '../../constants';
 
 // VVS Finance Router address on Cronos
@@ -29,23 +37,28 @@ export async function getProtocolTVL(
 		'latest',
 	])) as string;
 
+	// A call to an address without code succeeds with empty return data
+	// rather than reverting, so an empty result means no factory is deployed
+	if (pairsCountResult === '0x') {
+		throw new InvalidInputError(
+			this.getNode(),
+			`No VVS Finance factory is deployed at ${VVS_FACTORY} on this network`,
+		);
+	}
+
 	const pairsCount = parseInt(hexToDecimal(pairsCountResult), 10);
 
 	// Get WCRO balance in factory as TVL proxy
 	const wcroBalanceData =
 		'0x70a08231' + VVS_FACTORY.toLowerCase().replace('0x', '').padStart(64, '0');
 
-	let tvlEstimate = '0';
-	try {
-		const wcroBalance = (await jsonRpcRequest.call(this, 'eth_call', [
-			{ to: WCRO, data: wcroBalanceData },
-			'latest',
-		])) as string;
+	const wcroBalance = (await jsonRpcRequest.call(this, 'eth_call', [
+		{ to: WCRO, data: wcroBalanceData },
+		'latest',
+	])) as string;
 
-		tvlEstimate = weiToCro(hexToDecimal(wcroBalance));
-	} catch {
-		// TVL estimation failed
-	}
+	// Empty when WCRO is not deployed on this network
+	const tvlEstimate = wcroBalance === '0x' ? null : weiToCro(hexToDecimal(wcroBalance));
 
 	return [
 		{
@@ -69,7 +82,7 @@ export async function getPoolInfo(
 	const poolAddress = this.getNodeParameter('poolAddress', index) as string;
 
 	if (!isValidAddress(poolAddress)) {
-		throw new Error(`Invalid pool address: ${poolAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid pool address: ${poolAddress}`);
 	}
 
 	// Get token0 and token1
@@ -97,13 +110,14 @@ export async function getPoolInfo(
 	const totalSupply = hexToDecimal(supplyResult as string);
 
 	// Get token info
-	const token0Info = KNOWN_TOKENS[token0] || { name: 'Unknown', symbol: 'UNK', decimals: 18 };
-	const token1Info = KNOWN_TOKENS[token1] || { name: 'Unknown', symbol: 'UNK', decimals: 18 };
+	const unknownToken = { name: 'Unknown', symbol: 'UNK', decimals: 18 };
+	const token0Info = lookupAddress(KNOWN_TOKENS, token0) || unknownToken;
+	const token1Info = lookupAddress(KNOWN_TOKENS, token1) || unknownToken;
 
 	return [
 		{
 			json: {
-				poolAddress,
+				poolAddress: formatAddress(poolAddress),
 				token0: {
 					address: token0,
 					name: token0Info.name,
@@ -132,65 +146,48 @@ export async function getDEXStats(
 ): Promise<INodeExecutionData[]> {
 	const dex = this.getNodeParameter('dex', index, 'vvs') as string;
 
-	// Get factory pair count
-	const allPairsLengthData = '0x574f2ba3';
-	const pairsCountResult = (await jsonRpcRequest.call(this, 'eth_call', [
-		{ to: VVS_FACTORY, data: allPairsLengthData },
-		'latest',
-	])) as string;
+	const samplesToFetch = 5;
+
+	// Pair count, fee recipient and the first pair addresses in one multicall
+	const [pairsCountResult, feeToResult, ...pairAddressResults] = await aggregate3.call(this, [
+		{ target: VVS_FACTORY, callData: '0x574f2ba3', allowFailure: false }, // allPairsLength()
+		{ target: VVS_FACTORY, callData: '0x017e7e58' }, // feeTo()
+		...Array.from({ length: samplesToFetch }, (_, i) => ({
+			target: VVS_FACTORY,
+			// allPairs(uint256)
+			callData: '0x1e3dd18b' + BigInt(i).toString(16).padStart(64, '0'),
+		})),
+	]);
 
-	const pairsCount = parseInt(hexToDecimal(pairsCountResult), 10);
+	const pairsCount = parseInt(hexToDecimal(pairsCountResult.returnData), 10);
+	const feeTo = hasReturnData(feeToResult) ? decodeAddress(feeToResult.returnData) : '';
 
-	// Get fee info (VVS uses 0.3% fee)
-	const feeToData = '0x017e7e58'; // feeTo()
-	let feeTo = '';
-	try {
-		const feeToResult = (await jsonRpcRequest.call(this, 'eth_call', [
-			{ to: VVS_FACTORY, data: feeToData },
-			'latest',
-		])) as string;
-		feeTo = decodeAddress(feeToResult);
-	} catch {
-		// Fee to not available
-	}
+	// Reserves of a sample of pairs to estimate activity
+	const pairs = pairAddressResults
+		.slice(0, Math.min(samplesToFetch, pairsCount))
+		.map((result, pairIndex) => ({
+			pairIndex,
+			pairAddress: hasReturnData(result) ? decodeAddress(result.returnData) : null,
+		}))
+		.filter((pair): pair is { pairIndex: number; pairAddress: string } => !!pair.pairAddress);
+
+	const reservesResults = await aggregate3.call(
+		this,
+		pairs.map((pair) => ({ target: pair.pairAddress, callData: '0x0902f1ac' })), // getReserves()
+	);
 
-	// Get a sample of pairs to estimate activity
 	const samplePairs: IDataObject[] = [];
-	const samplesToFetch = Math.min(5, pairsCount);
-
-	for (let i = 0; i < samplesToFetch; i++) {
-		try {
-			const pairIndexHex = BigInt(i).toString(16).padStart(64, '0');
-			const allPairsData = '0x1e3dd18b' + pairIndexHex; // allPairs(uint256)
-
-			const pairAddressResult = (await jsonRpcRequest.call(this, 'eth_call', [
-				{ to: VVS_FACTORY, data: allPairsData },
-				'latest',
-			])) as string;
-
-			const pairAddress = decodeAddress(pairAddressResult);
-
-			// Get pair reserves
-			const getReservesData = '0x0902f1ac';
-			const reservesResult = (await jsonRpcRequest.call(this, 'eth_call', [
-				{ to: pairAddress, data: getReservesData },
-				'latest',
-			])) as string;
-
-			const reservesHex = reservesResult.replace('0x', '');
-			const reserve0 = hexToDecimal('0x' + reservesHex.slice(0, 64));
-			const reserve1 = hexToDecimal('0x' + reservesHex.slice(64, 128));
-
-			samplePairs.push({
-				pairIndex: i,
-				pairAddress,
-				reserve0,
-				reserve1,
-			});
-		} catch {
-			// Skip failed pair fetch
-		}
-	}
+	pairs.forEach((pair, i) => {
+		const reserves = reservesResults[i];
+		if (!hasReturnData(reserves)) return;
+
+		const reservesHex = reserves.returnData.replace('0x', '');
+		samplePairs.push({
+			...pair,
+			reserve0: hexToDecimal('0x' + reservesHex.slice(0, 64)),
+			reserve1: hexToDecimal('0x' + reservesHex.slice(64, 128)),
+		});
+	});
 
 	return [
 		{
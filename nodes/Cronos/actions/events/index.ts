@@ -7,7 +7,17 @@
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
 import { jsonRpcRequest } from '../../transport';
-import { hexToDecimal, decimalToHex, isValidAddress, decodeAddress, decodeUint256 } from '../../utils';
+import { InvalidInputError } from '../../errors';
+import {
+	hexToDecimal,
+	decimalToHex,
+	isValidAddress,
+	decodeAddress,
+	decodeUint256,
+	parseSignature,
+	resolveEventTopic,
+	formatAddress,
+} from '../../utils';
 import { EVENT_SIGNATURES } from '../../constants';
 
 export async function getLogs(
@@ -28,7 +38,10 @@ export async function getLogs(
 			: decimalToHex(toBlock),
 	};
 
-	if (address && isValidAddress(address)) {
+	if (address) {
+		if (!isValidAddress(address)) {
+			throw new InvalidInputError(this.getNode(), `Invalid contract address: ${address}`);
+		}
 		filterParams.address = address;
 	}
 
@@ -45,6 +58,9 @@ export async function getLogs(
 	}
 
 	const logs = (await jsonRpcRequest.call(this, 'eth_getLogs', [filterParams])) as IDataObject[];
+	if (this.getNodeParameter('simplify', index, true) === false) {
+		return [{ json: { result: logs } }];
+	}
 
 	const formattedLogs = logs.map((log) => {
 		const topicsArray = log.topics as string[];
@@ -81,7 +97,7 @@ export async function getLogs(
 		}
 
 		return {
-			address: log.address,
+			address: formatAddress(log.address),
 			blockNumber: hexToDecimal(log.blockNumber as string),
 			blockHash: log.blockHash,
 			transactionHash: log.transactionHash,
@@ -118,7 +134,10 @@ export async function subscribeToLogs(
 	// WebSocket subscription info (actual subscription would be in trigger node)
 	const filterParams: IDataObject = {};
 
-	if (address && isValidAddress(address)) {
+	if (address) {
+		if (!isValidAddress(address)) {
+			throw new InvalidInputError(this.getNode(), `Invalid contract address: ${address}`);
+		}
 		filterParams.address = address;
 	}
 
@@ -179,9 +198,12 @@ export async function filterEvents(
 			eventSignature = EVENT_SIGNATURES.TransferBatch;
 			eventName = 'TransferBatch';
 			break;
-		default:
-			eventSignature = eventType;
-			eventName = 'Custom';
+		default: {
+			// Custom events take a human-readable signature or a precomputed topic
+			const customSignature = this.getNodeParameter('eventSignature', index, eventType) as string;
+			eventSignature = resolveEventTopic(customSignature);
+			eventName = customSignature.includes('(') ? parseSignature(customSignature).name : 'Custom';
+		}
 	}
 
 	const filterParams: IDataObject = {
@@ -190,11 +212,17 @@ export async function filterEvents(
 		topics: [eventSignature],
 	};
 
-	if (address && isValidAddress(address)) {
+	if (address) {
+		if (!isValidAddress(address)) {
+			throw new InvalidInputError(this.getNode(), `Invalid contract address: ${address}`);
+		}
 		filterParams.address = address;
 	}
 
 	const logs = (await jsonRpcRequest.call(this, 'eth_getLogs', [filterParams])) as IDataObject[];
+	if (this.getNodeParameter('simplify', index, true) === false) {
+		return [{ json: { result: logs } }];
+	}
 
 	const formattedLogs = logs.map((log) => {
 		const topicsArray = log.topics as string[];
@@ -215,7 +243,7 @@ export async function filterEvents(
 		}
 
 		return {
-			address: log.address,
+			address: formatAddress(log.address),
 			blockNumber: hexToDecimal(log.blockNumber as string),
 			transactionHash: log.transactionHash,
 			logIndex: hexToDecimal(log.logIndex as string),
@@ -7,16 +7,22 @@
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
 import { jsonRpcRequest } from '../../transport';
+import { getErrorCode } from '../../errors';
+import type { RpcError } from '../../errors';
 import type { CronosCredentials } from '../../transport';
 import { hexToDecimal, weiToCro, formatGasPrice, formatBlockTimestamp } from '../../utils';
-import { getNetworkConfig, getChainId } from '../../transport';
+import { getChainId, getExplorerUrl, getRpcUrl } from '../../transport';
+
+// The node answered with an error, e.g. because it does not support an optional method
+function isRpcErrorResponse(error: unknown): boolean {
+	return getErrorCode(error) === 'RPC_ERROR' && (error as RpcError).context.rpcCode !== undefined;
+}
 
 export async function getNetworkStatus(
 	this: IExecuteFunctions,
 	_index: number,
 ): Promise<INodeExecutionData[]> {
 	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
-	const networkConfig = getNetworkConfig(credentials.network);
 
 	// Get multiple network stats in parallel
 	const [blockNumber, gasPrice, chainId, syncing, peerCount] = await Promise.all([
@@ -24,7 +30,10 @@ export async function getNetworkStatus(
 		jsonRpcRequest.call(this, 'eth_gasPrice', []),
 		jsonRpcRequest.call(this, 'eth_chainId', []),
 		jsonRpcRequest.call(this, 'eth_syncing', []),
-		jsonRpcRequest.call(this, 'net_peerCount', []).catch(() => '0x0'),
+		jsonRpcRequest.call(this, 'net_peerCount', []).catch((error) => {
+			if (!isRpcErrorResponse(error)) throw error;
+			return '0x0';
+		}),
 	]);
 
 	// Get latest block for timestamp
@@ -49,10 +58,8 @@ export async function getNetworkStatus(
 				syncingDetails: syncing !== false ? (syncing as IDataObject) : null,
 				peerCount: hexToDecimal(peerCount as string),
 				latestBlockTimestamp: formatBlockTimestamp(latestBlock.timestamp as string),
-				rpcEndpoint: networkConfig.rpcUrl,
-				explorerUrl: credentials.network === 'mainnet'
-					? 'https://cronoscan.com'
-					: 'https://testnet.cronoscan.com',
+				rpcEndpoint: getRpcUrl(credentials),
+				explorerUrl: getExplorerUrl(credentials),
 			},
 		},
 	];
@@ -80,8 +87,9 @@ export async function getGasPrice(
 			wei: hexToDecimal(priorityFee),
 			gwei: formatGasPrice(priorityFee),
 		};
-	} catch {
+	} catch (error) {
 		// EIP-1559 not supported
+		if (!isRpcErrorResponse(error)) throw error;
 	}
 
 	// Get fee history if requested
@@ -103,8 +111,9 @@ export async function getGasPrice(
 				gasUsedRatio: history.gasUsedRatio,
 				reward: history.reward,
 			};
-		} catch {
+		} catch (error) {
 			// Fee history not available
+			if (!isRpcErrorResponse(error)) throw error;
 		}
 	}
 
@@ -250,9 +259,7 @@ export async function getChainStats(
 				nativeTokenDecimals: 18,
 				consensusMechanism: 'Proof of Authority (Tendermint)',
 				evmCompatible: true,
-				explorer: credentials.network === 'mainnet'
-					? 'https://cronoscan.com'
-					: 'https://testnet.cronoscan.com',
+				explorer: getExplorerUrl(credentials),
 			},
 		},
 	];
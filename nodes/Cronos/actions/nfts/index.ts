@@ -6,8 +6,22 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { jsonRpcRequest, cronosScanRequest } from '../../transport';
-import { hexToDecimal, isValidAddress, decodeAddress } from '../../utils';
+import {
+	aggregate3,
+	cronosScanRequest,
+	cronosScanRequestAll,
+	hasReturnData,
+	jsonRpcRequest,
+} from '../../transport';
+import { InvalidInputError, RevertedError } from '../../errors';
+import {
+	decodeAddress,
+	decodeString,
+	formatAddress,
+	formatBlockTimestamp,
+	hexToDecimal,
+	isValidAddress,
+} from '../../utils';
 
 export async function getNFTMetadata(
 	this: IExecuteFunctions,
@@ -17,107 +31,37 @@ export async function getNFTMetadata(
 	const tokenId = this.getNodeParameter('tokenId', index) as string;
 
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
-	// Get token URI
+	// tokenURI (ERC-721), uri (ERC-1155), owner and collection details in one multicall
 	const tokenIdHex = BigInt(tokenId).toString(16).padStart(64, '0');
-	const tokenURIData = '0xc87b56dd' + tokenIdHex; // tokenURI(uint256)
+	const [tokenURIResult, uriResult, ownerResult, nameResult, symbolResult] = await aggregate3.call(
+		this,
+		[
+			'0xc87b56dd' + tokenIdHex, // tokenURI(uint256)
+			'0x0e89341c' + tokenIdHex, // uri(uint256)
+			'0x6352211e' + tokenIdHex, // ownerOf(uint256)
+			'0x06fdde03', // name()
+			'0x95d89b41', // symbol()
+		].map((callData) => ({ target: contractAddress, callData })),
+	);
 
 	let tokenURI = '';
-	try {
-		const result = (await jsonRpcRequest.call(this, 'eth_call', [
-			{ to: contractAddress, data: tokenURIData },
-			'latest',
-		])) as string;
-
-		if (result && result !== '0x' && result.length > 2) {
-			// Decode the string result
-			const hexStr = result.replace('0x', '');
-			if (hexStr.length >= 128) {
-				const offset = parseInt(hexStr.slice(0, 64), 16) * 2;
-				const length = parseInt(hexStr.slice(offset, offset + 64), 16);
-				const uriHex = hexStr.slice(offset + 64, offset + 64 + length * 2);
-				tokenURI = Buffer.from(uriHex, 'hex').toString('utf8');
-			}
-		}
-	} catch {
-		// Try ERC1155 uri function
-		try {
-			const uriData = '0x0e89341c' + tokenIdHex; // uri(uint256)
-			const result = (await jsonRpcRequest.call(this, 'eth_call', [
-				{ to: contractAddress, data: uriData },
-				'latest',
-			])) as string;
-
-			if (result && result !== '0x' && result.length > 2) {
-				const hexStr = result.replace('0x', '');
-				if (hexStr.length >= 128) {
-					const offset = parseInt(hexStr.slice(0, 64), 16) * 2;
-					const length = parseInt(hexStr.slice(offset, offset + 64), 16);
-					const uriHex = hexStr.slice(offset + 64, offset + 64 + length * 2);
-					tokenURI = Buffer.from(uriHex, 'hex').toString('utf8');
-				}
-			}
-		} catch {
-			// URI not available
-		}
+	if (hasReturnData(tokenURIResult)) {
+		tokenURI = decodeString(tokenURIResult.returnData);
+	} else if (hasReturnData(uriResult)) {
+		tokenURI = decodeString(uriResult.returnData);
 	}
 
-	// Get owner
-	const ownerData = '0x6352211e' + tokenIdHex; // ownerOf(uint256)
-	let owner = '';
-	try {
-		const ownerResult = (await jsonRpcRequest.call(this, 'eth_call', [
-			{ to: contractAddress, data: ownerData },
-			'latest',
-		])) as string;
-
-		if (ownerResult && ownerResult !== '0x') {
-			owner = decodeAddress(ownerResult);
-		}
-	} catch {
-		// Owner not available (might be ERC1155)
-	}
+	// Owner is not available for ERC-1155 tokens
+	const owner = hasReturnData(ownerResult) ? decodeAddress(ownerResult.returnData) : '';
+	const name = hasReturnData(nameResult) ? decodeString(nameResult.returnData) : '';
+	const symbol = hasReturnData(symbolResult) ? decodeString(symbolResult.returnData) : '';
 
-	// Get collection name and symbol
-	let name = '';
-	let symbol = '';
-
-	try {
-		const nameResult = (await jsonRpcRequest.call(this, 'eth_call', [
-			{ to: contractAddress, data: '0x06fdde03' }, // name()
-			'latest',
-		])) as string;
-
-		if (nameResult && nameResult !== '0x' && nameResult.length > 2) {
-			const hexStr = nameResult.replace('0x', '');
-			if (hexStr.length >= 128) {
-				const length = parseInt(hexStr.slice(64, 128), 16);
-				const nameHex = hexStr.slice(128, 128 + length * 2);
-				name = Buffer.from(nameHex, 'hex').toString('utf8').replace(/\0/g, '');
-			}
-		}
-
-		const symbolResult = (await jsonRpcRequest.call(this, 'eth_call', [
-			{ to: contractAddress, data: '0x95d89b41' }, // symbol()
-			'latest',
-		])) as string;
-
-		if (symbolResult && symbolResult !== '0x' && symbolResult.length > 2) {
-			const hexStr = symbolResult.replace('0x', '');
-			if (hexStr.length >= 128) {
-				const length = parseInt(hexStr.slice(64, 128), 16);
-				const symbolHex = hexStr.slice(128, 128 + length * 2);
-				symbol = Buffer.from(symbolHex, 'hex').toString('utf8').replace(/\0/g, '');
-			}
-		}
-	} catch {
-		// Name/symbol not available
-	}
-
-	// Fetch metadata from URI if available
+	// Fetch metadata from URI if available; off-chain failures are reported, not fatal
 	let metadata: IDataObject | null = null;
+	let metadataError: string | undefined;
 	if (tokenURI) {
 		try {
 			// Handle IPFS URLs
@@ -136,21 +80,22 @@ export async function getNFTMetadata(
 				});
 				metadata = response as IDataObject;
 			}
-		} catch {
-			// Metadata fetch failed
+		} catch (error) {
+			metadataError = (error as Error).message;
 		}
 	}
 
 	return [
 		{
 			json: {
-				contractAddress,
+				contractAddress: formatAddress(contractAddress),
 				tokenId,
 				collectionName: name,
 				collectionSymbol: symbol,
 				owner,
 				tokenURI,
 				metadata,
+				...(metadataError ? { metadataError } : {}),
 			},
 		},
 	];
@@ -164,43 +109,53 @@ export async function getNFTTransfers(
 	const tokenId = this.getNodeParameter('tokenId', index, '') as string;
 	const startBlock = this.getNodeParameter('startBlock', index, 0) as number;
 	const endBlock = this.getNodeParameter('endBlock', index, 99999999) as number;
-	const page = this.getNodeParameter('page', index, 1) as number;
-	const offset = this.getNodeParameter('offset', index, 100) as number;
 	const sort = this.getNodeParameter('sort', index, 'desc') as string;
 
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
 	const params: IDataObject = {
 		contractaddress: contractAddress,
 		startblock: startBlock,
 		endblock: endBlock,
-		page,
-		offset,
 		sort,
 	};
 
-	const result = (await cronosScanRequest.call(
-		this,
-		'account',
-		'tokennfttx',
-		params,
-	)) as IDataObject[];
-
-	let transfers = Array.isArray(result) ? result : [];
+	// The explorer cannot filter by token ID, so that is done on the records received
+	const matchesTokenId = (transfer: IDataObject) => !tokenId || transfer.tokenID === tokenId;
+	let transfers: IDataObject[];
+	let page: number | undefined;
+
+	if (this.getNode().typeVersion < 2) {
+		// Version 1 nodes fetch the one page set by Page and Offset
+		page = this.getNodeParameter('page', index, 1) as number;
+		const offset = this.getNodeParameter('offset', index, 100) as number;
+		const result = await cronosScanRequest.call(this, 'account', 'tokennfttx', {
+			...params,
+			page,
+			offset,
+		});
+		transfers = ((Array.isArray(result) ? result : []) as IDataObject[]).filter(matchesTokenId);
+	} else {
+		const returnAll = this.getNodeParameter('returnAll', index, false) as boolean;
+		const limit = this.getNodeParameter('limit', index, 50) as number;
+		transfers = await cronosScanRequestAll.call(this, 'account', 'tokennfttx', params, {
+			limit: returnAll ? undefined : limit,
+			filter: tokenId ? matchesTokenId : undefined,
+		});
+	}
 
-	// Filter by token ID if provided
-	if (tokenId) {
-		transfers = transfers.filter((t) => t.tokenID === tokenId);
+	if (this.getNodeParameter('simplify', index, true) === false) {
+		return [{ json: { result: transfers } }];
 	}
 
 	const formattedTransfers = transfers.map((transfer) => ({
 		hash: transfer.hash,
 		blockNumber: transfer.blockNumber,
-		timestamp: transfer.timeStamp,
-		from: transfer.from,
-		to: transfer.to,
+		timestamp: formatBlockTimestamp(transfer.timeStamp as string),
+		from: formatAddress(transfer.from),
+		to: formatAddress(transfer.to),
 		tokenId: transfer.tokenID,
 		tokenName: transfer.tokenName,
 		tokenSymbol: transfer.tokenSymbol,
@@ -209,9 +164,9 @@ export async function getNFTTransfers(
 	return [
 		{
 			json: {
-				contractAddress,
+				contractAddress: formatAddress(contractAddress),
 				tokenId: tokenId || 'all',
-				page,
+				...(page === undefined ? {} : { page }),
 				transferCount: formattedTransfers.length,
 				transfers: formattedTransfers,
 			},
@@ -226,7 +181,7 @@ export async function getCollectionInfo(
 	const contractAddress = this.getNodeParameter('contractAddress', index) as string;
 
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
 	// Get collection name and symbol
@@ -248,8 +203,9 @@ export async function getCollectionInfo(
 				name = Buffer.from(nameHex, 'hex').toString('utf8').replace(/\0/g, '');
 			}
 		}
-	} catch {
-		// Name not available
+	} catch (error) {
+		// Reverts when the contract has no name()
+		if (!(error instanceof RevertedError)) throw error;
 	}
 
 	try {
@@ -266,8 +222,9 @@ export async function getCollectionInfo(
 				symbol = Buffer.from(symbolHex, 'hex').toString('utf8').replace(/\0/g, '');
 			}
 		}
-	} catch {
-		// Symbol not available
+	} catch (error) {
+		// Reverts when the contract has no symbol()
+		if (!(error instanceof RevertedError)) throw error;
 	}
 
 	try {
@@ -279,8 +236,9 @@ export async function getCollectionInfo(
 		if (supplyResult && supplyResult !== '0x') {
 			totalSupply = hexToDecimal(supplyResult);
 		}
-	} catch {
-		// Total supply not available
+	} catch (error) {
+		// Reverts when the contract has no totalSupply()
+		if (!(error instanceof RevertedError)) throw error;
 	}
 
 	// Check contract interfaces
@@ -297,8 +255,9 @@ export async function getCollectionInfo(
 			'latest',
 		])) as string;
 		supportsERC721 = erc721Check === '0x0000000000000000000000000000000000000000000000000000000000000001';
-	} catch {
-		// Interface check failed
+	} catch (error) {
+		// Reverts when the contract does not implement ERC-165
+		if (!(error instanceof RevertedError)) throw error;
 	}
 
 	try {
@@ -312,14 +271,15 @@ export async function getCollectionInfo(
 		])) as string;
 		supportsERC1155 =
 			erc1155Check === '0x0000000000000000000000000000000000000000000000000000000000000001';
-	} catch {
-		// Interface check failed
+	} catch (error) {
+		// Reverts when the contract does not implement ERC-165
+		if (!(error instanceof RevertedError)) throw error;
 	}
 
 	return [
 		{
 			json: {
-				contractAddress,
+				contractAddress: formatAddress(contractAddress),
 				name,
 				symbol,
 				totalSupply,
@@ -339,7 +299,7 @@ export async function getNFTOwners(
 	const tokenId = this.getNodeParameter('tokenId', index) as string;
 
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
 	// For ERC721, get the single owner
@@ -357,15 +317,16 @@ export async function getNFTOwners(
 		if (ownerResult && ownerResult !== '0x') {
 			owner = decodeAddress(ownerResult);
 		}
-	} catch {
+	} catch (error) {
 		// ERC1155 doesn't have ownerOf, skip for now
+		if (!(error instanceof RevertedError)) throw error;
 	}
 
 	if (owner) {
 		return [
 			{
 				json: {
-					contractAddress,
+					contractAddress: formatAddress(contractAddress),
 					tokenId,
 					type: 'ERC721',
 					owner,
@@ -407,14 +368,14 @@ export async function getNFTOwners(
 	const owners = Array.from(ownerBalances.entries())
 		.filter(([, balance]) => balance > BigInt(0))
 		.map(([address, balance]) => ({
-			address,
+			address: formatAddress(address),
 			balance: balance.toString(),
 		}));
 
 	return [
 		{
 			json: {
-				contractAddress,
+				contractAddress: formatAddress(contractAddress),
 				tokenId,
 				type: 'ERC1155',
 				ownerCount: owners.length,
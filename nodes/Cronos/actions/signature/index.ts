@@ -0,0 +1,151 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
+import { InvalidInputError } from '../../errors';
+import type { CronosCredentials } from '../../transport';
+import {
+	decimalToHex,
+	getPrimaryType,
+	hashMessage,
+	hashTypedData,
+	isSameAddress,
+	isValidAddress,
+	joinSignature,
+	privateKeyToAddress,
+	recoverAddress,
+	signHash,
+	splitSignature,
+	toChecksumAddress,
+} from '../../utils';
+import type { Signature, TypedData } from '../../utils';
+
+async function getSigningKey(this: IExecuteFunctions): Promise<string> {
+	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
+	if (!credentials.privateKey) {
+		throw new InvalidInputError(this.getNode(), 'Private key is required for signing');
+	}
+	return credentials.privateKey;
+}
+
+function getTypedData(this: IExecuteFunctions, index: number): TypedData {
+	const value = this.getNodeParameter('typedData', index) as string | IDataObject;
+	let typedData: TypedData;
+	try {
+		typedData = (typeof value === 'string' ? JSON.parse(value) : value) as unknown as TypedData;
+	} catch {
+		throw new InvalidInputError(this.getNode(), 'Invalid typed data JSON format');
+	}
+	if (!typedData || typeof typedData !== 'object' || !typedData.types || !typedData.message) {
+		throw new InvalidInputError(
+			this.getNode(),
+			'Typed data must be an object with types, domain and message',
+		);
+	}
+	return typedData;
+}
+
+function describeSignature(signature: Signature): IDataObject {
+	return {
+		signature: joinSignature(signature),
+		r: decimalToHex(signature.r),
+		s: decimalToHex(signature.s),
+		v: 27 + signature.recovery,
+	};
+}
+
+export async function signMessage(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const message = this.getNodeParameter('message', index) as string;
+	const privateKey = await getSigningKey.call(this);
+
+	const messageHash = hashMessage(message);
+
+	return [
+		{
+			json: {
+				address: privateKeyToAddress(privateKey),
+				message,
+				messageHash,
+				...describeSignature(signHash(messageHash, privateKey)),
+			},
+		},
+	];
+}
+
+export async function signTypedData(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const typedData = getTypedData.call(this, index);
+	const privateKey = await getSigningKey.call(this);
+
+	const hash = hashTypedData(typedData);
+
+	return [
+		{
+			json: {
+				address: privateKeyToAddress(privateKey),
+				primaryType: getPrimaryType(typedData),
+				hash,
+				...describeSignature(signHash(hash, privateKey)),
+			},
+		},
+	];
+}
+
+export async function verifySignature(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const signedData = this.getNodeParameter('signedData', index, 'message') as string;
+	const expectedAddress = (this.getNodeParameter('expectedAddress', index) as string).trim();
+
+	if (!isValidAddress(expectedAddress)) {
+		throw new InvalidInputError(this.getNode(), `Invalid expected address: ${expectedAddress}`);
+	}
+
+	let signature: Signature;
+	try {
+		signature = splitSignature(this.getNodeParameter('signature', index) as string);
+	} catch (error) {
+		throw new InvalidInputError(this.getNode(), (error as Error).message);
+	}
+
+	const hash =
+		signedData === 'typedData'
+			? hashTypedData(getTypedData.call(this, index))
+			: hashMessage(this.getNodeParameter('message', index) as string);
+
+	// A well-formed signature that matches no public key proves nothing, rather
+	// than being an error in the input
+	let signer: string | null;
+	try {
+		signer = recoverAddress(hash, signature);
+	} catch {
+		signer = null;
+	}
+
+	return [
+		{
+			json: {
+				valid: signer !== null && isSameAddress(signer, expectedAddress),
+				signer,
+				expectedAddress: toChecksumAddress(expectedAddress),
+				hash,
+			},
+		},
+	];
+}
+
+export const signatureOperations = {
+	signMessage,
+	signTypedData,
+	verifySignature,
+};
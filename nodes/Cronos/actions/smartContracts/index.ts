@@ -5,122 +5,429 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { jsonRpcRequest, cronosScanRequest } from '../../transport';
-import type { CronosCredentials } from '../../transport';
+import type {
+	IExecuteFunctions,
+	IDataObject,
+	ILoadOptionsFunctions,
+	INodeExecutionData,
+	INodePropertyOptions,
+	ResourceMapperFields,
+	ResourceMapperValue,
+} from 'n8n-workflow';
+import {
+	aggregate3,
+	cronosScanRequest,
+	decodeCustomError,
+	hasReturnData,
+	jsonRpcRequest,
+} from '../../transport';
+import { ExplorerError, InvalidInputError } from '../../errors';
 import {
 	hexToDecimal,
 	isValidAddress,
-	decodeUint256,
-	decodeAddress,
 	decimalToHex,
 	croToWei,
+	encodeArguments,
+	encodeFunctionData,
+	parseArguments,
+	decodeFunctionResult,
+	decodeRevertData,
+	findFragment,
+	formatBlockNumber,
+	formatFragmentSignature,
+	formatParameterType,
+	getFunctionSelector,
+	namedValues,
+	parseAbi,
+	parseAbiFragment,
+	parseAbiSignature,
+	hexToBytes,
+	keccak256,
+	quantityToBytes,
+	rlpEncode,
+	formatAddress,
+	lookupAddress,
+	toChecksumAddress,
 } from '../../utils';
-
-export async function getContractABI(
-	this: IExecuteFunctions,
-	index: number,
-): Promise<INodeExecutionData[]> {
-	const contractAddress = this.getNodeParameter('contractAddress', index) as string;
-
+import type { AbiFragment } from '../../utils';
+import { KNOWN_CONTRACTS } from '../../constants';
+import {
+	confirmSentTransaction,
+	describeFees,
+	getFeeOptions,
+	sendSignedTransaction,
+} from '../transactions';
+
+/**
+ * Fetch the verified ABI of a contract from CronosScan
+ */
+export async function fetchContractAbi(
+	this: IExecuteFunctions | ILoadOptionsFunctions,
+	contractAddress: string,
+): Promise<AbiFragment[]> {
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
 	const result = await cronosScanRequest.call(this, 'contract', 'getabi', {
 		address: contractAddress,
 	});
 
-	let abi: unknown[];
 	try {
-		abi = typeof result === 'string' ? JSON.parse(result) : result;
+		return parseAbi(typeof result === 'string' ? JSON.parse(result) : result);
 	} catch {
-		throw new Error(`Failed to parse ABI for contract: ${contractAddress}`);
+		throw new ExplorerError(this.getNode(), `Failed to parse ABI for contract: ${contractAddress}`);
 	}
+}
+
+// EIP-1967 storage slots: keccak256("eip1967.proxy.implementation") - 1 and
+// keccak256("eip1967.proxy.beacon") - 1
+const EIP1967_IMPLEMENTATION_SLOT =
+	'0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+const MAX_PROXY_DEPTH = 3;
+
+function slotAddress(value: unknown): string | null {
+	if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(value)) return null;
+	const address = '0x' + value.slice(-40).toLowerCase();
+	return /^0x0{40}$/.test(address) ? null : address;
+}
+
+/**
+ * Implementation behind an EIP-1967 proxy (directly or through a beacon)
+ */
+export async function getProxyImplementation(
+	this: IExecuteFunctions,
+	address: string,
+): Promise<string | null> {
+	const [implementationSlot, beaconSlot] = (await Promise.all([
+		jsonRpcRequest.call(this, 'eth_getStorageAt', [address, EIP1967_IMPLEMENTATION_SLOT, 'latest']),
+		jsonRpcRequest.call(this, 'eth_getStorageAt', [address, EIP1967_BEACON_SLOT, 'latest']),
+	])) as string[];
+
+	const implementation = slotAddress(implementationSlot);
+	if (implementation) return implementation;
+
+	const beacon = slotAddress(beaconSlot);
+	if (!beacon) return null;
+	const result = await jsonRpcRequest.call(this, 'eth_call', [
+		{ to: beacon, data: getFunctionSelector('implementation()') },
+		'latest',
+	]);
+	return slotAddress(result);
+}
+
+/**
+ * ABI of the contract at an address; for proxies, the ABI of the
+ * implementation. Results are memoised in `cache` so each contract is only
+ * fetched once per execution.
+ */
+export function fetchResolvedAbi(
+	this: IExecuteFunctions,
+	address: string,
+	cache: Map<string, Promise<AbiFragment[]>>,
+	depth = 0,
+): Promise<AbiFragment[]> {
+	const key = address.toLowerCase();
+	let abi = cache.get(key);
+
+	if (!abi) {
+		abi = getProxyImplementation.call(this, key).then((implementation) =>
+			implementation && implementation !== key && depth < MAX_PROXY_DEPTH
+				? fetchResolvedAbi.call(this, implementation, cache, depth + 1)
+				: fetchContractAbi.call(this, key),
+		);
+		cache.set(key, abi);
+	}
+	return abi;
+}
+
+/**
+ * ABI for the decode and read operations: pasted in the `abi` parameter, or
+ * fetched from CronosScan for the given contract
+ */
+export async function loadAbi(
+	this: IExecuteFunctions,
+	index: number,
+	contractAddress: string,
+): Promise<AbiFragment[]> {
+	const abiSource = this.getNodeParameter('abiSource', index, 'manual') as string;
+
+	if (abiSource === 'contract') {
+		return fetchContractAbi.call(this, contractAddress);
+	}
+	return parseAbi(this.getNodeParameter('abi', index) as string);
+}
+
+export async function getContractABI(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const contractAddress = this.getNodeParameter('contractAddress', index) as string;
+	const abi = await fetchContractAbi.call(this, contractAddress);
 
 	// Extract function and event signatures
-	const functions = (abi as IDataObject[])
+	const functions = abi
 		.filter((item) => item.type === 'function')
 		.map((item) => ({
 			name: item.name,
+			signature: formatFragmentSignature(item),
 			inputs: item.inputs,
 			outputs: item.outputs,
 			stateMutability: item.stateMutability,
 		}));
 
-	const events = (abi as IDataObject[])
+	const events = abi
 		.filter((item) => item.type === 'event')
 		.map((item) => ({
 			name: item.name,
+			signature: formatFragmentSignature(item),
 			inputs: item.inputs,
 		}));
 
 	return [
 		{
 			json: {
-				contractAddress,
-				abi,
+				contractAddress: formatAddress(contractAddress),
+				abi: abi as unknown as IDataObject[],
 				functionCount: functions.length,
 				eventCount: events.length,
-				functions,
-				events,
+				functions: functions as unknown as IDataObject[],
+				events: events as unknown as IDataObject[],
 			},
 		},
 	];
 }
 
+function isReadOnly(fragment: AbiFragment): boolean {
+	return (
+		fragment.type === 'function' &&
+		(fragment.stateMutability === 'view' || fragment.stateMutability === 'pure')
+	);
+}
+
+function formatOutputs(fragment: AbiFragment): string {
+	return (fragment.outputs || [])
+		.map((output) => [formatParameterType(output), output.name].filter((part) => part).join(' '))
+		.join(', ');
+}
+
+/**
+ * ABI of the contract being configured, for the load options methods below
+ */
+async function currentAbi(this: ILoadOptionsFunctions): Promise<AbiFragment[]> {
+	const abiSource = this.getCurrentNodeParameter('abiSource') as string;
+
+	if (abiSource === 'manual') {
+		return parseAbi((this.getCurrentNodeParameter('abi') as string) || '[]');
+	}
+	return fetchContractAbi.call(this, this.getCurrentNodeParameter('contractAddress') as string);
+}
+
+/**
+ * View and pure functions of the contract, keyed by canonical signature so
+ * overloads stay distinct
+ */
+export async function getReadFunctions(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const abi = await currentAbi.call(this);
+
+	return abi
+		.filter(isReadOnly)
+		.map((fragment) => ({
+			name: `${fragment.name}(${(fragment.inputs || [])
+				.map((input) => [formatParameterType(input), input.name].filter((part) => part).join(' '))
+				.join(', ')})`,
+			value: formatFragmentSignature(fragment),
+			description: `Returns (${formatOutputs(fragment)})`,
+		}))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * One input field per argument of the selected function
+ */
+export async function getFunctionInputs(
+	this: ILoadOptionsFunctions,
+): Promise<ResourceMapperFields> {
+	const functionName = this.getCurrentNodeParameter('functionName') as string;
+	if (!functionName) {
+		return { fields: [] };
+	}
+
+	const fragment = findFragment(await currentAbi.call(this), 'function', functionName);
+
+	return {
+		fields: (fragment.inputs || []).map((input, i) => {
+			const type = formatParameterType(input);
+			return {
+				id: input.name || String(i),
+				displayName: `${input.name || `Argument ${i + 1}`} (${type})`,
+				required: true,
+				defaultMatch: false,
+				display: true,
+				// Integers stay strings to keep full uint256 precision; arrays and tuples take JSON
+				type: type === 'bool' ? 'boolean' : 'string',
+			};
+		}),
+	};
+}
+
+/**
+ * Arguments entered in the function inputs mapper, in input order
+ */
+function mappedArguments(fragment: AbiFragment, mapped: ResourceMapperValue): unknown[] {
+	const values = mapped.value || {};
+
+	return (fragment.inputs || []).map((input, i) => {
+		const value = values[input.name || String(i)];
+		if (typeof value === 'string' && (input.type.endsWith(']') || input.type.startsWith('tuple'))) {
+			try {
+				return JSON.parse(value);
+			} catch {
+				throw new Error(`Invalid JSON for ${input.name || `argument ${i + 1}`}: ${value}`);
+			}
+		}
+		return value;
+	});
+}
+
 export async function readContract(
 	this: IExecuteFunctions,
 	index: number,
 ): Promise<INodeExecutionData[]> {
 	const contractAddress = this.getNodeParameter('contractAddress', index) as string;
-	const functionSignature = this.getNodeParameter('functionSignature', index) as string;
-	const functionParams = this.getNodeParameter('functionParams', index, '[]') as string;
+	const abiSource = this.getNodeParameter('abiSource', index, 'signature') as string;
 	const blockParameter = this.getNodeParameter('blockParameter', index, 'latest') as string;
 
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
-	let params: Array<{ type: string; value: string }>;
+	let abi: AbiFragment[] = [];
+	let fragment: AbiFragment | null;
+	let callData: string;
+	let params: IDataObject;
+
+	if (abiSource === 'signature') {
+		const functionSignature = this.getNodeParameter('functionSignature', index) as string;
+		const functionParams = this.getNodeParameter('functionParams', index, '[]') as string;
+
+		// Outputs are only known when the signature declares them, e.g. "... returns (uint256)"
+		fragment = /\breturns\b/.test(functionSignature) ? parseAbiFragment(functionSignature) : null;
+		callData = encodeFunctionData(functionSignature, functionParams);
+		params = parseArguments(functionParams) as IDataObject;
+	} else {
+		abi = await loadAbi.call(this, index, contractAddress);
+		const functionName = this.getNodeParameter('functionName', index) as string;
+		const mapped = this.getNodeParameter('functionInputs', index, {}) as ResourceMapperValue;
+
+		fragment = findFragment(abi, 'function', functionName);
+		const args = mappedArguments(fragment, mapped);
+		callData = encodeFunctionData(formatFragmentSignature(fragment), args);
+		params = namedValues(fragment.inputs || [], args) as IDataObject;
+	}
+
+	let result: string;
 	try {
-		params = JSON.parse(functionParams);
-	} catch {
-		params = [];
+		result = (await jsonRpcRequest.call(this, 'eth_call', [
+			{
+				to: contractAddress,
+				data: callData,
+			},
+			formatBlockNumber(blockParameter),
+		])) as string;
+	} catch (error) {
+		throw decodeCustomError(error, abi);
 	}
 
-	// Build the call data
-	let callData = functionSignature;
-	for (const param of params) {
-		if (param.type === 'address') {
-			callData += param.value.toLowerCase().replace('0x', '').padStart(64, '0');
-		} else if (param.type === 'uint256' || param.type.startsWith('uint')) {
-			callData += BigInt(param.value).toString(16).padStart(64, '0');
-		} else if (param.type === 'bool') {
-			callData += (param.value === 'true' || param.value === '1' ? '1' : '0').padStart(64, '0');
-		} else if (param.type === 'bytes32') {
-			callData += param.value.replace('0x', '').padEnd(64, '0');
-		}
+	if (this.getNodeParameter('simplify', index, true) === false) {
+		return [{ json: { result } }];
 	}
 
-	const result = (await jsonRpcRequest.call(this, 'eth_call', [
+	return [
 		{
-			to: contractAddress,
-			data: callData,
+			json: {
+				contractAddress: formatAddress(contractAddress),
+				functionSignature: fragment
+					? formatFragmentSignature(fragment)
+					: (this.getNodeParameter('functionSignature', index) as string),
+				parameters: params,
+				outputs: fragment ? (decodeFunctionResult(fragment, result) as IDataObject) : null,
+				rawResult: result,
+			},
 		},
-		blockParameter,
-	])) as string;
+	];
+}
+
+export async function multicall(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const calls = parseArguments(this.getNodeParameter('calls', index, '[]'));
+	const blockParameter = this.getNodeParameter('blockParameter', index, 'latest') as string;
+
+	if (!Array.isArray(calls) || calls.length === 0) {
+		throw new InvalidInputError(
+			this.getNode(),
+			'Calls must be a non-empty JSON array of { "target", "function", "args" } objects',
+		);
+	}
+
+	const prepared = (calls as IDataObject[]).map((call, i) => {
+		const target = call.target as string;
+		const signature = String(call.function || '');
+		if (!isValidAddress(target)) {
+			throw new InvalidInputError(
+				this.getNode(),
+				`Invalid target address in call ${i + 1}: ${target}`,
+			);
+		}
+		if (!signature) {
+			throw new InvalidInputError(this.getNode(), `Missing function in call ${i + 1}`);
+		}
+		return {
+			target,
+			signature,
+			// Outputs are only known when the signature declares them
+			fragment: /\breturns\b/.test(signature) ? parseAbiFragment(signature) : null,
+			callData: encodeFunctionData(signature, call.args ?? []),
+			allowFailure: call.allowFailure !== false,
+		};
+	});
+
+	const results = await aggregate3.call(
+		this,
+		prepared.map(({ target, callData, allowFailure }) => ({ target, callData, allowFailure })),
+		formatBlockNumber(blockParameter),
+	);
+
+	if (this.getNodeParameter('simplify', index, true) === false) {
+		return [{ json: { result: results as unknown as IDataObject[] } }];
+	}
 
 	return [
 		{
 			json: {
-				contractAddress,
-				functionSignature,
-				parameters: params,
-				rawResult: result,
-				decodedUint256: result && result !== '0x' ? decodeUint256(result) : null,
-				decodedAddress:
-					result && result !== '0x' && result.length >= 66 ? decodeAddress(result) : null,
+				callCount: prepared.length,
+				failedCount: results.filter((result) => !result.success).length,
+				results: prepared.map((call, i) => {
+					const { success, returnData } = results[i];
+					return {
+						target: call.target,
+						function: call.signature,
+						success,
+						outputs:
+							call.fragment && hasReturnData(results[i])
+								? (decodeFunctionResult(call.fragment, returnData) as IDataObject)
+								: null,
+						returnData,
+						...(success
+							? {}
+							: { revert: decodeRevertData(returnData) as unknown as IDataObject }),
+					};
+				}),
 			},
 		},
 	];
@@ -136,67 +443,37 @@ export async function writeContract(
 	const value = this.getNodeParameter('value', index, '0') as string;
 	const gasLimit = this.getNodeParameter('gasLimit', index, '') as string;
 
-	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
-
-	if (!credentials.privateKey) {
-		throw new Error('Private key is required for contract write operations');
-	}
-
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
-	}
-
-	let params: Array<{ type: string; value: string }>;
-	try {
-		params = JSON.parse(functionParams);
-	} catch {
-		params = [];
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
 	// Build the call data
-	let callData = functionSignature;
-	for (const param of params) {
-		if (param.type === 'address') {
-			callData += param.value.toLowerCase().replace('0x', '').padStart(64, '0');
-		} else if (param.type === 'uint256' || param.type.startsWith('uint')) {
-			callData += BigInt(param.value).toString(16).padStart(64, '0');
-		} else if (param.type === 'bool') {
-			callData += (param.value === 'true' || param.value === '1' ? '1' : '0').padStart(64, '0');
-		} else if (param.type === 'bytes32') {
-			callData += param.value.replace('0x', '').padEnd(64, '0');
-		}
-	}
-
-	// Estimate gas if not provided
-	let gas = gasLimit;
-	if (!gas) {
-		try {
-			const estimatedGas = (await jsonRpcRequest.call(this, 'eth_estimateGas', [
-				{
-					to: contractAddress,
-					data: callData,
-					value: value !== '0' ? decimalToHex(croToWei(value)) : '0x0',
-				},
-			])) as string;
-			gas = Math.floor(parseInt(hexToDecimal(estimatedGas), 10) * 1.2).toString();
-		} catch {
-			gas = '200000';
-		}
-	}
+	const callData = encodeFunctionData(functionSignature, functionParams);
+	const params = parseArguments(functionParams) as IDataObject;
+
+	const { transactionHash, from, txObject } = await sendSignedTransaction.call(this, {
+		to: contractAddress,
+		value: value !== '0' ? decimalToHex(croToWei(value)) : '0x0',
+		data: callData,
+		gasLimit,
+		...getFeeOptions.call(this, index),
+	});
 
-	// Note: Actual transaction signing would require ethers.js or similar
-	// For now, return prepared transaction data
 	return [
 		{
 			json: {
-				contractAddress,
+				transactionHash,
+				from,
+				contractAddress: formatAddress(contractAddress),
 				functionSignature,
 				parameters: params,
 				callData,
 				value,
-				estimatedGas: gas,
-				status: 'prepared',
-				note: 'Transaction signing requires ethers.js library. Use the prepared callData with your wallet.',
+				gasLimit: hexToDecimal(txObject.gas as string),
+				...describeFees(txObject),
+				nonce: hexToDecimal(txObject.nonce as string),
+				status: 'pending',
+				...(await confirmSentTransaction.call(this, index, transactionHash)),
 			},
 		},
 	];
@@ -209,18 +486,20 @@ export async function getContractSource(
 	const contractAddress = this.getNodeParameter('contractAddress', index) as string;
 
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
 	const result = (await cronosScanRequest.call(this, 'contract', 'getsourcecode', {
 		address: contractAddress,
 	})) as IDataObject[];
+	const knownContract = lookupAddress(KNOWN_CONTRACTS, contractAddress) ?? null;
 
 	if (!result || !Array.isArray(result) || result.length === 0) {
 		return [
 			{
 				json: {
-					contractAddress,
+					contractAddress: formatAddress(contractAddress),
+					knownContract,
 					verified: false,
 					message: 'Contract source code not verified',
 				},
@@ -233,7 +512,8 @@ export async function getContractSource(
 	return [
 		{
 			json: {
-				contractAddress,
+				contractAddress: formatAddress(contractAddress),
+				knownContract,
 				verified: contractInfo.SourceCode !== '',
 				contractName: contractInfo.ContractName,
 				compilerVersion: contractInfo.CompilerVersion,
@@ -262,7 +542,7 @@ export async function getContractEvents(
 	const topic0 = this.getNodeParameter('topic0', index, '') as string;
 
 	if (!isValidAddress(contractAddress)) {
-		throw new Error(`Invalid contract address: ${contractAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid contract address: ${contractAddress}`);
 	}
 
 	const filterParams: IDataObject = {
@@ -278,7 +558,7 @@ export async function getContractEvents(
 	const logs = (await jsonRpcRequest.call(this, 'eth_getLogs', [filterParams])) as IDataObject[];
 
 	const formattedLogs = logs.map((log) => ({
-		address: log.address,
+		address: formatAddress(log.address),
 		blockNumber: hexToDecimal(log.blockNumber as string),
 		blockHash: log.blockHash,
 		transactionHash: log.transactionHash,
@@ -292,7 +572,7 @@ export async function getContractEvents(
 	return [
 		{
 			json: {
-				contractAddress,
+				contractAddress: formatAddress(contractAddress),
 				fromBlock,
 				toBlock,
 				eventCount: formattedLogs.length,
@@ -308,63 +588,48 @@ export async function deployContract(
 ): Promise<INodeExecutionData[]> {
 	const bytecode = this.getNodeParameter('bytecode', index) as string;
 	const constructorParams = this.getNodeParameter('constructorParams', index, '[]') as string;
+	const constructorSignature = this.getNodeParameter('constructorSignature', index, '') as string;
 	const gasLimit = this.getNodeParameter('gasLimit', index, '') as string;
 	const value = this.getNodeParameter('value', index, '0') as string;
 
-	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
-
-	if (!credentials.privateKey) {
-		throw new Error('Private key is required for contract deployment');
-	}
-
-	let params: Array<{ type: string; value: string }>;
-	try {
-		params = JSON.parse(constructorParams);
-	} catch {
-		params = [];
-	}
+	// Constructor argument types come from the constructor signature when given
+	const inputs = constructorSignature ? parseAbiSignature(constructorSignature).inputs : null;
+	const params = parseArguments(constructorParams) as IDataObject;
 
 	// Build deployment data (bytecode + encoded constructor params)
-	let deployData = bytecode.startsWith('0x') ? bytecode : '0x' + bytecode;
-	for (const param of params) {
-		if (param.type === 'address') {
-			deployData += param.value.toLowerCase().replace('0x', '').padStart(64, '0');
-		} else if (param.type === 'uint256' || param.type.startsWith('uint')) {
-			deployData += BigInt(param.value).toString(16).padStart(64, '0');
-		} else if (param.type === 'bool') {
-			deployData += (param.value === 'true' || param.value === '1' ? '1' : '0').padStart(64, '0');
-		} else if (param.type === 'bytes32') {
-			deployData += param.value.replace('0x', '').padEnd(64, '0');
-		}
-	}
+	const bytecodeHex = bytecode.startsWith('0x') ? bytecode : '0x' + bytecode;
+	const deployData = bytecodeHex + encodeArguments(inputs, params).slice(2);
+
+	const { transactionHash, from, txObject } = await sendSignedTransaction.call(this, {
+		value: value !== '0' ? decimalToHex(croToWei(value)) : '0x0',
+		data: deployData,
+		gasLimit,
+		...getFeeOptions.call(this, index),
+	});
 
-	// Estimate gas if not provided
-	let gas = gasLimit;
-	if (!gas) {
-		try {
-			const estimatedGas = (await jsonRpcRequest.call(this, 'eth_estimateGas', [
-				{
-					data: deployData,
-					value: value !== '0' ? decimalToHex(croToWei(value)) : '0x0',
-				},
-			])) as string;
-			gas = Math.floor(parseInt(hexToDecimal(estimatedGas), 10) * 1.2).toString();
-		} catch {
-			gas = '3000000';
-		}
-	}
+	// The new contract's address follows from the deployer and its nonce
+	const contractAddress = toChecksumAddress(
+		'0x' +
+			keccak256(
+				rlpEncode([hexToBytes(from), quantityToBytes(txObject.nonce as string)]),
+			).slice(-40),
+	);
 
-	// Note: Actual deployment would require ethers.js or similar for signing
 	return [
 		{
 			json: {
+				transactionHash,
+				from,
+				contractAddress,
 				deployData,
 				constructorParams: params,
 				value,
-				estimatedGas: gas,
+				gasLimit: hexToDecimal(txObject.gas as string),
+				...describeFees(txObject),
+				nonce: hexToDecimal(txObject.nonce as string),
 				bytecodeLength: (deployData.length - 2) / 2,
-				status: 'prepared',
-				note: 'Contract deployment requires ethers.js library for signing. Use the prepared deployData with your wallet.',
+				status: 'pending',
+				...(await confirmSentTransaction.call(this, index, transactionHash)),
 			},
 		},
 	];
@@ -373,6 +638,7 @@ export async function deployContract(
 export const smartContractsOperations = {
 	getContractABI,
 	readContract,
+	multicall,
 	writeContract,
 	getContractSource,
 	getContractEvents,
@@ -6,93 +6,68 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
-import { jsonRpcRequest, cronosScanRequest } from '../../transport';
-import { hexToDecimal, weiToCro, isValidAddress } from '../../utils';
+import { aggregate3, cronosScanRequest, hasReturnData } from '../../transport';
+import { InvalidInputError } from '../../errors';
+import {
+	hexToDecimal,
+	weiToCro,
+	isValidAddress,
+	decodeString,
+	formatAddress,
+	lookupAddress,
+} from '../../utils';
 import { FUNCTION_SIGNATURES, KNOWN_TOKENS } from '../../constants';
 
-export async function getTokenInfo(
-	this: IExecuteFunctions,
-	index: number,
-): Promise<INodeExecutionData[]> {
-	const tokenAddress = this.getNodeParameter('tokenAddress', index) as string;
-
+// Name, symbol, decimals and total supply of a token, read in one multicall
+async function readTokenInfo(this: IExecuteFunctions, tokenAddress: string): Promise<IDataObject> {
 	if (!isValidAddress(tokenAddress)) {
-		throw new Error(`Invalid token address: ${tokenAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid token address: ${tokenAddress}`);
 	}
 
 	// Check if it's a known token
-	const knownToken = KNOWN_TOKENS[tokenAddress];
-
-	// Get token details from contract
-	const calls = [
-		{ to: tokenAddress, data: FUNCTION_SIGNATURES.name },
-		{ to: tokenAddress, data: FUNCTION_SIGNATURES.symbol },
-		{ to: tokenAddress, data: FUNCTION_SIGNATURES.decimals },
-		{ to: tokenAddress, data: FUNCTION_SIGNATURES.totalSupply },
-	];
-
-	const results = await Promise.all(
-		calls.map((call) =>
-			jsonRpcRequest.call(this, 'eth_call', [call, 'latest']).catch(() => '0x'),
-		),
+	const knownToken = lookupAddress(KNOWN_TOKENS, tokenAddress);
+
+	// Get token details from contract in one multicall
+	const [nameResult, symbolResult, decimalsResult, totalSupplyResult] = await aggregate3.call(
+		this,
+		[
+			FUNCTION_SIGNATURES.name,
+			FUNCTION_SIGNATURES.symbol,
+			FUNCTION_SIGNATURES.decimals,
+			FUNCTION_SIGNATURES.totalSupply,
+		].map((callData) => ({ target: tokenAddress, callData })),
 	);
 
-	let name = knownToken?.name || 'Unknown';
-	let symbol = knownToken?.symbol || 'UNKNOWN';
-	let decimals = knownToken?.decimals || 18;
-	let totalSupply = '0';
-
-	// Decode name
-	if (results[0] && results[0] !== '0x' && (results[0] as string).length > 2) {
-		try {
-			const hexStr = (results[0] as string).replace('0x', '');
-			if (hexStr.length >= 128) {
-				const length = parseInt(hexStr.slice(64, 128), 16);
-				const nameHex = hexStr.slice(128, 128 + length * 2);
-				name = Buffer.from(nameHex, 'hex').toString('utf8').replace(/\0/g, '');
-			}
-		} catch {
-			// Keep default
-		}
-	}
-
-	// Decode symbol
-	if (results[1] && results[1] !== '0x' && (results[1] as string).length > 2) {
-		try {
-			const hexStr = (results[1] as string).replace('0x', '');
-			if (hexStr.length >= 128) {
-				const length = parseInt(hexStr.slice(64, 128), 16);
-				const symbolHex = hexStr.slice(128, 128 + length * 2);
-				symbol = Buffer.from(symbolHex, 'hex').toString('utf8').replace(/\0/g, '');
-			}
-		} catch {
-			// Keep default
-		}
-	}
-
-	// Decode decimals
-	if (results[2] && results[2] !== '0x') {
-		decimals = parseInt(hexToDecimal(results[2] as string), 10) || 18;
-	}
-
-	// Decode total supply
-	if (results[3] && results[3] !== '0x') {
-		const totalSupplyRaw = hexToDecimal(results[3] as string);
-		totalSupply = weiToCro(totalSupplyRaw, decimals);
-	}
+	const name = hasReturnData(nameResult)
+		? decodeString(nameResult.returnData)
+		: knownToken?.name || 'Unknown';
+	const symbol = hasReturnData(symbolResult)
+		? decodeString(symbolResult.returnData)
+		: knownToken?.symbol || 'UNKNOWN';
+	const decodedDecimals = hasReturnData(decimalsResult)
+		? parseInt(hexToDecimal(decimalsResult.returnData), 10)
+		: NaN;
+	const decimals = Number.isNaN(decodedDecimals) ? (knownToken?.decimals ?? 18) : decodedDecimals;
+	const totalSupply = hasReturnData(totalSupplyResult)
+		? weiToCro(hexToDecimal(totalSupplyResult.returnData), decimals)
+		: '0';
+
+	return {
+		address: formatAddress(tokenAddress),
+		name,
+		symbol,
+		decimals,
+		totalSupply,
+		isKnownToken: !!knownToken,
+	};
+}
 
-	return [
-		{
-			json: {
-				address: tokenAddress,
-				name,
-				symbol,
-				decimals,
-				totalSupply,
-				isKnownToken: !!knownToken,
-			},
-		},
-	];
+export async function getTokenInfo(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const tokenAddress = this.getNodeParameter('contractAddress', index) as string;
+	return [{ json: await readTokenInfo.call(this, tokenAddress) }];
 }
 
 export async function getTokenHolders(
@@ -104,7 +79,7 @@ export async function getTokenHolders(
 	const offset = this.getNodeParameter('offset', index, 100) as number;
 
 	if (!isValidAddress(tokenAddress)) {
-		throw new Error(`Invalid token address: ${tokenAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid token address: ${tokenAddress}`);
 	}
 
 	// Get token transfers to find holders (approximation)
@@ -116,7 +91,7 @@ export async function getTokenHolders(
 
 	const holders = Array.isArray(result)
 		? result.map((holder) => ({
-				address: holder.TokenHolderAddress,
+				address: formatAddress(holder.TokenHolderAddress),
 				balance: holder.TokenHolderQuantity,
 			}))
 		: [];
@@ -124,7 +99,7 @@ export async function getTokenHolders(
 	return [
 		{
 			json: {
-				tokenAddress,
+				tokenAddress: formatAddress(tokenAddress),
 				page,
 				holderCount: holders.length,
 				holders,
@@ -145,7 +120,7 @@ export async function getTokenTransfers(
 	const sort = this.getNodeParameter('sort', index, 'desc') as string;
 
 	if (!isValidAddress(tokenAddress)) {
-		throw new Error(`Invalid token address: ${tokenAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid token address: ${tokenAddress}`);
 	}
 
 	const result = (await cronosScanRequest.call(this, 'token', 'tokentx', {
@@ -162,8 +137,8 @@ export async function getTokenTransfers(
 				hash: transfer.hash,
 				blockNumber: transfer.blockNumber,
 				timestamp: transfer.timeStamp,
-				from: transfer.from,
-				to: transfer.to,
+				from: formatAddress(transfer.from),
+				to: formatAddress(transfer.to),
 				value: weiToCro(
 					transfer.value as string,
 					parseInt(transfer.tokenDecimal as string, 10) || 18,
@@ -177,7 +152,7 @@ export async function getTokenTransfers(
 	return [
 		{
 			json: {
-				tokenAddress,
+				tokenAddress: formatAddress(tokenAddress),
 				page,
 				transferCount: transfers.length,
 				transfers,
@@ -193,21 +168,20 @@ export async function getTokenPrice(
 	const tokenAddress = this.getNodeParameter('tokenAddress', index) as string;
 
 	if (!isValidAddress(tokenAddress)) {
-		throw new Error(`Invalid token address: ${tokenAddress}`);
+		throw new InvalidInputError(this.getNode(), `Invalid token address: ${tokenAddress}`);
 	}
 
 	// Try to get price from DEX (VVS Finance) - simplified approach
 	// In production, you'd integrate with a price oracle or DEX API
-	const knownToken = KNOWN_TOKENS[tokenAddress];
+	const knownToken = lookupAddress(KNOWN_TOKENS, tokenAddress);
 
 	// Get token info first
-	const tokenInfo = await getTokenInfo.call(this, index);
-	const tokenData = tokenInfo[0].json;
+	const tokenData = await readTokenInfo.call(this, tokenAddress);
 
 	return [
 		{
 			json: {
-				address: tokenAddress,
+				address: formatAddress(tokenAddress),
 				name: tokenData.name,
 				symbol: tokenData.symbol,
 				decimals: tokenData.decimals,
@@ -6,7 +6,14 @@
  */
 
 import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
+import { sleep } from 'n8n-workflow';
 import { jsonRpcRequest } from '../../transport';
+import {
+	InsufficientFundsError,
+	InvalidInputError,
+	NonceTooLowError,
+	RevertedError,
+} from '../../errors';
 import type { CronosCredentials } from '../../transport';
 import {
 	hexToDecimal,
@@ -17,8 +24,91 @@ import {
 	isValidAddress,
 	calculateTxFee,
 	formatGasPrice,
+	bytesToHex,
+	hexToBytes,
+	keccak256,
+	privateKeyToAddress,
+	quantityToBytes,
+	recoverAddress,
+	rlpDecode,
+	rlpEncode,
+	signHash,
+	decodeEventLog,
+	decodeFunctionData,
+	formatAddress,
+	isSameAddress,
+	toChecksumAddress,
 } from '../../utils';
+import type { AbiFragment, RlpDecoded, RlpInput } from '../../utils';
 import { getChainId } from '../../transport';
+import { fetchResolvedAbi } from '../smartContracts';
+
+/**
+ * Decode a transaction's input with the ABI of the contract it was sent to
+ * (the implementation, for proxies). Plain transfers and contract creations
+ * have nothing to decode.
+ */
+export async function decodeTransactionInput(
+	this: IExecuteFunctions,
+	tx: IDataObject,
+	abiCache: Map<string, Promise<AbiFragment[]>> = new Map(),
+): Promise<IDataObject> {
+	const input = tx.input as string;
+	if (!tx.to || !input || input === '0x') {
+		return { decodedInput: null };
+	}
+
+	try {
+		const abi = await fetchResolvedAbi.call(this, tx.to as string, abiCache);
+		const decoded = decodeFunctionData(abi, input);
+		return {
+			decodedInput: {
+				functionName: decoded.name,
+				signature: decoded.signature,
+				selector: decoded.selector,
+				args: decoded.args as IDataObject,
+			},
+		};
+	} catch (error) {
+		// Unverified contracts and unknown selectors are reported, not fatal
+		return { decodedInput: null, decodeError: (error as Error).message };
+	}
+}
+
+/**
+ * Decode every log of a receipt with the ABI of the contract that emitted it
+ */
+export async function decodeReceiptLogs(
+	this: IExecuteFunctions,
+	receipt: IDataObject,
+	abiCache: Map<string, Promise<AbiFragment[]>> = new Map(),
+): Promise<IDataObject[]> {
+	const logs = (Array.isArray(receipt.logs) ? receipt.logs : []) as IDataObject[];
+
+	return Promise.all(
+		logs.map(async (log) => {
+			const base = {
+				logIndex: log.logIndex ? hexToDecimal(log.logIndex as string) : null,
+				address: formatAddress(log.address),
+			};
+			try {
+				const abi = await fetchResolvedAbi.call(this, log.address as string, abiCache);
+				const decoded = decodeEventLog(abi, {
+					topics: log.topics as string[],
+					data: log.data as string,
+				});
+				return {
+					...base,
+					eventName: decoded.name,
+					signature: decoded.signature,
+					args: decoded.args as IDataObject,
+				};
+			} catch (error) {
+				return { ...base, eventName: null, decodeError: (error as Error).message };
+			}
+		}),
+	);
+}
 
 export async function getTransaction(
 	this: IExecuteFunctions,
@@ -27,23 +117,26 @@ export async function getTransaction(
 	const txHash = this.getNodeParameter('txHash', index) as string;
 
 	if (!isValidTxHash(txHash)) {
-		throw new Error(`Invalid transaction hash format: ${txHash}`);
+		throw new InvalidInputError(this.getNode(), `Invalid transaction hash format: ${txHash}`);
 	}
 
 	const tx = (await jsonRpcRequest.call(this, 'eth_getTransactionByHash', [txHash])) as IDataObject;
 
 	if (!tx) {
-		throw new Error(`Transaction not found: ${txHash}`);
+		throw new InvalidInputError(this.getNode(), `Transaction not found: ${txHash}`);
 	}
 
+	const decodeInput = this.getNodeParameter('decodeInput', index, false) as boolean;
+	const decoded = decodeInput ? await decodeTransactionInput.call(this, tx) : {};
+
 	return [
 		{
 			json: {
 				hash: tx.hash,
 				blockHash: tx.blockHash,
 				blockNumber: tx.blockNumber ? hexToDecimal(tx.blockNumber as string) : null,
-				from: tx.from,
-				to: tx.to,
+				from: formatAddress(tx.from),
+				to: formatAddress(tx.to),
 				value: weiToCro(hexToDecimal(tx.value as string)),
 				valueWei: hexToDecimal(tx.value as string),
 				gas: hexToDecimal(tx.gas as string),
@@ -57,6 +150,7 @@ export async function getTransaction(
 				type: tx.type ? hexToDecimal(tx.type as string) : '0',
 				chainId: tx.chainId ? hexToDecimal(tx.chainId as string) : null,
 				isPending: tx.blockNumber === null,
+				...decoded,
 			},
 		},
 	];
@@ -69,7 +163,7 @@ export async function getTransactionReceipt(
 	const txHash = this.getNodeParameter('txHash', index) as string;
 
 	if (!isValidTxHash(txHash)) {
-		throw new Error(`Invalid transaction hash format: ${txHash}`);
+		throw new InvalidInputError(this.getNode(), `Invalid transaction hash format: ${txHash}`);
 	}
 
 	const receipt = (await jsonRpcRequest.call(this, 'eth_getTransactionReceipt', [
@@ -77,7 +171,7 @@ export async function getTransactionReceipt(
 	])) as IDataObject;
 
 	if (!receipt) {
-		throw new Error(`Transaction receipt not found: ${txHash}`);
+		throw new InvalidInputError(this.getNode(), `Transaction receipt not found: ${txHash}`);
 	}
 
 	const gasUsed = hexToDecimal(receipt.gasUsed as string);
@@ -85,6 +179,7 @@ export async function getTransactionReceipt(
 		? hexToDecimal(receipt.effectiveGasPrice as string)
 		: '0';
 	const txFee = calculateTxFee(receipt.gasUsed as string, receipt.effectiveGasPrice as string);
+	const decodeLogs = this.getNodeParameter('decodeLogs', index, false) as boolean;
 
 	return [
 		{
@@ -92,9 +187,9 @@ export async function getTransactionReceipt(
 				transactionHash: receipt.transactionHash,
 				blockHash: receipt.blockHash,
 				blockNumber: hexToDecimal(receipt.blockNumber as string),
-				from: receipt.from,
-				to: receipt.to,
-				contractAddress: receipt.contractAddress,
+				from: formatAddress(receipt.from),
+				to: formatAddress(receipt.to),
+				contractAddress: formatAddress(receipt.contractAddress),
 				gasUsed,
 				cumulativeGasUsed: hexToDecimal(receipt.cumulativeGasUsed as string),
 				effectiveGasPrice,
@@ -104,6 +199,7 @@ export async function getTransactionReceipt(
 				statusCode: receipt.status,
 				logsCount: Array.isArray(receipt.logs) ? receipt.logs.length : 0,
 				logs: receipt.logs,
+				...(decodeLogs ? { decodedLogs: await decodeReceiptLogs.call(this, receipt) } : {}),
 				type: receipt.type ? hexToDecimal(receipt.type as string) : '0',
 			},
 		},
@@ -118,87 +214,37 @@ export async function sendTransaction(
 	const value = this.getNodeParameter('value', index) as string;
 	const data = this.getNodeParameter('data', index, '0x') as string;
 	const gasLimit = this.getNodeParameter('gasLimit', index, '') as string;
-	const gasPrice = this.getNodeParameter('gasPrice', index, '') as string;
 	const nonce = this.getNodeParameter('nonce', index, '') as string;
 
-	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
-
-	if (!credentials.privateKey) {
-		throw new Error('Private key is required for sending transactions');
-	}
-
 	if (!isValidAddress(to)) {
-		throw new Error(`Invalid recipient address: ${to}`);
-	}
-
-	// Get nonce if not provided
-	let txNonce = nonce;
-	if (!txNonce) {
-		const from = await getAddressFromPrivateKey(credentials.privateKey);
-		const nonceResult = (await jsonRpcRequest.call(this, 'eth_getTransactionCount', [
-			from,
-			'pending',
-		])) as string;
-		txNonce = nonceResult;
-	}
-
-	// Get gas price if not provided
-	let txGasPrice = gasPrice;
-	if (!txGasPrice) {
-		const gasPriceResult = (await jsonRpcRequest.call(this, 'eth_gasPrice', [])) as string;
-		txGasPrice = gasPriceResult;
+		throw new InvalidInputError(this.getNode(), `Invalid recipient address: ${to}`);
 	}
 
 	// Convert value to wei
 	const valueWei = croToWei(value);
 
-	// Prepare transaction object
-	const txObject: IDataObject = {
+	const { transactionHash, from, txObject } = await sendSignedTransaction.call(this, {
 		to,
 		value: decimalToHex(valueWei),
 		data: data || '0x',
-		nonce: txNonce.startsWith('0x') ? txNonce : decimalToHex(txNonce),
-		gasPrice: txGasPrice.startsWith('0x') ? txGasPrice : decimalToHex(txGasPrice),
-		chainId: getChainId(credentials),
-	};
-
-	// Estimate gas if not provided
-	if (!gasLimit) {
-		try {
-			const estimatedGas = (await jsonRpcRequest.call(this, 'eth_estimateGas', [
-				{
-					from: await getAddressFromPrivateKey(credentials.privateKey),
-					to,
-					value: txObject.value,
-					data: txObject.data,
-				},
-			])) as string;
-			// Add 20% buffer
-			const gasWithBuffer = Math.floor(parseInt(hexToDecimal(estimatedGas), 10) * 1.2);
-			txObject.gas = decimalToHex(gasWithBuffer);
-		} catch {
-			txObject.gas = decimalToHex(21000);
-		}
-	} else {
-		txObject.gas = gasLimit.startsWith('0x') ? gasLimit : decimalToHex(gasLimit);
-	}
-
-	// Sign and send transaction
-	const signedTx = await signTransaction(txObject, credentials.privateKey);
-	const txHash = (await jsonRpcRequest.call(this, 'eth_sendRawTransaction', [signedTx])) as string;
+		gasLimit,
+		nonce,
+		...getFeeOptions.call(this, index),
+	});
 
 	return [
 		{
 			json: {
-				transactionHash: txHash,
-				from: await getAddressFromPrivateKey(credentials.privateKey),
-				to,
+				transactionHash,
+				from,
+				to: formatAddress(to),
 				value,
 				valueWei,
 				gasLimit: hexToDecimal(txObject.gas as string),
-				gasPrice: formatGasPrice(txObject.gasPrice as string),
+				...describeFees(txObject),
 				nonce: hexToDecimal(txObject.nonce as string),
 				status: 'pending',
+				...(await confirmSentTransaction.call(this, index, transactionHash)),
 			},
 		},
 	];
@@ -214,7 +260,7 @@ export async function estimateGas(
 	const data = this.getNodeParameter('data', index, '0x') as string;
 
 	if (!isValidAddress(to)) {
-		throw new Error(`Invalid recipient address: ${to}`);
+		throw new InvalidInputError(this.getNode(), `Invalid recipient address: ${to}`);
 	}
 
 	const txObject: IDataObject = {
@@ -258,7 +304,7 @@ export async function getTransactionStatus(
 	const txHash = this.getNodeParameter('txHash', index) as string;
 
 	if (!isValidTxHash(txHash)) {
-		throw new Error(`Invalid transaction hash format: ${txHash}`);
+		throw new InvalidInputError(this.getNode(), `Invalid transaction hash format: ${txHash}`);
 	}
 
 	// Get transaction
@@ -284,8 +330,8 @@ export async function getTransactionStatus(
 					transactionHash: txHash,
 					status: 'pending',
 					message: 'Transaction is pending confirmation',
-					from: tx.from,
-					to: tx.to,
+					from: formatAddress(tx.from),
+					to: formatAddress(tx.to),
 					value: weiToCro(hexToDecimal(tx.value as string)),
 				},
 			},
@@ -312,8 +358,8 @@ export async function getTransactionStatus(
 				status: isSuccess ? 'confirmed' : 'failed',
 				blockNumber: txBlockNumber,
 				confirmations,
-				from: tx.from,
-				to: tx.to,
+				from: formatAddress(tx.from),
+				to: formatAddress(tx.to),
 				value: weiToCro(hexToDecimal(tx.value as string)),
 				gasUsed: receipt ? hexToDecimal(receipt.gasUsed as string) : null,
 				transactionFee: receipt
@@ -324,29 +370,899 @@ export async function getTransactionStatus(
 	];
 }
 
-// Helper function to get address from private key (simplified)
-async function getAddressFromPrivateKey(_privateKey: string): Promise<string> {
-	// In a real implementation, this would derive the address from the private key
-	// using secp256k1 and keccak256
-	// For now, we'll throw an error indicating this needs proper implementation
-	throw new Error(
-		'Transaction signing requires the ethers.js library. Please ensure your n8n installation includes ethers for full transaction support.',
+export type TransactionType = 'legacy' | 'eip2930' | 'eip1559';
+
+export interface AccessListItem {
+	address: string;
+	storageKeys: string[];
+}
+
+export interface TransactionRequest {
+	to?: string;
+	value: string;
+	data: string;
+	gasLimit?: string;
+	nonce?: string;
+	type?: TransactionType;
+	gasPrice?: string;
+	maxFeePerGas?: string;
+	maxPriorityFeePerGas?: string;
+	accessList?: AccessListItem[];
+}
+
+// Envelope type byte of each transaction type, as reported by JSON-RPC
+const TRANSACTION_TYPES: Record<TransactionType, string> = {
+	legacy: '0x0',
+	eip2930: '0x1',
+	eip1559: '0x2',
+};
+
+function toQuantity(value: string): string {
+	return value.startsWith('0x') ? value : decimalToHex(value);
+}
+
+/**
+ * Read the transaction type and fee parameters shared by all signing operations
+ */
+export function getFeeOptions(
+	this: IExecuteFunctions,
+	index: number,
+): Pick<TransactionRequest, 'type' | 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'accessList'> {
+	const type = this.getNodeParameter('transactionType', index, 'legacy') as TransactionType;
+
+	if (type === 'legacy') {
+		return { type, gasPrice: this.getNodeParameter('gasPrice', index, '') as string };
+	}
+
+	const rawAccessList = this.getNodeParameter('accessList', index, '[]') as string | AccessListItem[];
+	let accessList: AccessListItem[];
+	try {
+		accessList = typeof rawAccessList === 'string' ? JSON.parse(rawAccessList || '[]') : rawAccessList;
+	} catch {
+		throw new InvalidInputError(this.getNode(), 'Invalid access list JSON format');
+	}
+	if (
+		!Array.isArray(accessList) ||
+		!accessList.every((item) => isValidAddress(item.address) && Array.isArray(item.storageKeys))
+	) {
+		throw new InvalidInputError(
+			this.getNode(),
+			'Access list must be an array of { "address", "storageKeys" } objects',
+		);
+	}
+
+	if (type === 'eip2930') {
+		return { type, accessList, gasPrice: this.getNodeParameter('gasPrice', index, '') as string };
+	}
+
+	return {
+		type,
+		accessList,
+		maxFeePerGas: this.getNodeParameter('maxFeePerGas', index, '') as string,
+		maxPriorityFeePerGas: this.getNodeParameter('maxPriorityFeePerGas', index, '') as string,
+	};
+}
+
+/**
+ * Suggest EIP-1559 fees: the priority fee is the average median tip of recent
+ * blocks (eth_feeHistory) and the max fee leaves room for the base fee to double
+ */
+export async function getEip1559Fees(
+	this: IExecuteFunctions,
+): Promise<{ baseFeePerGas: string; maxFeePerGas: string; maxPriorityFeePerGas: string }> {
+	const [latestBlock, history] = (await Promise.all([
+		jsonRpcRequest.call(this, 'eth_getBlockByNumber', ['latest', false]),
+		jsonRpcRequest.call(this, 'eth_feeHistory', ['0x5', 'latest', [50]]),
+	])) as [IDataObject, IDataObject];
+
+	if (!latestBlock || !latestBlock.baseFeePerGas) {
+		throw new InvalidInputError(
+			this.getNode(),
+			'The network does not report a base fee. Use a legacy transaction instead.',
+		);
+	}
+	const baseFee = BigInt(latestBlock.baseFeePerGas as string);
+
+	const tips = ((history && (history.reward as string[][])) || [])
+		.map((reward) => BigInt(reward[0]))
+		.filter((tip) => tip > BigInt(0));
+
+	let priorityFee: bigint;
+	if (tips.length > 0) {
+		priorityFee = tips.reduce((sum, tip) => sum + tip, BigInt(0)) / BigInt(tips.length);
+	} else {
+		priorityFee = BigInt(
+			(await jsonRpcRequest.call(this, 'eth_maxPriorityFeePerGas', [])) as string,
+		);
+	}
+
+	return {
+		baseFeePerGas: decimalToHex(baseFee),
+		maxFeePerGas: decimalToHex(baseFee * BigInt(2) + priorityFee),
+		maxPriorityFeePerGas: decimalToHex(priorityFee),
+	};
+}
+
+/**
+ * Fee fields of a prepared transaction, in Gwei, for operation output
+ */
+export function describeFees(txObject: IDataObject): IDataObject {
+	if (txObject.type === TRANSACTION_TYPES.eip1559) {
+		return {
+			type: 'eip1559',
+			maxFeePerGas: formatGasPrice(txObject.maxFeePerGas as string),
+			maxPriorityFeePerGas: formatGasPrice(txObject.maxPriorityFeePerGas as string),
+		};
+	}
+	return {
+		type: txObject.type === TRANSACTION_TYPES.eip2930 ? 'eip2930' : 'legacy',
+		gasPrice: formatGasPrice(txObject.gasPrice as string),
+	};
+}
+
+/**
+ * Derive the sender address from the credential's private key
+ */
+export async function getAddressFromPrivateKey(privateKey: string): Promise<string> {
+	return privateKeyToAddress(privateKey);
+}
+
+/**
+ * Sign a transaction and return it RLP-encoded, ready for eth_sendRawTransaction.
+ * Legacy transactions use EIP-155 replay protection; EIP-2930 (type 1) and
+ * EIP-1559 (type 2) transactions are wrapped in their typed envelope.
+ */
+export async function signTransaction(txObject: IDataObject, privateKey: string): Promise<string> {
+	const type = (txObject.type as string) || TRANSACTION_TYPES.legacy;
+	const chainId = Number(txObject.chainId);
+	const to = txObject.to ? hexToBytes(txObject.to as string) : new Uint8Array(0);
+	const value = quantityToBytes((txObject.value as string) || '0x0');
+	const data = hexToBytes((txObject.data as string) || '0x');
+	const nonce = quantityToBytes(txObject.nonce as string);
+	const gas = quantityToBytes(txObject.gas as string);
+
+	if (type === TRANSACTION_TYPES.legacy) {
+		const fields = [nonce, quantityToBytes(txObject.gasPrice as string), gas, to, value, data];
+		const signingHash = keccak256(
+			rlpEncode([...fields, quantityToBytes(chainId), new Uint8Array(0), new Uint8Array(0)]),
+		);
+		const { r, s, recovery } = signHash(signingHash, privateKey);
+		const v = chainId * 2 + 35 + recovery;
+
+		return bytesToHex(
+			rlpEncode([...fields, quantityToBytes(v), quantityToBytes(r), quantityToBytes(s)]),
+		);
+	}
+
+	const accessList = ((txObject.accessList as unknown as AccessListItem[]) || []).map((item) => [
+		hexToBytes(item.address),
+		item.storageKeys.map((key) => hexToBytes(key)),
+	]);
+
+	let fields: RlpInput[];
+	if (type === TRANSACTION_TYPES.eip1559) {
+		fields = [
+			quantityToBytes(chainId),
+			nonce,
+			quantityToBytes(txObject.maxPriorityFeePerGas as string),
+			quantityToBytes(txObject.maxFeePerGas as string),
+			gas,
+			to,
+			value,
+			data,
+			accessList,
+		];
+	} else if (type === TRANSACTION_TYPES.eip2930) {
+		fields = [
+			quantityToBytes(chainId),
+			nonce,
+			quantityToBytes(txObject.gasPrice as string),
+			gas,
+			to,
+			value,
+			data,
+			accessList,
+		];
+	} else {
+		throw new Error(`Unsupported transaction type: ${type}`);
+	}
+
+	// Typed envelope: type byte || rlp(fields), signed over the same bytes
+	const typePrefix = type.slice(2).padStart(2, '0');
+	const signingHash = keccak256('0x' + typePrefix + bytesToHex(rlpEncode(fields)).slice(2));
+	const { r, s, recovery } = signHash(signingHash, privateKey);
+
+	return (
+		'0x' +
+		typePrefix +
+		bytesToHex(
+			rlpEncode([...fields, quantityToBytes(recovery), quantityToBytes(r), quantityToBytes(s)]),
+		).slice(2)
 	);
 }
 
-// Helper function to sign transaction (simplified)
-async function signTransaction(_txObject: IDataObject, _privateKey: string): Promise<string> {
-	// In a real implementation, this would sign the transaction using the private key
-	// For now, we'll throw an error indicating this needs proper implementation
-	throw new Error(
-		'Transaction signing requires the ethers.js library. Please ensure your n8n installation includes ethers for full transaction support.',
+function bytesToQuantity(bytes: RlpDecoded): string {
+	if (Array.isArray(bytes)) {
+		throw new Error('Invalid transaction: expected a value, found a list');
+	}
+	return bytes.length === 0 ? '0x0' : decimalToHex(BigInt(bytesToHex(bytes)));
+}
+
+function bytesToAddress(bytes: RlpDecoded): string | null {
+	if (Array.isArray(bytes) || (bytes.length !== 0 && bytes.length !== 20)) {
+		throw new Error('Invalid transaction: malformed recipient address');
+	}
+	return bytes.length === 0 ? null : toChecksumAddress(bytesToHex(bytes));
+}
+
+function bytesToData(bytes: RlpDecoded): string {
+	if (Array.isArray(bytes)) {
+		throw new Error('Invalid transaction: expected data, found a list');
+	}
+	return bytesToHex(bytes);
+}
+
+function decodeAccessList(list: RlpDecoded): AccessListItem[] {
+	if (!Array.isArray(list)) {
+		throw new Error('Invalid transaction: malformed access list');
+	}
+	return list.map((item) => {
+		if (!Array.isArray(item) || item.length !== 2 || !Array.isArray(item[1])) {
+			throw new Error('Invalid transaction: malformed access list');
+		}
+		return {
+			address: bytesToAddress(item[0]) as string,
+			storageKeys: item[1].map(bytesToData),
+		};
+	});
+}
+
+/**
+ * Parse a signed legacy, EIP-2930 or EIP-1559 transaction, the inverse of
+ * signTransaction, and recover its sender. Fields are returned as in a
+ * JSON-RPC transaction object, with quantities in hex; `chainId` is null for
+ * legacy transactions signed without EIP-155 replay protection.
+ */
+export function decodeSignedTransaction(signedTransaction: string): IDataObject {
+	const bytes = hexToBytes(signedTransaction);
+	if (bytes.length === 0) {
+		throw new Error('Invalid transaction: no data');
+	}
+
+	// EIP-2718: typed envelopes start with the type byte, legacy ones with an RLP list
+	const typed = bytes[0] <= 0x7f;
+	const type = typed ? '0x' + bytes[0].toString(16) : TRANSACTION_TYPES.legacy;
+	const fields = rlpDecode(typed ? bytes.slice(1) : bytes);
+	if (!Array.isArray(fields)) {
+		throw new Error('Invalid transaction: expected an RLP list of fields');
+	}
+
+	const expectedFields: Record<string, number> = {
+		[TRANSACTION_TYPES.legacy]: 9,
+		[TRANSACTION_TYPES.eip2930]: 11,
+		[TRANSACTION_TYPES.eip1559]: 12,
+	};
+	if (!(type in expectedFields)) {
+		throw new Error(`Unsupported transaction type: ${type}`);
+	}
+	if (fields.length !== expectedFields[type]) {
+		throw new Error(
+			`Invalid transaction: expected ${expectedFields[type]} fields, found ${fields.length}`,
+		);
+	}
+
+	const [vField, rField, sField] = fields.slice(-3);
+	const r = BigInt(bytesToQuantity(rField));
+	const s = BigInt(bytesToQuantity(sField));
+	const v = Number(bytesToQuantity(vField));
+	const unsigned = fields.slice(0, -3);
+
+	let tx: IDataObject;
+	let chainId: number | null;
+	let recovery: number;
+	let signingPayload: string;
+
+	if (type === TRANSACTION_TYPES.legacy) {
+		const [nonce, gasPrice, gas, to, value, data] = unsigned;
+		tx = {
+			nonce: bytesToQuantity(nonce),
+			gasPrice: bytesToQuantity(gasPrice),
+			gas: bytesToQuantity(gas),
+			to: bytesToAddress(to),
+			value: bytesToQuantity(value),
+			data: bytesToData(data),
+		};
+
+		if (v === 27 || v === 28) {
+			chainId = null;
+			recovery = v - 27;
+			signingPayload = bytesToHex(rlpEncode(unsigned));
+		} else if (v >= 35) {
+			chainId = Math.floor((v - 35) / 2);
+			recovery = (v - 35) % 2;
+			signingPayload = bytesToHex(
+				rlpEncode([
+					...unsigned,
+					quantityToBytes(chainId),
+					new Uint8Array(0),
+					new Uint8Array(0),
+				]),
+			);
+		} else {
+			throw new Error(`Invalid transaction: unexpected signature v value ${v}`);
+		}
+	} else {
+		const eip1559 = type === TRANSACTION_TYPES.eip1559;
+		const [chainIdField, nonce, ...rest] = unsigned;
+		const fees = eip1559
+			? {
+					maxPriorityFeePerGas: bytesToQuantity(rest[0]),
+					maxFeePerGas: bytesToQuantity(rest[1]),
+				}
+			: { gasPrice: bytesToQuantity(rest[0]) };
+		const [gas, to, value, data, accessList] = rest.slice(eip1559 ? 2 : 1);
+		tx = {
+			nonce: bytesToQuantity(nonce),
+			...fees,
+			gas: bytesToQuantity(gas),
+			to: bytesToAddress(to),
+			value: bytesToQuantity(value),
+			data: bytesToData(data),
+			accessList: decodeAccessList(accessList) as unknown as IDataObject[],
+		};
+
+		chainId = Number(bytesToQuantity(chainIdField));
+		if (v > 1) {
+			throw new Error(`Invalid transaction: unexpected signature y parity ${v}`);
+		}
+		recovery = v;
+		signingPayload =
+			'0x' + type.slice(2).padStart(2, '0') + bytesToHex(rlpEncode(unsigned)).slice(2);
+	}
+
+	return {
+		type,
+		hash: keccak256(bytes),
+		from: recoverAddress(keccak256(signingPayload), { r, s, recovery }),
+		chainId,
+		...tx,
+		v: decimalToHex(v),
+		r: decimalToHex(r),
+		s: decimalToHex(s),
+	};
+}
+
+interface NonceState {
+	// Lowest nonce not handed out yet
+	next: number;
+	// Nonces handed out but not used, to be handed out again first
+	released: number[];
+	// Nonces handed out whose transaction is still being sent
+	inFlight: number;
+	updatedAt: number;
+}
+
+// Key of the workflow static data that records the next nonce of each sender
+const NONCE_STATIC_DATA_KEY = 'cronosNonces';
+// How long nonces the chain has not seen yet are trusted before they count as a gap
+const NONCE_GAP_TIMEOUT_MS = 60000;
+// Fresh nonces to try when the chain reports a managed nonce as already used
+const MAX_NONCE_ATTEMPTS = 3;
+
+// Nonce state of each sender, shared by all executions in this process
+const nonceStates = new Map<string, NonceState>();
+const nonceLocks = new Map<string, Promise<unknown>>();
+
+// Run `task` once all earlier tasks for the same sender have finished
+async function withNonceLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+	const run = (nonceLocks.get(key) ?? Promise.resolve()).then(task);
+	const settled = run.catch(() => undefined);
+	nonceLocks.set(key, settled);
+	try {
+		return await run;
+	} finally {
+		if (nonceLocks.get(key) === settled) {
+			nonceLocks.delete(key);
+		}
+	}
+}
+
+function getNonceState(this: IExecuteFunctions, key: string): NonceState {
+	let state = nonceStates.get(key);
+	if (!state) {
+		state = { next: 0, released: [], inFlight: 0, updatedAt: 0 };
+		nonceStates.set(key, state);
+	}
+
+	// Take over a newer record saved by an execution in another process. Static
+	// data is only persisted when an execution ends, so the record can predate
+	// nonces handed out here since and never moves the counter back
+	const records = this.getWorkflowStaticData('global')[NONCE_STATIC_DATA_KEY] as
+		| IDataObject
+		| undefined;
+	const saved = records?.[key] as IDataObject | undefined;
+	if (saved && Number(saved.updatedAt) > state.updatedAt) {
+		state.next = Math.max(state.next, Number(saved.next));
+		state.updatedAt = Number(saved.updatedAt);
+	}
+	return state;
+}
+
+function saveNonceState(this: IExecuteFunctions, key: string, state: NonceState): void {
+	state.updatedAt = Date.now();
+	const staticData = this.getWorkflowStaticData('global');
+	staticData[NONCE_STATIC_DATA_KEY] = {
+		...(staticData[NONCE_STATIC_DATA_KEY] as IDataObject),
+		[key]: { next: state.next, updatedAt: state.updatedAt },
+	};
+}
+
+/**
+ * Hand out the next nonce of `from`, so that items and concurrent executions
+ * in this process sending from one key never share a nonce. The chain's
+ * pending transaction count moves the counter forward when transactions were
+ * sent elsewhere, and back when handed-out nonces never reached the chain (a
+ * gap). Coordination is per process: executions running at the same time in
+ * another process are only seen once their transactions reach the node.
+ */
+export async function allocateNonce(
+	this: IExecuteFunctions,
+	from: string,
+	chainId: number,
+): Promise<number> {
+	const key = `${chainId}:${from.toLowerCase()}`;
+
+	return withNonceLock(key, async () => {
+		const chainNonce = Number(
+			await jsonRpcRequest.call(this, 'eth_getTransactionCount', [from, 'pending']),
+		);
+		const state = getNonceState.call(this, key);
+
+		const gap =
+			state.next > chainNonce &&
+			state.inFlight === 0 &&
+			Date.now() - state.updatedAt > NONCE_GAP_TIMEOUT_MS;
+		if (state.next < chainNonce || gap) {
+			state.next = chainNonce;
+		}
+		state.released = state.released.filter((nonce) => nonce >= chainNonce && nonce < state.next);
+
+		let nonce: number;
+		if (state.released.length > 0) {
+			nonce = Math.min(...state.released);
+			state.released = state.released.filter((released) => released !== nonce);
+		} else {
+			nonce = state.next++;
+		}
+		state.inFlight++;
+		saveNonceState.call(this, key, state);
+		return nonce;
+	});
+}
+
+/**
+ * Report the outcome of sending with a nonce from allocateNonce. Nonces of
+ * transactions that were not sent are handed out again.
+ */
+export async function releaseNonce(
+	this: IExecuteFunctions,
+	from: string,
+	chainId: number,
+	nonce: number,
+	used: boolean,
+): Promise<void> {
+	const key = `${chainId}:${from.toLowerCase()}`;
+
+	await withNonceLock(key, async () => {
+		const state = getNonceState.call(this, key);
+		state.inFlight = Math.max(0, state.inFlight - 1);
+		if (!used) {
+			if (nonce === state.next - 1) {
+				state.next = nonce;
+			} else if (nonce < state.next) {
+				state.released.push(nonce);
+			}
+		}
+		saveNonceState.call(this, key, state);
+	});
+}
+
+/**
+ * Move the counter of `from` up to the chain's pending transaction count, after
+ * a send whose outcome is unknown. A nonce that never reaches the chain is
+ * recovered later as a gap by allocateNonce.
+ */
+async function resyncNonce(this: IExecuteFunctions, from: string, chainId: number): Promise<void> {
+	const key = `${chainId}:${from.toLowerCase()}`;
+
+	await withNonceLock(key, async () => {
+		const chainNonce = Number(
+			await jsonRpcRequest.call(this, 'eth_getTransactionCount', [from, 'pending']),
+		);
+		const state = getNonceState.call(this, key);
+		state.next = Math.max(state.next, chainNonce);
+		state.released = state.released.filter((nonce) => nonce >= chainNonce);
+		saveNonceState.call(this, key, state);
+	});
+}
+
+// Errors proving that the node rejected a transaction, so that its nonce is still free
+function isRejection(error: unknown): boolean {
+	return error instanceof RevertedError || error instanceof InsufficientFundsError;
+}
+
+/**
+ * Fill in nonce, fees and gas limit where not given, sign with the
+ * credential's private key and broadcast the transaction. Nonces that are not
+ * given come from allocateNonce; when the chain reports one as already used by
+ * another transaction, a fresh one is allocated and the transaction is signed
+ * again. Only a rejection
+ * by the node frees the nonce; after any other failure it may be in use.
+ */
+export async function sendSignedTransaction(
+	this: IExecuteFunctions,
+	request: TransactionRequest,
+): Promise<{ transactionHash: string; from: string; txObject: IDataObject }> {
+	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
+
+	if (!credentials.privateKey) {
+		throw new InvalidInputError(this.getNode(), 'Private key is required for sending transactions');
+	}
+
+	const from = await getAddressFromPrivateKey(credentials.privateKey);
+	const type = request.type || 'legacy';
+
+	const chainId = getChainId(credentials);
+
+	const txObject: IDataObject = {
+		type: TRANSACTION_TYPES[type],
+		value: request.value,
+		data: request.data,
+		chainId,
+	};
+	if (request.to) {
+		txObject.to = request.to;
+	}
+	if (type !== 'legacy') {
+		txObject.accessList = (request.accessList || []) as unknown as IDataObject[];
+	}
+
+	if (type === 'eip1559') {
+		// Fill in whichever of the two fees was left empty
+		if (!request.maxFeePerGas || !request.maxPriorityFeePerGas) {
+			const suggested = await getEip1559Fees.call(this);
+			txObject.maxFeePerGas = request.maxFeePerGas
+				? toQuantity(request.maxFeePerGas)
+				: suggested.maxFeePerGas;
+			txObject.maxPriorityFeePerGas = request.maxPriorityFeePerGas
+				? toQuantity(request.maxPriorityFeePerGas)
+				: suggested.maxPriorityFeePerGas;
+		} else {
+			txObject.maxFeePerGas = toQuantity(request.maxFeePerGas);
+			txObject.maxPriorityFeePerGas = toQuantity(request.maxPriorityFeePerGas);
+		}
+	} else {
+		// Get gas price if not provided
+		txObject.gasPrice = request.gasPrice
+			? toQuantity(request.gasPrice)
+			: ((await jsonRpcRequest.call(this, 'eth_gasPrice', [])) as string);
+	}
+
+	// Estimate gas if not provided; a failing estimate means the transaction would fail too
+	if (!request.gasLimit) {
+		const estimatedGas = (await jsonRpcRequest.call(this, 'eth_estimateGas', [
+			{
+				from,
+				to: request.to,
+				value: request.value,
+				data: request.data,
+				...(txObject.accessList ? { accessList: txObject.accessList } : {}),
+			},
+		])) as string;
+		// Add 20% buffer
+		const gasWithBuffer = Math.floor(parseInt(hexToDecimal(estimatedGas), 10) * 1.2);
+		txObject.gas = decimalToHex(gasWithBuffer);
+	} else {
+		txObject.gas = toQuantity(request.gasLimit);
+	}
+
+	if (request.nonce) {
+		txObject.nonce = toQuantity(request.nonce);
+		const signedTx = await signTransaction(txObject, credentials.privateKey);
+		const transactionHash = (await jsonRpcRequest.call(this, 'eth_sendRawTransaction', [
+			signedTx,
+		])) as string;
+		return { transactionHash, from, txObject };
+	}
+
+	for (let attempt = 1; ; attempt++) {
+		const nonce = await allocateNonce.call(this, from, chainId);
+		txObject.nonce = decimalToHex(nonce);
+
+		let signedTx: string;
+		try {
+			signedTx = await signTransaction(txObject, credentials.privateKey);
+		} catch (error) {
+			await releaseNonce.call(this, from, chainId, nonce, false);
+			throw error;
+		}
+
+		let transactionHash: string;
+		try {
+			transactionHash = (await jsonRpcRequest.call(this, 'eth_sendRawTransaction', [
+				signedTx,
+			])) as string;
+		} catch (error) {
+			if (error instanceof NonceTooLowError) {
+				await releaseNonce.call(this, from, chainId, nonce, true);
+				// The chain also reports this transaction itself as "nonce too low" once it
+				// was accepted, e.g. by an earlier send that timed out: never send it twice
+				const sentHash = keccak256(signedTx);
+				if (await jsonRpcRequest.call(this, 'eth_getTransactionByHash', [sentHash])) {
+					return { transactionHash: sentHash, from, txObject };
+				}
+				if (attempt < MAX_NONCE_ATTEMPTS) {
+					continue;
+				}
+			} else if (isRejection(error)) {
+				await releaseNonce.call(this, from, chainId, nonce, false);
+			} else {
+				// The node may have accepted the transaction before the request
+				// failed, as with timeouts or "already known": keep the nonce as used
+				await releaseNonce.call(this, from, chainId, nonce, true);
+				await resyncNonce.call(this, from, chainId).catch(() => undefined);
+			}
+			throw error;
+		}
+
+		await releaseNonce.call(this, from, chainId, nonce, true);
+		return { transactionHash, from, txObject };
+	}
+}
+
+// How often the receipt of a sent transaction is polled while waiting for confirmations
+const CONFIRMATION_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Poll the receipt of a sent transaction until its block has `confirmations`
+ * blocks on top of it (counting itself) or `timeoutMs` has passed. A receipt
+ * whose block is no longer part of the chain, or that disappears again, means
+ * a reorg moved the transaction; it is reported as `reorged`, and as `dropped`
+ * when it has not been mined again by the timeout.
+ */
+export async function waitForConfirmations(
+	this: IExecuteFunctions,
+	transactionHash: string,
+	confirmations: number,
+	timeoutMs: number,
+): Promise<IDataObject> {
+	const deadline = Date.now() + timeoutMs;
+	let minedIn: string | null = null;
+	let reorgedFrom: string | null = null;
+	let depth = 0;
+
+	for (;;) {
+		const receipt = (await jsonRpcRequest.call(this, 'eth_getTransactionReceipt', [
+			transactionHash,
+		])) as IDataObject | null;
+
+		if (receipt) {
+			if (minedIn && receipt.blockHash !== minedIn) {
+				reorgedFrom = minedIn;
+			}
+			minedIn = receipt.blockHash as string;
+
+			const [head, block] = (await Promise.all([
+				jsonRpcRequest.call(this, 'eth_blockNumber', []),
+				jsonRpcRequest.call(this, 'eth_getBlockByNumber', [receipt.blockNumber, false]),
+			])) as [string, IDataObject | null];
+
+			if (!block || block.hash !== receipt.blockHash) {
+				// The node answered from a block that has since been replaced
+				reorgedFrom = minedIn;
+				minedIn = null;
+				depth = 0;
+			} else {
+				depth = Number(head) - Number(receipt.blockNumber) + 1;
+				if (depth >= confirmations) {
+					const gasUsed = receipt.gasUsed as string;
+					const effectiveGasPrice = receipt.effectiveGasPrice as string | undefined;
+					return {
+						status: receipt.status === '0x1' ? 'confirmed' : 'failed',
+						confirmations: depth,
+						blockNumber: hexToDecimal(receipt.blockNumber as string),
+						blockHash: receipt.blockHash,
+						gasUsed: hexToDecimal(gasUsed),
+						effectiveGasPrice: effectiveGasPrice ? formatGasPrice(effectiveGasPrice) : null,
+						fee: effectiveGasPrice ? calculateTxFee(gasUsed, effectiveGasPrice) : null,
+						logs: await decodeReceiptLogs.call(this, receipt),
+						reorged: reorgedFrom !== null,
+						...(reorgedFrom ? { previousBlockHash: reorgedFrom } : {}),
+						receipt,
+					};
+				}
+			}
+		} else if (minedIn) {
+			reorgedFrom = minedIn;
+			minedIn = null;
+			depth = 0;
+		}
+
+		const remaining = deadline - Date.now();
+		if (remaining <= 0) {
+			return {
+				status: reorgedFrom && !minedIn ? 'dropped' : 'pending',
+				confirmations: depth,
+				timedOut: true,
+				reorged: reorgedFrom !== null,
+				...(reorgedFrom ? { previousBlockHash: reorgedFrom } : {}),
+			};
+		}
+		await sleep(Math.min(CONFIRMATION_POLL_INTERVAL_MS, remaining));
+	}
+}
+
+/**
+ * Wait for the confirmations requested by the operation's Wait for
+ * Confirmations parameter; nothing to wait for when it is 0
+ */
+export async function confirmSentTransaction(
+	this: IExecuteFunctions,
+	index: number,
+	transactionHash: string,
+): Promise<IDataObject> {
+	const confirmations = this.getNodeParameter('confirmations', index, 0) as number;
+	if (!confirmations) {
+		return {};
+	}
+	const timeout = this.getNodeParameter('confirmationTimeout', index, 120) as number;
+	return waitForConfirmations.call(this, transactionHash, confirmations, timeout * 1000);
+}
+
+// Minimum fee increase nodes accept for a transaction that replaces another
+const MIN_FEE_BUMP_PERCENT = 10;
+
+// Raise a fee by `percent`, rounding up so the bump is never below it
+function bumpFee(fee: string, percent: number): bigint {
+	const hundred = BigInt(100);
+	return (BigInt(fee) * (hundred + BigInt(percent)) + hundred - BigInt(1)) / hundred;
+}
+
+function maxFee(a: bigint, b: bigint): bigint {
+	return a > b ? a : b;
+}
+
+/**
+ * Replace a pending transaction of the credential's key with one at the same
+ * nonce and fees raised enough to satisfy the replacement rules. A cancel
+ * replaces it with a 0-value transfer to the sender itself.
+ */
+async function replaceTransaction(
+	this: IExecuteFunctions,
+	index: number,
+	cancel: boolean,
+): Promise<INodeExecutionData[]> {
+	const txhash = this.getNodeParameter('txhash', index) as string;
+	const feeBump = Math.max(
+		MIN_FEE_BUMP_PERCENT,
+		this.getNodeParameter('feeBump', index, MIN_FEE_BUMP_PERCENT) as number,
+	);
+
+	if (!isValidTxHash(txhash)) {
+		throw new InvalidInputError(this.getNode(), `Invalid transaction hash: ${txhash}`);
+	}
+
+	const pending = (await jsonRpcRequest.call(this, 'eth_getTransactionByHash', [
+		txhash,
+	])) as IDataObject | null;
+	if (!pending) {
+		throw new InvalidInputError(this.getNode(), `Transaction not found: ${txhash}`);
+	}
+	if (pending.blockNumber) {
+		throw new InvalidInputError(
+			this.getNode(),
+			`Transaction ${txhash} was already mined in block ${hexToDecimal(pending.blockNumber as string)}`,
+		);
+	}
+
+	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
+	const from = pending.from as string;
+	if (
+		!credentials.privateKey ||
+		!isSameAddress(await getAddressFromPrivateKey(credentials.privateKey), from)
+	) {
+		throw new InvalidInputError(
+			this.getNode(),
+			`Transaction ${txhash} was not sent from the credential's address`,
+		);
+	}
+
+	const type = (Object.keys(TRANSACTION_TYPES) as TransactionType[]).find(
+		(key) => TRANSACTION_TYPES[key] === (pending.type || TRANSACTION_TYPES.legacy),
 	);
+	if (!type) {
+		throw new InvalidInputError(this.getNode(), `Unsupported transaction type: ${pending.type}`);
+	}
+
+	// The new fees must beat the pending ones by the bump and be no lower than
+	// what the network currently asks for
+	const fees: Partial<TransactionRequest> = {};
+	if (type === 'eip1559') {
+		const suggested = await getEip1559Fees.call(this);
+		const priorityFee = maxFee(
+			bumpFee(pending.maxPriorityFeePerGas as string, feeBump),
+			BigInt(suggested.maxPriorityFeePerGas),
+		);
+		fees.maxPriorityFeePerGas = decimalToHex(priorityFee);
+		fees.maxFeePerGas = decimalToHex(
+			maxFee(
+				maxFee(bumpFee(pending.maxFeePerGas as string, feeBump), BigInt(suggested.maxFeePerGas)),
+				priorityFee,
+			),
+		);
+	} else {
+		const gasPrice = (await jsonRpcRequest.call(this, 'eth_gasPrice', [])) as string;
+		fees.gasPrice = decimalToHex(
+			maxFee(bumpFee(pending.gasPrice as string, feeBump), BigInt(gasPrice)),
+		);
+	}
+
+	// A cancel is a plain 21000 gas transfer, which any access list would push over its gas limit
+	const { transactionHash, txObject } = await sendSignedTransaction.call(this, {
+		...(cancel
+			? { to: from, value: '0x0', data: '0x', gasLimit: '0x5208', accessList: [] }
+			: {
+					to: (pending.to as string | null) ?? undefined,
+					value: pending.value as string,
+					data: pending.input as string,
+					gasLimit: pending.gas as string,
+					accessList: (pending.accessList as unknown as AccessListItem[]) || [],
+				}),
+		nonce: pending.nonce as string,
+		type,
+		...fees,
+	});
+
+	return [
+		{
+			json: {
+				replacedTransactionHash: txhash,
+				transactionHash,
+				replacement: cancel ? 'cancel' : 'speedUp',
+				from: formatAddress(from),
+				to: formatAddress(txObject.to ?? null),
+				value: weiToCro(hexToDecimal(txObject.value as string)),
+				nonce: hexToDecimal(txObject.nonce as string),
+				gasLimit: hexToDecimal(txObject.gas as string),
+				...describeFees(txObject),
+				replacedFees: describeFees(pending),
+				status: 'pending',
+				...(await confirmSentTransaction.call(this, index, transactionHash)),
+			},
+		},
+	];
+}
+
+export async function speedUpTransaction(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	return replaceTransaction.call(this, index, false);
+}
+
+export async function cancelTransaction(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	return replaceTransaction.call(this, index, true);
 }
 
 export const transactionsOperations = {
 	getTransaction,
 	getTransactionReceipt,
 	sendTransaction,
+	speedUpTransaction,
+	cancelTransaction,
 	estimateGas,
 	getTransactionStatus,
 };
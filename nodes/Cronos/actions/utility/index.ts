@@ -5,19 +5,33 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
-import { jsonRpcRequest } from '../../transport';
+import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
+import {
+	checkRpcEndpoints,
+	cronosScanRequest,
+	getChainId,
+	getScanApiKey,
+	getScanApiUrl,
+} from '../../transport';
 import type { CronosCredentials } from '../../transport';
+import { InvalidInputError } from '../../errors';
 import {
 	weiToCro,
 	croToWei,
 	hexToDecimal,
 	decimalToHex,
-	decodeUint256,
-	decodeAddress,
-	isValidAddress,
+	decodeEventLog,
+	decodeFunctionData,
+	decodeFunctionResult,
+	decodeParameters,
+	findFragment,
+	formatFragmentSignature,
+	resolveFunctionSelector,
+	encodeFunctionData,
+	parseArguments,
 } from '../../utils';
-import { getRpcUrl, getScanApiUrl } from '../../transport';
+import { loadAbi } from '../smartContracts';
+import { decodeSignedTransaction, describeFees } from '../transactions';
 
 export async function convertUnits(
 	this: IExecuteFunctions,
@@ -102,51 +116,15 @@ export async function encodeFunction(
 	const functionSignature = this.getNodeParameter('functionSignature', index) as string;
 	const parameters = this.getNodeParameter('parameters', index, '[]') as string;
 
-	let params: Array<{ type: string; value: string }>;
-	try {
-		params = JSON.parse(parameters);
-	} catch {
-		throw new Error('Invalid parameters JSON format');
-	}
-
-	// Build encoded data
-	let encodedData = functionSignature;
-
-	for (const param of params) {
-		if (param.type === 'address') {
-			if (!isValidAddress(param.value)) {
-				throw new Error(`Invalid address: ${param.value}`);
-			}
-			encodedData += param.value.toLowerCase().replace('0x', '').padStart(64, '0');
-		} else if (param.type === 'uint256' || param.type.startsWith('uint') || param.type.startsWith('int')) {
-			const bigIntValue = BigInt(param.value);
-			encodedData += bigIntValue.toString(16).padStart(64, '0');
-		} else if (param.type === 'bool') {
-			const boolValue = param.value === 'true' || param.value === '1' ? '1' : '0';
-			encodedData += boolValue.padStart(64, '0');
-		} else if (param.type === 'bytes32') {
-			const bytesValue = param.value.replace('0x', '');
-			encodedData += bytesValue.padEnd(64, '0');
-		} else if (param.type === 'bytes') {
-			// Dynamic bytes encoding
-			const bytesValue = param.value.replace('0x', '');
-			const offset = (params.length * 32).toString(16).padStart(64, '0');
-			// Note: Full implementation would append length and data at the end
-			void bytesValue; // Mark as intentionally used
-			encodedData += offset;
-		} else if (param.type === 'string') {
-			// Dynamic string encoding (simplified)
-			// Note: Full implementation would encode string as bytes at the end
-			const offset = (params.length * 32).toString(16).padStart(64, '0');
-			encodedData += offset;
-		}
-	}
+	const selector = resolveFunctionSelector(functionSignature);
+	const encodedData = encodeFunctionData(functionSignature, parameters);
 
 	return [
 		{
 			json: {
 				functionSignature,
-				parameters: params,
+				selector,
+				parameters: parseArguments(parameters) as IDataObject,
 				encodedData,
 				dataLength: (encodedData.length - 2) / 2,
 			},
@@ -159,63 +137,93 @@ export async function decodeData(
 	index: number,
 ): Promise<INodeExecutionData[]> {
 	const data = this.getNodeParameter('data', index) as string;
-	const types = this.getNodeParameter('types', index, '') as string;
+	const decodeMode = this.getNodeParameter('decodeMode', index, 'parameters') as string;
+
+	if (decodeMode === 'parameters') {
+		const types = this.getNodeParameter('types', index, '') as string;
+		const cleanData = data.replace(/^0x/, '');
 
-	const cleanData = data.replace('0x', '');
+		// ABI data is a whole number of 32-byte words, so 4 extra bytes are a selector
+		const hasSelector = cleanData.length % 64 === 8;
+		const functionSelector = hasSelector ? '0x' + cleanData.slice(0, 8) : '';
+		const paramData = hasSelector ? cleanData.slice(8) : cleanData;
 
-	// Extract function selector if present
-	let functionSelector = '';
-	let paramData = cleanData;
+		let typeArray: string[];
+		try {
+			typeArray = types ? JSON.parse(types) : [];
+		} catch {
+			typeArray = types.split(',').map((t) => t.trim()).filter((t) => t);
+		}
 
-	if (cleanData.length >= 8) {
-		functionSelector = '0x' + cleanData.slice(0, 8);
-		paramData = cleanData.slice(8);
+		const values = decodeParameters(typeArray, paramData);
+
+		return [
+			{
+				json: {
+					originalData: data,
+					functionSelector,
+					parameterCount: values.length,
+					decodedValues: typeArray.map((type, i) => ({
+						type,
+						decoded: values[i],
+					})) as IDataObject[],
+				},
+			},
+		];
 	}
 
-	// Parse types
-	let typeArray: string[];
-	try {
-		typeArray = types ? JSON.parse(types) : [];
-	} catch {
-		typeArray = types.split(',').map((t) => t.trim()).filter((t) => t);
+	const contractAddress = this.getNodeParameter('contractAddress', index, '') as string;
+	const abi = await loadAbi.call(this, index, contractAddress);
+
+	if (decodeMode === 'calldata') {
+		const decoded = decodeFunctionData(abi, data);
+		return [
+			{
+				json: {
+					originalData: data,
+					functionName: decoded.name,
+					signature: decoded.signature,
+					selector: decoded.selector,
+					args: decoded.args as IDataObject,
+				},
+			},
+		];
 	}
 
-	// Decode each 32-byte chunk
-	const decodedValues: Array<{ type: string; raw: string; decoded: string }> = [];
-	const chunks = paramData.match(/.{1,64}/g) || [];
-
-	for (let i = 0; i < chunks.length; i++) {
-		const chunk = chunks[i].padEnd(64, '0');
-		const type = typeArray[i] || 'unknown';
-		let decoded: string;
-
-		if (type === 'address') {
-			decoded = decodeAddress('0x' + chunk);
-		} else if (type.startsWith('uint') || type.startsWith('int')) {
-			decoded = decodeUint256('0x' + chunk);
-		} else if (type === 'bool') {
-			decoded = parseInt(chunk, 16) === 1 ? 'true' : 'false';
-		} else if (type === 'bytes32') {
-			decoded = '0x' + chunk;
-		} else {
-			// Try to decode as uint256 by default
-			decoded = decodeUint256('0x' + chunk);
-		}
+	if (decodeMode === 'result') {
+		const functionName = this.getNodeParameter('functionName', index, '') as string;
+		const functions = abi.filter((fragment) => fragment.type === 'function');
+		const fragment =
+			!functionName && functions.length === 1
+				? functions[0]
+				: findFragment(abi, 'function', functionName);
+		return [
+			{
+				json: {
+					originalData: data,
+					functionName: fragment.name,
+					signature: formatFragmentSignature(fragment),
+					outputs: decodeFunctionResult(fragment, data) as IDataObject,
+				},
+			},
+		];
+	}
 
-		decodedValues.push({
-			type,
-			raw: '0x' + chunk,
-			decoded,
-		});
+	const topics = parseArguments(this.getNodeParameter('topics', index, '[]'));
+	if (!Array.isArray(topics)) {
+		throw new InvalidInputError(this.getNode(), 'Topics must be a JSON array of hex strings');
 	}
+	const decoded = decodeEventLog(abi, { topics: topics as string[], data });
 
 	return [
 		{
 			json: {
 				originalData: data,
-				functionSelector,
-				parameterCount: chunks.length,
-				decodedValues,
+				topics: topics as string[],
+				eventName: decoded.name,
+				signature: decoded.signature,
+				topic: decoded.topic,
+				args: decoded.args as IDataObject,
 			},
 		},
 	];
@@ -228,41 +236,21 @@ export async function getAPIHealth(
 	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
 
 	const startTime = Date.now();
-	let rpcHealthy = false;
-	let rpcLatency = 0;
+	let scanApiUrl: string | null = null;
 	let scanHealthy = false;
 	let scanLatency = 0;
-	let chainId = '';
-	let blockNumber = '';
 
-	// Test RPC endpoint
-	try {
-		const rpcStart = Date.now();
-		const [chainIdResult, blockNumberResult] = await Promise.all([
-			jsonRpcRequest.call(this, 'eth_chainId', []),
-			jsonRpcRequest.call(this, 'eth_blockNumber', []),
-		]);
-		rpcLatency = Date.now() - rpcStart;
-		rpcHealthy = true;
-		chainId = hexToDecimal(chainIdResult as string);
-		blockNumber = hexToDecimal(blockNumberResult as string);
-	} catch (error) {
-		rpcHealthy = false;
-	}
+	// Test every RPC endpoint; the first healthy one in configured order is reported
+	const endpoints = await checkRpcEndpoints.call(this);
+	const rpc = endpoints.find((endpoint) => endpoint.healthy) ?? endpoints[0];
 
-	// Test Cronos Scan API
+	// Test Cronos Scan API; a custom network may have no explorer configured
 	try {
+		scanApiUrl = getScanApiUrl(credentials);
 		const scanStart = Date.now();
-		const scanApiUrl = getScanApiUrl(credentials);
-		await this.helpers.httpRequest({
-			method: 'GET',
-			url: scanApiUrl,
-			qs: {
-				module: 'stats',
-				action: 'ethsupply',
-			},
-			json: true,
-		});
+		// Paced and keyed like every explorer call, but not retried: a check
+		// that has to retry reports the explorer as unhealthy
+		await cronosScanRequest.call(this, 'stats', 'ethsupply', {}, 'GET', { maxRetries: 0 });
 		scanLatency = Date.now() - scanStart;
 		scanHealthy = true;
 	} catch {
@@ -276,20 +264,21 @@ export async function getAPIHealth(
 			json: {
 				network: credentials.network,
 				rpc: {
-					endpoint: getRpcUrl(credentials),
-					healthy: rpcHealthy,
-					latencyMs: rpcLatency,
-					chainId,
-					currentBlock: blockNumber,
+					endpoint: rpc.url,
+					healthy: rpc.healthy,
+					latencyMs: rpc.latencyMs,
+					chainId: rpc.chainId,
+					currentBlock: rpc.currentBlock,
+					endpoints: endpoints as unknown as IDataObject[],
 				},
 				cronosScan: {
-					endpoint: getScanApiUrl(credentials),
+					endpoint: scanApiUrl,
 					healthy: scanHealthy,
 					latencyMs: scanLatency,
-					hasApiKey: !!credentials.cronosScanApiKey,
+					hasApiKey: !!getScanApiKey(credentials),
 				},
 				overall: {
-					healthy: rpcHealthy && scanHealthy,
+					healthy: rpc.healthy && scanHealthy,
 					totalLatencyMs: totalLatency,
 				},
 				timestamp: new Date().toISOString(),
@@ -298,9 +287,57 @@ export async function getAPIHealth(
 	];
 }
 
+export async function decodeRawTransaction(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const rawTransaction = (this.getNodeParameter('rawTransaction', index) as string).trim();
+	if (!/^0x([0-9a-fA-F]{2})+$/.test(rawTransaction)) {
+		throw new InvalidInputError(
+			this.getNode(),
+			'Raw transaction must be a 0x-prefixed hex string',
+		);
+	}
+
+	let tx: IDataObject;
+	try {
+		tx = decodeSignedTransaction(rawTransaction);
+	} catch (error) {
+		throw new InvalidInputError(this.getNode(), (error as Error).message);
+	}
+
+	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
+	const expectedChainId = getChainId(credentials);
+	const chainId = tx.chainId as number | null;
+
+	return [
+		{
+			json: {
+				hash: tx.hash,
+				from: tx.from,
+				to: tx.to,
+				nonce: Number(hexToDecimal(tx.nonce as string)),
+				value: weiToCro(hexToDecimal(tx.value as string)),
+				valueWei: hexToDecimal(tx.value as string),
+				gasLimit: hexToDecimal(tx.gas as string),
+				...describeFees(tx),
+				chainId,
+				expectedChainId,
+				// Pre-EIP-155 legacy transactions are valid on every chain
+				chainIdMismatch: chainId !== null && chainId !== expectedChainId,
+				replayProtected: chainId !== null,
+				data: tx.data,
+				...(tx.accessList ? { accessList: tx.accessList } : {}),
+				signature: { v: tx.v, r: tx.r, s: tx.s },
+			},
+		},
+	];
+}
+
 export const utilityOperations = {
 	convertUnits,
 	encodeFunction,
 	decodeData,
 	getAPIHealth,
+	decodeRawTransaction,
 };
@@ -159,7 +159,6 @@ export const KNOWN_CONTRACTS: Record<string, { name: string; type: string }> = {
 	'0x5C7F8A570d578ED84E63fdFA7b1eE72dEae1AE23': { name: 'Wrapped CRO', type: 'Token' },
 	'0x145863Eb42Cf62847A6Ca784e6416C1682b1b2Ae': { name: 'VVS Finance Router', type: 'DEX' },
 	'0x3B44B2a187a7b3824131F8db5a74194D0a42Fc15': { name: 'VVS Finance Factory', type: 'DEX' },
-	'0xaa0045c3fd3F3F1E1A7c9c0C3c0d0c3c0D0C3c0d': { name: 'Tectonic', type: 'Lending' },
 };
 
 export const NETWORK_EXPLORERS = {
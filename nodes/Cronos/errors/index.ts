@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { INode } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+
+/**
+ * Stable codes for the kinds of failure the Cronos nodes report. They are
+ * part of the continueOnFail output so that workflows can branch on them.
+ */
+export type CronosErrorCode =
+	| 'RPC_ERROR'
+	| 'EXPLORER_ERROR'
+	| 'INVALID_INPUT'
+	| 'EXECUTION_REVERTED'
+	| 'NONCE_TOO_LOW'
+	| 'INSUFFICIENT_FUNDS'
+	| 'RATE_LIMITED'
+	| 'UNKNOWN_ERROR';
+
+/**
+ * A JSON-RPC error response, or an RPC request that failed on every endpoint
+ */
+export class RpcError extends NodeApiError {
+	readonly code: CronosErrorCode = 'RPC_ERROR';
+
+	constructor(node: INode, message: string, description?: string) {
+		super(node, { message }, { message, description });
+	}
+}
+
+/**
+ * A call or transaction that the EVM reverted; `context.revert` holds the
+ * decoded reason
+ */
+export class RevertedError extends RpcError {
+	readonly code: CronosErrorCode = 'EXECUTION_REVERTED';
+}
+
+/**
+ * A transaction whose nonce has already been used by the sender
+ */
+export class NonceTooLowError extends RpcError {
+	readonly code: CronosErrorCode = 'NONCE_TOO_LOW';
+}
+
+/**
+ * A transaction the sender cannot pay the value and maximum fee for
+ */
+export class InsufficientFundsError extends RpcError {
+	readonly code: CronosErrorCode = 'INSUFFICIENT_FUNDS';
+}
+
+/**
+ * An explorer API request that failed or returned a NOTOK response
+ */
+export class ExplorerError extends NodeApiError {
+	readonly code: CronosErrorCode = 'EXPLORER_ERROR';
+
+	constructor(node: INode, message: string, description?: string) {
+		super(node, { message }, { message, description });
+	}
+}
+
+/**
+ * A request rejected by the RPC provider's or explorer's rate limit after all
+ * retries
+ */
+export class RateLimitedError extends NodeApiError {
+	readonly code: CronosErrorCode = 'RATE_LIMITED';
+
+	constructor(node: INode, message: string, description?: string) {
+		super(node, { message }, { message, description });
+	}
+}
+
+/**
+ * A parameter or credential value that cannot be used as given
+ */
+export class InvalidInputError extends NodeOperationError {
+	readonly code: CronosErrorCode = 'INVALID_INPUT';
+
+	constructor(node: INode, message: string | Error, description?: string) {
+		super(node, message, { description });
+	}
+}
+
+export function getErrorCode(error: unknown): CronosErrorCode {
+	if (
+		error instanceof RpcError ||
+		error instanceof ExplorerError ||
+		error instanceof RateLimitedError ||
+		error instanceof InvalidInputError
+	) {
+		return error.code;
+	}
+	return 'UNKNOWN_ERROR';
+}
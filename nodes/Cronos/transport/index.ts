@@ -5,8 +5,28 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, IHttpRequestMethods, IDataObject } from 'n8n-workflow';
-import { NodeApiError } from 'n8n-workflow';
+import type {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	IDataObject,
+	ILoadOptionsFunctions,
+	INode,
+	INodeCredentialTestResult,
+} from 'n8n-workflow';
+import { NodeApiError, sleep } from 'n8n-workflow';
+import {
+	ExplorerError,
+	InsufficientFundsError,
+	InvalidInputError,
+	NonceTooLowError,
+	RateLimitedError,
+	RevertedError,
+	RpcError,
+} from '../errors';
+import { decodeParameters, decodeRevertData, encodeFunctionData } from '../utils';
+import type { AbiFragment, DecodedRevert } from '../utils';
 
 export interface JsonRpcRequest {
 	jsonrpc: string;
@@ -27,44 +47,661 @@ export interface JsonRpcResponse {
 }
 
 export interface CronosCredentials {
-	network: 'mainnet' | 'testnet';
+	network: 'mainnet' | 'testnet' | 'custom';
 	rpcEndpoint: string;
+	fallbackRpcEndpoints?: string;
+	explorerApiUrl?: string;
+	chainId?: number;
+	rpcApiKey?: string;
+	rpcApiKeyLocation?: 'header' | 'query';
+	rpcApiKeyName?: string;
+	multicallAddress?: string;
 	privateKey: string;
 	cronosScanApiKey: string;
+	cronosScanTier?: 'free' | 'standard' | 'advanced' | 'professional' | 'custom';
+	cronosScanRateLimit?: number;
+	cronosScanMaxRetries?: number;
+	// Fields of credentials saved before the network options, used when the new ones are empty
+	rpcUrl?: string;
+	apiKey?: string;
 }
 
+export interface ScanResponse {
+	status: string;
+	message: string;
+	result: unknown;
+}
+
+export interface MulticallCall {
+	target: string;
+	callData: string;
+	allowFailure?: boolean;
+}
+
+export interface MulticallResult {
+	success: boolean;
+	returnData: string;
+}
+
+export interface RpcCall {
+	method: string;
+	params: unknown[];
+}
+
+export interface RpcEndpoint {
+	url: string;
+	headers: IDataObject;
+	qs: IDataObject;
+}
+
+export interface ScanRequestOptions {
+	// Retries of rate-limited and transient failures; the credentials' setting when omitted
+	maxRetries?: number;
+}
+
+export interface ScanPaginationOptions {
+	// Records to return at most; all records when omitted
+	limit?: number;
+	// Only records passing this check are returned and count towards the limit
+	filter?: (record: IDataObject) => boolean;
+}
+
+export interface RpcEndpointHealth {
+	requests: number;
+	failures: number;
+	consecutiveFailures: number;
+	// Moving averages, weighted towards recent requests
+	latencyMs: number | null;
+	errorRate: number;
+	headBlock: number | null;
+	lastError: string | null;
+	lastFailureAt: number | null;
+}
+
+export interface RpcEndpointStatus {
+	url: string;
+	healthy: boolean;
+	latencyMs: number | null;
+	chainId: string | null;
+	currentBlock: string | null;
+	stale: boolean;
+	error: string | null;
+	stats: RpcEndpointHealth;
+}
+
+// Multicall3 is deployed at the same address on most EVM chains
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const MULTICALL_BATCH_SIZE = 200;
+// Largest JSON-RPC batch sent when no batch size is configured
+const DEFAULT_RPC_BATCH_SIZE = 100;
+const RPC_TIMEOUT_MS = 30000;
+// Endpoints are skipped for this long after a failure, doubling per consecutive failure
+const FAILURE_COOLDOWN_MS = 15000;
+const MAX_FAILURE_COOLDOWN_MS = 300000;
+// Blocks an endpoint may lag behind the highest head seen before it counts as stale
+const STALE_HEAD_BLOCKS = 20;
+const HEALTH_SMOOTHING = 0.2;
+
+// Explorer API calls per second allowed by each API key tier
+const CRONOSCAN_TIER_RATE_LIMITS = {
+	free: 5,
+	standard: 10,
+	advanced: 20,
+	professional: 30,
+};
+const DEFAULT_CRONOSCAN_MAX_RETRIES = 3;
+// The explorer returns at most this many records for one query, across all pages
+const CRONOSCAN_RESULT_WINDOW = 10000;
+const CRONOSCAN_PAGE_SIZE = 1000;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 10000;
+
 const NETWORK_CONFIG = {
 	mainnet: {
 		rpcUrl: 'https://evm.cronos.org',
 		scanApiUrl: 'https://api.cronoscan.com/api',
+		explorerUrl: 'https://cronoscan.com',
 		chainId: 25,
+		multicallAddress: MULTICALL3_ADDRESS,
 	},
 	testnet: {
 		rpcUrl: 'https://evm-t3.cronos.org',
 		scanApiUrl: 'https://api-testnet.cronoscan.com/api',
+		explorerUrl: 'https://testnet.cronoscan.com',
 		chainId: 338,
+		multicallAddress: MULTICALL3_ADDRESS,
 	},
 };
 
 let requestId = 1;
 
+interface QueuedRpcCall extends RpcCall {
+	resolve: (response: JsonRpcResponse) => void;
+	reject: (error: unknown) => void;
+}
+
+interface RpcBatcher {
+	batchSize: number;
+	queue: QueuedRpcCall[];
+	scheduled: boolean;
+}
+
+// Request batching state per execution context, see enableRpcBatching
+const rpcBatchers = new WeakMap<object, RpcBatcher>();
+
+// Health of every RPC endpoint used by this process, keyed by URL
+const endpointHealth = new Map<string, RpcEndpointHealth>();
+
+
+interface TokenBucket {
+	capacity: number;
+	tokensPerMs: number;
+	tokens: number;
+	updatedAt: number;
+}
+
+// Explorer rate limiters, shared by all executions using the same API key
+const scanRateLimiters = new Map<string, TokenBucket>();
+
 export function getNetworkConfig(network: 'mainnet' | 'testnet') {
 	return NETWORK_CONFIG[network];
 }
 
 export function getRpcUrl(credentials: CronosCredentials): string {
-	if (credentials.rpcEndpoint) {
-		return credentials.rpcEndpoint;
+	if (credentials.rpcEndpoint || credentials.rpcUrl) {
+		return (credentials.rpcEndpoint || credentials.rpcUrl) as string;
 	}
-	return NETWORK_CONFIG[credentials.network].rpcUrl;
+	if (credentials.network === 'custom') {
+		throw new Error('An RPC endpoint is required when the network is set to Custom');
+	}
+	return NETWORK_CONFIG[credentials.network || 'mainnet'].rpcUrl;
 }
 
 export function getScanApiUrl(credentials: CronosCredentials): string {
-	return NETWORK_CONFIG[credentials.network].scanApiUrl;
+	if (credentials.explorerApiUrl) {
+		return credentials.explorerApiUrl;
+	}
+	if (credentials.network === 'custom') {
+		throw new Error('An explorer API URL is required when the network is set to Custom');
+	}
+	return NETWORK_CONFIG[credentials.network || 'mainnet'].scanApiUrl;
+}
+
+export function getScanApiKey(credentials: CronosCredentials): string {
+	return credentials.cronosScanApiKey || credentials.apiKey || '';
+}
+
+export function getExplorerUrl(credentials: CronosCredentials): string | null {
+	if (credentials.network === 'custom') {
+		return null;
+	}
+	return NETWORK_CONFIG[credentials.network || 'mainnet'].explorerUrl;
 }
 
 export function getChainId(credentials: CronosCredentials): number {
-	return NETWORK_CONFIG[credentials.network].chainId;
+	if (credentials.network === 'custom') {
+		if (!credentials.chainId) {
+			throw new Error('A chain ID is required when the network is set to Custom');
+		}
+		return Number(credentials.chainId);
+	}
+	return NETWORK_CONFIG[credentials.network || 'mainnet'].chainId;
+}
+
+export function getMulticallAddress(credentials: CronosCredentials): string {
+	if (credentials.multicallAddress) {
+		return credentials.multicallAddress;
+	}
+	if (credentials.network === 'custom') {
+		return MULTICALL3_ADDRESS;
+	}
+	return NETWORK_CONFIG[credentials.network || 'mainnet'].multicallAddress;
+}
+
+/**
+ * Primary RPC URL followed by the configured fallback endpoints, in order
+ */
+export function getRpcUrls(credentials: CronosCredentials): string[] {
+	const fallbacks = (credentials.fallbackRpcEndpoints || '')
+		.split(/[\s,]+/)
+		.filter((url) => url);
+	return [...new Set([getRpcUrl(credentials), ...fallbacks])];
+}
+
+/**
+ * Resolves the RPC URL together with the header or query parameter that
+ * carries the RPC provider's API key, if one is configured.
+ */
+export function getRpcEndpoint(credentials: CronosCredentials): RpcEndpoint {
+	return getRpcEndpoints(credentials)[0];
+}
+
+/**
+ * Every configured RPC endpoint, primary first. The RPC API key is sent to
+ * all of them.
+ */
+export function getRpcEndpoints(credentials: CronosCredentials): RpcEndpoint[] {
+	return getRpcUrls(credentials).map((url) => {
+		const endpoint: RpcEndpoint = { url, headers: {}, qs: {} };
+
+		if (credentials.rpcApiKey) {
+			if (credentials.rpcApiKeyLocation === 'query') {
+				endpoint.qs[credentials.rpcApiKeyName || 'apikey'] = credentials.rpcApiKey;
+			} else {
+				endpoint.headers[credentials.rpcApiKeyName || 'x-api-key'] = credentials.rpcApiKey;
+			}
+		} else if (credentials.apiKey) {
+			// Credentials saved before the RPC API key options sent their API key as a bearer token
+			endpoint.headers.Authorization = `Bearer ${credentials.apiKey}`;
+		}
+
+		return endpoint;
+	});
+}
+
+/**
+ * Request statistics of an RPC endpoint, as tracked by this process
+ */
+export function getEndpointHealth(url: string): RpcEndpointHealth {
+	let health = endpointHealth.get(url);
+	if (!health) {
+		health = {
+			requests: 0,
+			failures: 0,
+			consecutiveFailures: 0,
+			latencyMs: null,
+			errorRate: 0,
+			headBlock: null,
+			lastError: null,
+			lastFailureAt: null,
+		};
+		endpointHealth.set(url, health);
+	}
+	return health;
+}
+
+function smooth(average: number | null, value: number): number {
+	return average === null ? value : average + HEALTH_SMOOTHING * (value - average);
+}
+
+function recordSuccess(url: string, latencyMs: number): void {
+	const health = getEndpointHealth(url);
+	health.requests++;
+	health.consecutiveFailures = 0;
+	health.latencyMs = Math.round(smooth(health.latencyMs, latencyMs));
+	health.errorRate = smooth(health.errorRate, 0);
+}
+
+function recordFailure(url: string, error: string): void {
+	const health = getEndpointHealth(url);
+	health.requests++;
+	health.failures++;
+	health.consecutiveFailures++;
+	health.errorRate = smooth(health.errorRate, 1);
+	health.lastError = error;
+	health.lastFailureAt = Date.now();
+}
+
+function isCoolingDown(health: RpcEndpointHealth): boolean {
+	if (!health.consecutiveFailures || health.lastFailureAt === null) return false;
+	const cooldown = Math.min(
+		FAILURE_COOLDOWN_MS * 2 ** (health.consecutiveFailures - 1),
+		MAX_FAILURE_COOLDOWN_MS,
+	);
+	return Date.now() - health.lastFailureAt < cooldown;
+}
+
+/**
+ * Order endpoints by health: endpoints that failed recently go last, preceded
+ * by those whose last known head has fallen behind, and the rest by latency
+ * weighted by error rate. Endpoints that have not been used yet rank first so
+ * that they get measured; ties keep the configured order.
+ */
+function rankEndpoints(endpoints: RpcEndpoint[]): RpcEndpoint[] {
+	const score = (endpoint: RpcEndpoint) => {
+		const health = getEndpointHealth(endpoint.url);
+		return (health.latencyMs ?? 0) * (1 + 4 * health.errorRate);
+	};
+	const byScore = (a: RpcEndpoint, b: RpcEndpoint) => score(a) - score(b);
+	const coolingDown = endpoints.filter((endpoint) => isCoolingDown(getEndpointHealth(endpoint.url)));
+	const stale = endpoints.filter((endpoint) => {
+		const { headBlock } = getEndpointHealth(endpoint.url);
+		return (
+			!coolingDown.includes(endpoint) && headBlock !== null && isStaleHead(headBlock, endpoints)
+		);
+	});
+	const fresh = endpoints.filter(
+		(endpoint) => !coolingDown.includes(endpoint) && !stale.includes(endpoint),
+	);
+	return [...fresh.sort(byScore), ...stale.sort(byScore), ...coolingDown];
+}
+
+// Status fields set by n8n's request helpers and by the underlying HTTP client
+type HttpErrorFields = {
+	httpCode?: unknown;
+	statusCode?: unknown;
+	status?: unknown;
+	response?: { status?: unknown };
+};
+
+function httpStatus(error: unknown): number {
+	if (typeof error !== 'object' || error === null) {
+		return NaN;
+	}
+	const fields = error as HttpErrorFields;
+	return Number(fields.httpCode ?? fields.statusCode ?? fields.response?.status ?? fields.status);
+}
+
+/**
+ * Whether a failed HTTP request is worth retrying, possibly on another
+ * endpoint: timeouts and other network errors, rate limiting and server errors
+ */
+function isTransientError(error: unknown): boolean {
+	const status = httpStatus(error);
+	if (status) {
+		return status === 429 || status >= 500;
+	}
+	return true;
+}
+
+// A failed HTTP request to an RPC endpoint or the explorer as a typed error
+function requestError(
+	node: INode,
+	error: unknown,
+	ErrorClass: typeof RpcError | typeof ExplorerError,
+): NodeApiError {
+	const message = error instanceof Error ? error.message : String(error);
+	return httpStatus(error) === 429
+		? new RateLimitedError(node, message)
+		: new ErrorClass(node, message);
+}
+
+type JsonRpcError = NonNullable<JsonRpcResponse['error']>;
+
+// Whether a JSON-RPC error reports that the endpoint is rate limiting or over a usage limit
+function isRateLimitError(error: JsonRpcError): boolean {
+	return error.code === -32005 || /rate limit|too many requests|limit exceeded/i.test(error.message);
+}
+
+// Whether an endpoint answered with nothing but rate-limit errors over HTTP 200,
+// so that the same request may succeed on another endpoint
+function isRateLimitedResponse(response: unknown): boolean {
+	const responses = (Array.isArray(response) ? response : [response]) as JsonRpcResponse[];
+	return (
+		responses.length > 0 &&
+		responses.every((res) => !!res?.error && isRateLimitError(res.error))
+	);
+}
+
+// Head block reported by an eth_blockNumber call in a request, if any
+function reportedHead(body: JsonRpcRequest | JsonRpcRequest[], response: unknown): number | null {
+	const requests = Array.isArray(body) ? body : [body];
+	const responses = (Array.isArray(response) ? response : [response]) as JsonRpcResponse[];
+	const request = requests.find((req) => req.method === 'eth_blockNumber');
+	const match = request && responses.find((res) => res && res.id === request.id);
+	return typeof match?.result === 'string' ? parseInt(match.result, 16) : null;
+}
+
+// Whether an endpoint's head is far behind the highest head seen among its peers
+function isStaleHead(head: number, endpoints: RpcEndpoint[]): boolean {
+	const highest = Math.max(
+		...endpoints.map((endpoint) => getEndpointHealth(endpoint.url).headBlock ?? 0),
+	);
+	return highest - head > STALE_HEAD_BLOCKS;
+}
+
+// Methods that change state; the node may have acted on them even when the request failed
+const WRITE_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+function hasWriteMethod(body: JsonRpcRequest | JsonRpcRequest[]): boolean {
+	return (Array.isArray(body) ? body : [body]).some((req) => WRITE_METHODS.has(req.method));
+}
+
+/**
+ * POST a JSON-RPC payload, failing over to the next endpoint on timeouts,
+ * network errors, 429 and 5xx responses, rate-limit errors, or a head that has
+ * fallen behind. Endpoints whose last known head is behind are tried last.
+ * Payloads with a write method only fail over when the endpoint turned them
+ * away with 429, as it may have accepted them before any other failure.
+ */
+async function postRpc(
+	this: IExecuteFunctions,
+	body: JsonRpcRequest | JsonRpcRequest[],
+): Promise<unknown> {
+	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
+	const endpoints = getRpcEndpoints(credentials);
+	const ranked = rankEndpoints(endpoints);
+	const isWrite = hasWriteMethod(body);
+	let lastError: NodeApiError | undefined;
+
+	for (const [attempt, endpoint] of ranked.entries()) {
+		const isLast = attempt === ranked.length - 1;
+		const start = Date.now();
+		let response: unknown;
+
+		try {
+			response = await this.helpers.httpRequest({
+				method: 'POST' as IHttpRequestMethods,
+				url: endpoint.url,
+				headers: {
+					'Content-Type': 'application/json',
+					...endpoint.headers,
+				},
+				qs: endpoint.qs,
+				body,
+				json: true,
+				timeout: RPC_TIMEOUT_MS,
+			});
+		} catch (error) {
+			lastError = requestError(this.getNode(), error, RpcError);
+			if (!isTransientError(error)) throw lastError;
+			recordFailure(endpoint.url, lastError.message);
+			if (isLast || (isWrite && httpStatus(error) !== 429)) throw lastError;
+			continue;
+		}
+
+		if (isRateLimitedResponse(response)) {
+			recordFailure(endpoint.url, 'Rate limited');
+			if (isLast) return response;
+			continue;
+		}
+
+		const head = reportedHead(body, response);
+		if (head !== null) {
+			if (!isLast && isStaleHead(head, endpoints)) {
+				recordFailure(endpoint.url, `Stale head at block ${head}`);
+				continue;
+			}
+			getEndpointHealth(endpoint.url).headBlock = head;
+		}
+
+		recordSuccess(endpoint.url, Date.now() - start);
+		return response;
+	}
+
+	throw lastError;
+}
+
+/**
+ * Check every configured RPC endpoint directly, without failover, and report
+ * its chain ID and head together with the statistics tracked for it
+ */
+export async function checkRpcEndpoints(this: IExecuteFunctions): Promise<RpcEndpointStatus[]> {
+	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
+	const endpoints = getRpcEndpoints(credentials);
+
+	const statuses = await Promise.all(
+		endpoints.map(async (endpoint): Promise<RpcEndpointStatus> => {
+			const start = Date.now();
+			const status: RpcEndpointStatus = {
+				url: endpoint.url,
+				healthy: false,
+				latencyMs: null,
+				chainId: null,
+				currentBlock: null,
+				stale: false,
+				error: null,
+				stats: getEndpointHealth(endpoint.url),
+			};
+
+			try {
+				const responses = (await this.helpers.httpRequest({
+					method: 'POST' as IHttpRequestMethods,
+					url: endpoint.url,
+					headers: {
+						'Content-Type': 'application/json',
+						...endpoint.headers,
+					},
+					qs: endpoint.qs,
+					body: [
+						{ jsonrpc: '2.0', method: 'eth_chainId', params: [], id: 1 },
+						{ jsonrpc: '2.0', method: 'eth_blockNumber', params: [], id: 2 },
+					],
+					json: true,
+					timeout: RPC_TIMEOUT_MS,
+				})) as JsonRpcResponse[];
+
+				const chainId = responses.find((res) => res.id === 1);
+				const blockNumber = responses.find((res) => res.id === 2);
+				if (!chainId?.result || !blockNumber?.result) {
+					throw new Error((chainId?.error ?? blockNumber?.error)?.message ?? 'Invalid response');
+				}
+
+				status.latencyMs = Date.now() - start;
+				status.chainId = parseInt(chainId.result as string, 16).toString();
+				status.currentBlock = parseInt(blockNumber.result as string, 16).toString();
+				status.healthy = true;
+				recordSuccess(endpoint.url, status.latencyMs);
+				getEndpointHealth(endpoint.url).headBlock = Number(status.currentBlock);
+			} catch (error) {
+				status.error = error instanceof Error ? error.message : String(error);
+				recordFailure(endpoint.url, status.error);
+			}
+
+			status.stats = { ...getEndpointHealth(endpoint.url) };
+			return status;
+		}),
+	);
+
+	for (const status of statuses) {
+		if (status.healthy && isStaleHead(Number(status.currentBlock), endpoints)) {
+			status.stale = true;
+			status.healthy = false;
+		}
+	}
+
+	return statuses;
+}
+
+/**
+ * Credential test used by the Cronos nodes: calls eth_chainId on the
+ * configured endpoint and checks it against the selected network.
+ */
+export async function testCronosCredentials(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const credentials = credential.data as unknown as CronosCredentials;
+
+	try {
+		const endpoint = getRpcEndpoint(credentials);
+		const expectedChainId = getChainId(credentials);
+
+		const response = (await this.helpers.request({
+			method: 'POST',
+			uri: endpoint.url,
+			headers: { 'Content-Type': 'application/json', ...endpoint.headers },
+			qs: endpoint.qs,
+			body: { jsonrpc: '2.0', method: 'eth_chainId', params: [], id: 1 },
+			json: true,
+		})) as JsonRpcResponse;
+
+		if (response.error) {
+			return { status: 'Error', message: `JSON-RPC Error (${response.error.code}): ${response.error.message}` };
+		}
+
+		const chainId = parseInt(response.result as string, 16);
+		if (chainId !== expectedChainId) {
+			return {
+				status: 'Error',
+				message: `Endpoint reports chain ID ${chainId}, expected ${expectedChainId}`,
+			};
+		}
+	} catch (error) {
+		return { status: 'Error', message: error instanceof Error ? error.message : String(error) };
+	}
+
+	return { status: 'OK', message: 'Connection successful' };
+}
+
+/**
+ * Revert data carried by a JSON-RPC error, or null if the call did not revert.
+ * Nodes put it in `error.data`, some nested in `error.data.data`.
+ */
+function getRevertData(error: JsonRpcError): string | null {
+	if (error.code !== 3 && !/revert/i.test(error.message)) {
+		return null;
+	}
+	const data =
+		error.data && typeof error.data === 'object' ? (error.data as IDataObject).data : error.data;
+	const hex = typeof data === 'string' ? data.match(/0x(?:[0-9a-fA-F]{2})*/) : null;
+	return hex ? hex[0] : '0x';
+}
+
+/**
+ * Map a JSON-RPC error response to the matching error class
+ */
+function rpcError(node: INode, error: JsonRpcError): NodeApiError {
+	const revertData = getRevertData(error);
+	const description = `JSON-RPC Error (${error.code}): ${JSON.stringify(error.data || '')}`;
+
+	if (revertData === null) {
+		let typedError: NodeApiError;
+		if (/nonce too low/i.test(error.message)) {
+			typedError = new NonceTooLowError(node, error.message, description);
+		} else if (/insufficient funds/i.test(error.message)) {
+			typedError = new InsufficientFundsError(node, error.message, description);
+		} else if (isRateLimitError(error)) {
+			typedError = new RateLimitedError(node, error.message, description);
+		} else {
+			typedError = new RpcError(node, error.message, description);
+		}
+		typedError.context.rpcCode = error.code;
+		return typedError;
+	}
+
+	const revert = decodeRevertData(revertData);
+	// Without revert data, the node's own message may still carry the reason
+	const messageReason = error.message.match(/reverted:\s*(.+)$/i);
+	if (revertData === '0x' && messageReason) {
+		revert.reason = messageReason[1];
+	}
+
+	const revertError = new RevertedError(
+		node,
+		`Execution reverted: ${revert.reason}`,
+		`JSON-RPC Error (${error.code}): ${error.message}. Revert data: ${revertData}`,
+	);
+	revertError.context.rpcCode = error.code;
+	revertError.context.revert = revert as unknown as IDataObject;
+	return revertError;
+}
+
+/**
+ * Name custom errors in a revert error using the ABI of the called contract
+ */
+export function decodeCustomError(error: unknown, abi: AbiFragment[]): unknown {
+	if (!(error instanceof RevertedError)) return error;
+
+	const revert = error.context.revert as DecodedRevert | undefined;
+	if (!revert || revert.kind !== 'unknown' || revert.data === '0x') return error;
+
+	const decoded = decodeRevertData(revert.data, abi);
+	if (decoded.kind !== 'unknown') {
+		error.message = `Execution reverted: ${decoded.reason}`;
+		error.context.revert = decoded as unknown as IDataObject;
+	}
+	return error;
 }
 
 export async function jsonRpcRequest(
@@ -72,8 +709,22 @@ export async function jsonRpcRequest(
 	method: string,
 	params: unknown[] = [],
 ): Promise<unknown> {
-	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
-	const rpcUrl = getRpcUrl(credentials);
+	return (await jsonRpcResponse.call(this, method, params)).result;
+}
+
+/**
+ * Make a JSON-RPC call like `jsonRpcRequest`, but return the whole response
+ * object rather than only its result
+ */
+export async function jsonRpcResponse(
+	this: IExecuteFunctions,
+	method: string,
+	params: unknown[] = [],
+): Promise<JsonRpcResponse> {
+	const batcher = rpcBatchers.get(this);
+	if (batcher) {
+		return queueRpcCall.call(this, batcher, { method, params });
+	}
 
 	const body: JsonRpcRequest = {
 		jsonrpc: '2.0',
@@ -82,99 +733,375 @@ export async function jsonRpcRequest(
 		id: requestId++,
 	};
 
-	const response = await this.helpers.httpRequest({
-		method: 'POST' as IHttpRequestMethods,
-		url: rpcUrl,
-		headers: {
-			'Content-Type': 'application/json',
-		},
-		body,
-		json: true,
+	const response = (await postRpc.call(this, body)) as JsonRpcResponse;
+
+	if (response.error) {
+		throw rpcError(this.getNode(), response.error);
+	}
+
+	return response;
+}
+
+/**
+ * Send calls as one JSON-RPC batch. Servers may answer a batch in any order,
+ * so responses are matched to their calls by id and returned in call order;
+ * a call without a response gets an error response of its own.
+ */
+async function postRpcBatch(this: IExecuteFunctions, calls: RpcCall[]): Promise<JsonRpcResponse[]> {
+	const batchBody: JsonRpcRequest[] = calls.map((call) => ({
+		jsonrpc: '2.0',
+		method: call.method,
+		params: call.params,
+		id: requestId++,
+	}));
+
+	const response = await postRpc.call(this, batchBody);
+
+	// A batch rejected as a whole is answered with a single error object
+	if (!Array.isArray(response)) {
+		const error = (response as JsonRpcResponse | undefined)?.error;
+		throw rpcError(this.getNode(), error ?? { code: -32603, message: 'Invalid batch response' });
+	}
+
+	const responses = new Map<number, JsonRpcResponse>();
+	for (const res of response as JsonRpcResponse[]) {
+		responses.set(Number(res.id), res);
+	}
+
+	return batchBody.map(
+		(req) =>
+			responses.get(req.id) ?? {
+				jsonrpc: '2.0',
+				id: req.id,
+				error: { code: -32603, message: `No response to ${req.method} in the batch` },
+			},
+	);
+}
+
+/**
+ * Coalesce `jsonRpcRequest` calls made with this context into JSON-RPC batches
+ * of up to `batchSize` calls. A batch is sent once it is full, or once the
+ * calls that are currently in flight have all been queued.
+ */
+export function enableRpcBatching(this: IExecuteFunctions, batchSize: number): void {
+	rpcBatchers.set(this, {
+		batchSize: Math.max(1, Math.floor(batchSize)),
+		queue: [],
+		scheduled: false,
+	});
+}
+
+export function disableRpcBatching(this: IExecuteFunctions): void {
+	rpcBatchers.delete(this);
+}
+
+function queueRpcCall(
+	this: IExecuteFunctions,
+	batcher: RpcBatcher,
+	call: RpcCall,
+): Promise<JsonRpcResponse> {
+	return new Promise((resolve, reject) => {
+		batcher.queue.push({ ...call, resolve, reject });
+
+		if (batcher.queue.length >= batcher.batchSize) {
+			void flushRpcQueue.call(this, batcher);
+		} else if (!batcher.scheduled) {
+			batcher.scheduled = true;
+			setImmediate(() => {
+				batcher.scheduled = false;
+				void flushRpcQueue.call(this, batcher);
+			});
+		}
 	});
+}
 
-	const jsonRpcResponse = response as JsonRpcResponse;
+async function flushRpcQueue(this: IExecuteFunctions, batcher: RpcBatcher): Promise<void> {
+	const calls = batcher.queue.splice(0, batcher.batchSize);
+	if (calls.length === 0) return;
 
-	if (jsonRpcResponse.error) {
-		throw new NodeApiError(this.getNode(), {
-			message: jsonRpcResponse.error.message,
-			description: `JSON-RPC Error (${jsonRpcResponse.error.code}): ${JSON.stringify(jsonRpcResponse.error.data || '')}`,
+	try {
+		const responses = await postRpcBatch.call(this, calls);
+		responses.forEach((res, index) => {
+			if (res.error) {
+				calls[index].reject(rpcError(this.getNode(), res.error));
+			} else {
+				calls[index].resolve(res);
+			}
 		});
+	} catch (error) {
+		for (const call of calls) call.reject(error);
 	}
+}
 
-	return jsonRpcResponse.result;
+export function getScanRateLimit(credentials: CronosCredentials): number {
+	if (credentials.cronosScanTier === 'custom') {
+		return Math.max(Number(credentials.cronosScanRateLimit) || 1, 0.1);
+	}
+	return CRONOSCAN_TIER_RATE_LIMITS[credentials.cronosScanTier || 'free'];
+}
+
+/**
+ * Wait for a token from the explorer rate limiter of the credentials' API key.
+ * Tokens are reserved up front, so concurrent callers queue up in order.
+ */
+async function takeScanToken(credentials: CronosCredentials): Promise<void> {
+	const key = getScanApiKey(credentials) || getScanApiUrl(credentials);
+	const rate = getScanRateLimit(credentials);
+	let bucket = scanRateLimiters.get(key);
+	if (!bucket || bucket.capacity !== rate) {
+		bucket = { capacity: rate, tokensPerMs: rate / 1000, tokens: rate, updatedAt: Date.now() };
+		scanRateLimiters.set(key, bucket);
+	}
+
+	const now = Date.now();
+	const refill = (now - bucket.updatedAt) * bucket.tokensPerMs;
+	bucket.tokens = Math.min(bucket.capacity, bucket.tokens + refill);
+	bucket.updatedAt = now;
+	bucket.tokens -= 1;
+
+	if (bucket.tokens < 0) {
+		await sleep(-bucket.tokens / bucket.tokensPerMs);
+	}
 }
 
+// Exponential backoff with jitter: a random delay between half and all of the step
+function retryDelay(attempt: number): number {
+	const step = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+	return step / 2 + Math.random() * (step / 2);
+}
+
+// The explorer reports rate limiting as a NOTOK response, e.g. "Max rate limit reached"
+function isScanRateLimited(response: ScanResponse): boolean {
+	const result = typeof response.result === 'string' ? response.result : '';
+	return response.status === '0' && /rate limit/i.test(`${response.message} ${result}`);
+}
+
+/**
+ * Call the explorer API and return the `result` of its response. Requests are
+ * paced by a token bucket matched to the API key's tier, and rate-limit
+ * responses, timeouts, 429 and 5xx errors are retried with jittered
+ * exponential backoff.
+ */
 export async function cronosScanRequest(
-	this: IExecuteFunctions,
+	this: IExecuteFunctions | ILoadOptionsFunctions,
 	module: string,
 	action: string,
 	params: IDataObject = {},
+	method: IHttpRequestMethods = 'GET',
+	options: ScanRequestOptions = {},
 ): Promise<unknown> {
+	return (await cronosScanResponse.call(this, module, action, params, method, options)).result;
+}
+
+/**
+ * Call the explorer API like `cronosScanRequest`, but return the whole
+ * response with its `status` and `message`
+ */
+export async function cronosScanResponse(
+	this: IExecuteFunctions | ILoadOptionsFunctions,
+	module: string,
+	action: string,
+	params: IDataObject = {},
+	method: IHttpRequestMethods = 'GET',
+	options: ScanRequestOptions = {},
+): Promise<ScanResponse> {
 	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
 	const apiUrl = getScanApiUrl(credentials);
+	const maxRetries =
+		options.maxRetries ?? credentials.cronosScanMaxRetries ?? DEFAULT_CRONOSCAN_MAX_RETRIES;
 
-	const queryParams: IDataObject = {
-		module,
-		action,
-		...params,
-	};
+	const queryParams: IDataObject = { module, action };
 
-	if (credentials.cronosScanApiKey) {
-		queryParams.apikey = credentials.cronosScanApiKey;
+	const apiKey = getScanApiKey(credentials);
+	if (apiKey) {
+		queryParams.apikey = apiKey;
 	}
 
-	const response = await this.helpers.httpRequest({
-		method: 'GET' as IHttpRequestMethods,
-		url: apiUrl,
-		qs: queryParams,
-		json: true,
-	});
+	for (let attempt = 0; ; attempt++) {
+		await takeScanToken(credentials);
 
-	const scanResponse = response as { status: string; message: string; result: unknown };
+		let scanResponse: ScanResponse;
+		try {
+			// POST actions (e.g. source verification) carry their payload as a form body
+			scanResponse = await this.helpers.httpRequest(
+				method === 'GET'
+					? {
+							method,
+							url: apiUrl,
+							qs: { ...queryParams, ...params },
+							json: true,
+						}
+					: {
+							method,
+							url: apiUrl,
+							qs: queryParams,
+							headers: {
+								'Content-Type': 'application/x-www-form-urlencoded',
+							},
+							body: params,
+							json: true,
+						},
+			);
+		} catch (error) {
+			if (attempt >= maxRetries || !isTransientError(error)) {
+				throw requestError(this.getNode(), error, ExplorerError);
+			}
+			await sleep(retryDelay(attempt));
+			continue;
+		}
 
-	if (scanResponse.status === '0' && scanResponse.message !== 'No transactions found') {
-		throw new NodeApiError(this.getNode(), {
-			message: scanResponse.message,
-			description: `Cronos Scan API Error: ${JSON.stringify(scanResponse.result)}`,
-		});
+		const rateLimited = isScanRateLimited(scanResponse);
+		if (rateLimited && attempt < maxRetries) {
+			await sleep(retryDelay(attempt));
+			continue;
+		}
+
+		if (scanResponse.status === '0' && scanResponse.message !== 'No transactions found') {
+			const description = `Cronos Scan API Error: ${JSON.stringify(scanResponse.result)}`;
+			throw rateLimited
+				? new RateLimitedError(this.getNode(), scanResponse.message, description)
+				: new ExplorerError(this.getNode(), scanResponse.message, description);
+		}
+
+		return scanResponse;
 	}
+}
 
-	return scanResponse.result;
+/**
+ * Fetch all records of a block-ranged explorer list action (txlist, tokentx,
+ * ...) page by page. Once the explorer's 10,000 result window is used up, the
+ * block range is moved to the last block received and records of that block
+ * that were already returned are skipped.
+ */
+export async function cronosScanRequestAll(
+	this: IExecuteFunctions,
+	module: string,
+	action: string,
+	params: IDataObject,
+	options: ScanPaginationOptions = {},
+): Promise<IDataObject[]> {
+	const limit = options.limit ?? Infinity;
+	const pageSize = options.filter
+		? CRONOSCAN_PAGE_SIZE
+		: Math.max(1, Math.min(CRONOSCAN_PAGE_SIZE, limit));
+	const descending = params.sort === 'desc';
+	const range = {
+		startblock: Number(params.startblock ?? 0),
+		endblock: Number(params.endblock ?? 99999999),
+	};
+	const records: IDataObject[] = [];
+	const seen = new Set<string>();
+
+	for (;;) {
+		let lastBlock = 0;
+
+		for (let page = 1; page * pageSize <= CRONOSCAN_RESULT_WINDOW; page++) {
+			const result = await cronosScanRequest.call(this, module, action, {
+				...params,
+				...range,
+				page,
+				offset: pageSize,
+			});
+			const batch = (Array.isArray(result) ? result : []) as IDataObject[];
+
+			for (const record of batch) {
+				const key = JSON.stringify(record);
+				if (seen.has(key)) continue;
+				seen.add(key);
+
+				if (options.filter && !options.filter(record)) continue;
+				records.push(record);
+				if (records.length >= limit) return records;
+			}
+
+			if (batch.length < pageSize) return records;
+			lastBlock = Number(batch[batch.length - 1].blockNumber);
+		}
+
+		const boundary = descending ? 'endblock' : 'startblock';
+		if (range[boundary] === lastBlock) {
+			throw new ExplorerError(
+				this.getNode(),
+				`Block ${lastBlock} has more than ${CRONOSCAN_RESULT_WINDOW} records`,
+				'The explorer cannot page through a single block beyond its result window',
+			);
+		}
+		range[boundary] = lastBlock;
+	}
 }
 
+/**
+ * Run calls as JSON-RPC batches, using the configured batch size when request
+ * batching is enabled. Results are returned in call order.
+ */
 export async function batchJsonRpcRequest(
 	this: IExecuteFunctions,
-	requests: Array<{ method: string; params: unknown[] }>,
+	requests: RpcCall[],
 ): Promise<unknown[]> {
+	const batchSize = rpcBatchers.get(this)?.batchSize ?? DEFAULT_RPC_BATCH_SIZE;
+	const results: unknown[] = [];
+
+	for (let start = 0; start < requests.length; start += batchSize) {
+		const responses = await postRpcBatch.call(this, requests.slice(start, start + batchSize));
+		for (const res of responses) {
+			if (res.error) {
+				throw rpcError(this.getNode(), res.error);
+			}
+			results.push(res.result);
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Whether a multicall result succeeded and returned data; calls to addresses
+ * without code succeed with empty return data
+ */
+export function hasReturnData(result: MulticallResult | undefined): result is MulticallResult {
+	return !!result && result.success && result.returnData !== '0x';
+}
+
+/**
+ * Run many read-only calls in a single eth_call through Multicall3's
+ * `aggregate3`. Calls that revert come back with `success: false` rather than
+ * failing the batch, unless `allowFailure` is set to false for them.
+ */
+export async function aggregate3(
+	this: IExecuteFunctions,
+	calls: MulticallCall[],
+	blockTag = 'latest',
+): Promise<MulticallResult[]> {
 	const credentials = (await this.getCredentials('cronosApi')) as unknown as CronosCredentials;
-	const rpcUrl = getRpcUrl(credentials);
+	const multicallAddress = getMulticallAddress(credentials);
+	const results: MulticallResult[] = [];
 
-	const batchBody = requests.map((req, index) => ({
-		jsonrpc: '2.0',
-		method: req.method,
-		params: req.params,
-		id: index + 1,
-	}));
+	for (let start = 0; start < calls.length; start += MULTICALL_BATCH_SIZE) {
+		const batch = calls.slice(start, start + MULTICALL_BATCH_SIZE);
+		const data = encodeFunctionData('aggregate3((address,bool,bytes)[])', [
+			batch.map((call) => [call.target, call.allowFailure !== false, call.callData]),
+		]);
 
-	const response = await this.helpers.httpRequest({
-		method: 'POST' as IHttpRequestMethods,
-		url: rpcUrl,
-		headers: {
-			'Content-Type': 'application/json',
-		},
-		body: batchBody,
-		json: true,
-	});
+		const response = (await jsonRpcRequest.call(this, 'eth_call', [
+			{ to: multicallAddress, data },
+			blockTag,
+		])) as string;
 
-	const responses = response as JsonRpcResponse[];
+		if (!response || response === '0x') {
+			throw new InvalidInputError(
+				this.getNode(),
+				`No Multicall3 contract found at ${multicallAddress}`,
+				'Set the Multicall Address in the Cronos API credentials',
+			);
+		}
 
-	return responses.map((res) => {
-		if (res.error) {
-			throw new NodeApiError(this.getNode(), {
-				message: res.error.message,
-				description: `JSON-RPC Error (${res.error.code})`,
-			});
+		const [decoded] = decodeParameters(['(bool,bytes)[]'], response) as Array<
+			Array<[boolean, string]>
+		>;
+		for (const [success, returnData] of decoded) {
+			results.push({ success, returnData });
 		}
-		return res.result;
-	});
+	}
+
+	return results;
 }
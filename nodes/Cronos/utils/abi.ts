@@ -0,0 +1,768 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { isValidAddress, toChecksumAddress } from './address';
+import { keccak256Bytes } from './keccak';
+
+/**
+ * Contract ABI encoding and decoding following the Solidity ABI specification:
+ * static and dynamic types, fixed and dynamic arrays, and tuples.
+ */
+
+export interface AbiParameter {
+	name?: string;
+	type: string;
+	indexed?: boolean;
+	components?: AbiParameter[];
+}
+
+export interface AbiFragment {
+	type: string;
+	name?: string;
+	inputs?: AbiParameter[];
+	outputs?: AbiParameter[];
+	anonymous?: boolean;
+	stateMutability?: string;
+}
+
+export interface DecodedFunctionCall {
+	name: string;
+	signature: string;
+	selector: string;
+	args: Record<string, unknown>;
+}
+
+export interface DecodedEventLog {
+	name: string;
+	signature: string;
+	topic: string;
+	args: Record<string, unknown>;
+}
+
+export interface DecodedRevert {
+	kind: 'error' | 'panic' | 'custom' | 'unknown';
+	reason: string;
+	signature?: string;
+	args?: Record<string, unknown>;
+	panicCode?: string;
+	data: string;
+}
+
+const WORD_BITS = 256;
+const TWO_256 = BigInt(2) ** BigInt(WORD_BITS);
+
+/**
+ * Split a comma-separated parameter list, ignoring commas inside tuples
+ */
+function splitParameters(list: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let current = '';
+
+	for (const char of list) {
+		if (char === '(') depth++;
+		if (char === ')') depth--;
+		if (char === ',' && depth === 0) {
+			parts.push(current.trim());
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+	if (current.trim()) parts.push(current.trim());
+
+	return parts;
+}
+
+function closingParen(text: string, open: number): number {
+	let depth = 0;
+	for (let i = open; i < text.length; i++) {
+		if (text[i] === '(') depth++;
+		if (text[i] === ')') depth--;
+		if (depth === 0) return i;
+	}
+	throw new Error(`Unbalanced parentheses in: ${text}`);
+}
+
+/**
+ * Parse a parameter declaration such as `uint amount`, `address indexed from`
+ * or `(uint256 id, address owner)[] orders` into an ABI parameter
+ */
+export function parseParameter(declaration: string): AbiParameter {
+	const text = declaration.trim().replace(/^tuple\s*(?=\()/, '');
+
+	if (text.startsWith('(')) {
+		const end = closingParen(text, 0);
+		const rest = text.slice(end + 1).trim();
+		const [, suffix = '', modifiers = ''] = rest.match(/^((?:\[\d*\])*)\s*(.*)$/) || [];
+		return withModifiers(
+			{
+				type: `tuple${suffix}`,
+				components: splitParameters(text.slice(1, end)).map(parseParameter),
+			},
+			modifiers,
+		);
+	}
+
+	const [type, ...modifiers] = text.split(/\s+/);
+	return withModifiers({ type: type.replace(/^(u?int)(?=\[|$)/, '$1256') }, modifiers.join(' '));
+}
+
+function withModifiers(parameter: AbiParameter, modifiers: string): AbiParameter {
+	const words = modifiers.split(/\s+/).filter((word) => word);
+	if (words.includes('indexed')) parameter.indexed = true;
+	const name = words.filter((word) => !['indexed', 'memory', 'calldata', 'storage'].includes(word));
+	if (name.length) parameter.name = name[name.length - 1];
+	return parameter;
+}
+
+/**
+ * Parse a human-readable signature, e.g. `function transfer(address to, uint amount)`,
+ * into its name and input parameters
+ */
+export function parseAbiSignature(signature: string): { name: string; inputs: AbiParameter[] } {
+	const text = signature.trim().replace(/^(function|event|error)\s+/, '');
+	const match = text.match(/^([A-Za-z_$][A-Za-z0-9_$]*)\s*\(/);
+
+	if (!match) {
+		throw new Error(`Invalid signature: ${signature}`);
+	}
+
+	// Anything after the parameter list (e.g. "returns (uint256)") is ignored
+	const open = match[0].length - 1;
+	const end = closingParen(text, open);
+
+	return {
+		name: match[1],
+		inputs: splitParameters(text.slice(open + 1, end)).map(parseParameter),
+	};
+}
+
+/**
+ * Canonical type string of a parameter, as used in signatures
+ */
+export function formatParameterType(parameter: AbiParameter): string {
+	if (parameter.type.startsWith('tuple')) {
+		const components = (parameter.components || []).map(formatParameterType).join(',');
+		return `(${components})${parameter.type.slice(5)}`;
+	}
+	return parameter.type.replace(/^(u?int)(?=\[|$)/, '$1256');
+}
+
+function arrayInfo(type: string): { element: string; length: number | null } | null {
+	const match = type.match(/^(.*)\[(\d*)\]$/);
+	if (!match) return null;
+	return { element: match[1], length: match[2] === '' ? null : parseInt(match[2], 10) };
+}
+
+/**
+ * Whether a parameter is encoded in the tail (dynamic) rather than in place
+ */
+export function isDynamic(parameter: AbiParameter): boolean {
+	const array = arrayInfo(parameter.type);
+	if (array) {
+		return array.length === null || isDynamic({ ...parameter, type: array.element });
+	}
+	if (parameter.type === 'string' || parameter.type === 'bytes') return true;
+	if (parameter.type === 'tuple') return (parameter.components || []).some(isDynamic);
+	return false;
+}
+
+function word(value: bigint): string {
+	return value.toString(16).padStart(64, '0');
+}
+
+function hexData(value: unknown, label: string): string {
+	if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+		throw new Error(`Invalid ${label} value: expected 0x-prefixed hex, got ${JSON.stringify(value)}`);
+	}
+	return value.slice(2).toLowerCase();
+}
+
+function padRight(hex: string): string {
+	return hex.padEnd(Math.ceil(hex.length / 64) * 64, '0');
+}
+
+function toBigInt(value: unknown, type: string): bigint {
+	if (typeof value === 'bigint') return value;
+	if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+	if (typeof value === 'string' && /^-?(0x[0-9a-fA-F]+|\d+)$/.test(value.trim())) {
+		const text = value.trim();
+		return text.startsWith('-') ? -BigInt(text.slice(1)) : BigInt(text);
+	}
+	throw new Error(`Invalid ${type} value: ${JSON.stringify(value)}`);
+}
+
+function encodeElements(parameters: AbiParameter[], values: unknown[]): string {
+	let head = '';
+	let tail = '';
+	const headSize = parameters.reduce(
+		(size, parameter) => size + (isDynamic(parameter) ? 32 : staticSize(parameter)),
+		0,
+	);
+
+	parameters.forEach((parameter, i) => {
+		const encoded = encodeValue(parameter, values[i]);
+		if (isDynamic(parameter)) {
+			head += word(BigInt(headSize + tail.length / 2));
+			tail += encoded;
+		} else {
+			head += encoded;
+		}
+	});
+
+	return head + tail;
+}
+
+function staticSize(parameter: AbiParameter): number {
+	const array = arrayInfo(parameter.type);
+	if (array && array.length !== null) {
+		return array.length * staticSize({ ...parameter, type: array.element });
+	}
+	if (parameter.type === 'tuple') {
+		return (parameter.components || []).reduce((size, component) => size + staticSize(component), 0);
+	}
+	return 32;
+}
+
+function tupleValues(parameter: AbiParameter, value: unknown): unknown[] {
+	const components = parameter.components || [];
+	if (Array.isArray(value)) {
+		if (value.length !== components.length) {
+			throw new Error(`Tuple expects ${components.length} values, got ${value.length}`);
+		}
+		return value;
+	}
+	if (value && typeof value === 'object') {
+		return components.map((component, i) => {
+			const key = component.name || String(i);
+			if (!(key in (value as Record<string, unknown>))) {
+				throw new Error(`Missing tuple field "${key}"`);
+			}
+			return (value as Record<string, unknown>)[key];
+		});
+	}
+	throw new Error(`Invalid tuple value: ${JSON.stringify(value)}`);
+}
+
+function encodeValue(parameter: AbiParameter, value: unknown): string {
+	const { type } = parameter;
+	const array = arrayInfo(type);
+
+	if (array) {
+		if (!Array.isArray(value)) {
+			throw new Error(`Invalid ${type} value: expected an array`);
+		}
+		if (array.length !== null && value.length !== array.length) {
+			throw new Error(`Invalid ${type} value: expected ${array.length} elements, got ${value.length}`);
+		}
+		const element = { ...parameter, type: array.element };
+		const encoded = encodeElements(
+			value.map(() => element),
+			value,
+		);
+		return array.length === null ? word(BigInt(value.length)) + encoded : encoded;
+	}
+
+	if (type === 'tuple') {
+		return encodeElements(parameter.components || [], tupleValues(parameter, value));
+	}
+
+	if (type === 'address') {
+		if (typeof value !== 'string' || !isValidAddress(value)) {
+			throw new Error(`Invalid address value: ${JSON.stringify(value)}`);
+		}
+		return value.slice(2).toLowerCase().padStart(64, '0');
+	}
+
+	if (type === 'bool') {
+		if (value === true || value === 'true' || value === 1 || value === '1') return word(BigInt(1));
+		if (value === false || value === 'false' || value === 0 || value === '0') return word(BigInt(0));
+		throw new Error(`Invalid bool value: ${JSON.stringify(value)}`);
+	}
+
+	if (type === 'string') {
+		const hex = Buffer.from(String(value), 'utf8').toString('hex');
+		return word(BigInt(hex.length / 2)) + padRight(hex);
+	}
+
+	if (type === 'bytes') {
+		const hex = hexData(value, type);
+		return word(BigInt(hex.length / 2)) + padRight(hex);
+	}
+
+	const fixedBytes = type.match(/^bytes(\d+)$/);
+	if (fixedBytes) {
+		const size = parseInt(fixedBytes[1], 10);
+		const hex = hexData(value, type);
+		if (size < 1 || size > 32 || hex.length !== size * 2) {
+			throw new Error(`Invalid ${type} value: expected ${size} bytes`);
+		}
+		return hex.padEnd(64, '0');
+	}
+
+	const integer = type.match(/^(u?)int(\d*)$/);
+	if (integer) {
+		const unsigned = integer[1] === 'u';
+		const bits = integer[2] ? parseInt(integer[2], 10) : WORD_BITS;
+		if (bits < 8 || bits > WORD_BITS || bits % 8 !== 0) {
+			throw new Error(`Unsupported type: ${type}`);
+		}
+		const number = toBigInt(value, type);
+		const limit = BigInt(2) ** BigInt(unsigned ? bits : bits - 1);
+		const min = unsigned ? BigInt(0) : -limit;
+		const max = limit - BigInt(1);
+		if (number < min || number > max) {
+			throw new Error(`Value ${number} is out of range for ${type}`);
+		}
+		// Negative values use two's complement over the full word
+		return word(number < BigInt(0) ? TWO_256 + number : number);
+	}
+
+	throw new Error(`Unsupported type: ${type}`);
+}
+
+/**
+ * ABI-encode values for a list of parameters (or canonical type strings)
+ */
+export function encodeParameters(
+	parameters: Array<AbiParameter | string>,
+	values: unknown[],
+): string {
+	const resolved = parameters.map((parameter) =>
+		typeof parameter === 'string' ? parseParameter(parameter) : parameter,
+	);
+	if (resolved.length !== values.length) {
+		throw new Error(`Expected ${resolved.length} parameters, got ${values.length}`);
+	}
+	return '0x' + encodeElements(resolved, values);
+}
+
+/**
+ * Order values given as a JSON array, or as an object keyed by input name,
+ * to match a function's inputs
+ */
+export function orderArguments(inputs: AbiParameter[], args: unknown): unknown[] {
+	if (Array.isArray(args)) {
+		return args;
+	}
+	if (args && typeof args === 'object') {
+		return inputs.map((input, i) => {
+			const key = input.name || String(i);
+			if (!(key in (args as Record<string, unknown>))) {
+				throw new Error(`Missing parameter "${key}"`);
+			}
+			return (args as Record<string, unknown>)[key];
+		});
+	}
+	throw new Error('Parameters must be a JSON array or an object keyed by parameter name');
+}
+
+/**
+ * Parse a human-readable fragment such as
+ * `function balanceOf(address owner) view returns (uint256)` or
+ * `event Transfer(address indexed from, address indexed to, uint256 value)`
+ */
+export function parseAbiFragment(signature: string): AbiFragment {
+	const text = signature.trim();
+	const keyword = text.match(/^(function|event|error|constructor)\b/);
+	const type = keyword ? keyword[1] : 'function';
+
+	if (type === 'constructor') {
+		const open = text.indexOf('(');
+		const end = closingParen(text, open);
+		return { type, inputs: splitParameters(text.slice(open + 1, end)).map(parseParameter) };
+	}
+
+	const { name, inputs } = parseAbiSignature(text);
+	const fragment: AbiFragment = { type, name, inputs };
+
+	const returns = text.match(/\breturns\s*\(/);
+	if (returns && returns.index !== undefined) {
+		const open = returns.index + returns[0].length - 1;
+		fragment.outputs = splitParameters(text.slice(open + 1, closingParen(text, open))).map(
+			parseParameter,
+		);
+	} else if (type === 'function') {
+		fragment.outputs = [];
+	}
+	if (type === 'function') {
+		const modifiers = text.slice(closingParen(text, text.indexOf('('))).split(/\breturns\b/)[0];
+		const mutability = modifiers.match(/\b(view|pure|payable|nonpayable)\b/);
+		fragment.stateMutability = mutability ? mutability[1] : 'nonpayable';
+	}
+	if (type === 'event' && /\)\s*anonymous\s*$/.test(text)) {
+		fragment.anonymous = true;
+	}
+
+	return fragment;
+}
+
+/**
+ * Normalise an ABI given as a JSON string, a JSON fragment or array, or one or
+ * more human-readable signatures into a list of fragments
+ */
+export function parseAbi(abi: unknown): AbiFragment[] {
+	if (typeof abi === 'string') {
+		const text = abi.trim();
+		if (text.startsWith('[') || text.startsWith('{')) {
+			try {
+				return parseAbi(JSON.parse(text));
+			} catch (error) {
+				if (error instanceof SyntaxError) {
+					throw new Error('Invalid ABI JSON format');
+				}
+				throw error;
+			}
+		}
+		return text
+			.split(/\n|;/)
+			.map((line) => line.trim())
+			.filter((line) => line)
+			.map(parseAbiFragment);
+	}
+	if (Array.isArray(abi)) {
+		return abi.flatMap((item) => parseAbi(item));
+	}
+	if (abi && typeof abi === 'object' && typeof (abi as AbiFragment).type === 'string') {
+		return [abi as AbiFragment];
+	}
+	if (abi && typeof abi === 'object' && Array.isArray((abi as { abi?: unknown }).abi)) {
+		// Hardhat and Truffle artifacts
+		return parseAbi((abi as { abi: unknown }).abi);
+	}
+	throw new Error('Invalid ABI: expected a JSON ABI or human-readable signatures');
+}
+
+/**
+ * Canonical signature of a fragment, e.g. `transfer(address,uint256)`
+ */
+export function formatFragmentSignature(fragment: AbiFragment): string {
+	return `${fragment.name || ''}(${(fragment.inputs || []).map(formatParameterType).join(',')})`;
+}
+
+/**
+ * Keccak-256 of a fragment's canonical signature: the event topic, or the
+ * function selector in its first four bytes
+ */
+export function fragmentHash(fragment: AbiFragment): string {
+	const hash = keccak256Bytes(
+		new Uint8Array(Buffer.from(formatFragmentSignature(fragment), 'utf8')),
+	);
+	return '0x' + Buffer.from(hash).toString('hex');
+}
+
+/**
+ * Find a function, event or error by name or canonical signature
+ */
+export function findFragment(abi: AbiFragment[], type: string, nameOrSignature: string): AbiFragment {
+	const key = nameOrSignature.trim();
+	const candidates = abi.filter((fragment) => fragment.type === type);
+	const signature = key.includes('(')
+		? formatFragmentSignature({ type, ...parseAbiSignature(key) })
+		: null;
+	const matches = candidates.filter((fragment) =>
+		signature ? formatFragmentSignature(fragment) === signature : fragment.name === key,
+	);
+
+	if (matches.length === 0) {
+		throw new Error(`No ${type} "${key}" in the ABI`);
+	}
+	if (matches.length > 1) {
+		throw new Error(
+			`"${key}" is ambiguous, use the full signature: ${matches
+				.map(formatFragmentSignature)
+				.join(', ')}`,
+		);
+	}
+	return matches[0];
+}
+
+function strip(data: string): string {
+	const hex = data.startsWith('0x') ? data.slice(2) : data;
+	if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+		throw new Error(`Invalid hex data: ${data}`);
+	}
+	return hex.toLowerCase();
+}
+
+// Offsets are byte positions within the hex string (without 0x prefix)
+function readWord(data: string, offset: number): string {
+	if ((offset + 32) * 2 > data.length) {
+		throw new Error(`Data too short: cannot read 32 bytes at offset ${offset}`);
+	}
+	return data.slice(offset * 2, (offset + 32) * 2);
+}
+
+function readSize(data: string, offset: number): number {
+	const value = BigInt('0x' + readWord(data, offset));
+	if (value > BigInt(data.length / 2)) {
+		throw new Error(`Invalid offset or length ${value} at offset ${offset}`);
+	}
+	return Number(value);
+}
+
+function readBytes(data: string, offset: number, length: number): string {
+	if ((offset + length) * 2 > data.length) {
+		throw new Error(`Data too short: cannot read ${length} bytes at offset ${offset}`);
+	}
+	return data.slice(offset * 2, (offset + length) * 2);
+}
+
+function decodeElements(parameters: AbiParameter[], data: string, base: number): unknown[] {
+	let position = base;
+	return parameters.map((parameter) => {
+		let value: unknown;
+		if (isDynamic(parameter)) {
+			value = decodeValue(parameter, data, base + readSize(data, position));
+			position += 32;
+		} else {
+			value = decodeValue(parameter, data, position);
+			position += staticSize(parameter);
+		}
+		return value;
+	});
+}
+
+/**
+ * Key decoded values by parameter name, falling back to the position for
+ * unnamed parameters
+ */
+export function namedValues(parameters: AbiParameter[], values: unknown[]): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	parameters.forEach((parameter, i) => {
+		result[parameter.name || String(i)] = values[i];
+	});
+	return result;
+}
+
+function decodeValue(parameter: AbiParameter, data: string, offset: number): unknown {
+	const { type } = parameter;
+	const array = arrayInfo(type);
+
+	if (array) {
+		const element = { ...parameter, type: array.element };
+		if (array.length === null) {
+			const length = readSize(data, offset);
+			return decodeElements(new Array(length).fill(element), data, offset + 32);
+		}
+		return decodeElements(new Array(array.length).fill(element), data, offset);
+	}
+
+	if (type === 'tuple') {
+		const components = parameter.components || [];
+		const values = decodeElements(components, data, offset);
+		// Named tuples decode to objects, anonymous ones to arrays
+		return components.length > 0 && components.every((component) => component.name)
+			? namedValues(components, values)
+			: values;
+	}
+
+	if (type === 'string' || type === 'bytes') {
+		const length = readSize(data, offset);
+		const hex = readBytes(data, offset + 32, length);
+		return type === 'string' ? Buffer.from(hex, 'hex').toString('utf8') : '0x' + hex;
+	}
+
+	const value = readWord(data, offset);
+
+	if (type === 'address') {
+		return toChecksumAddress('0x' + value.slice(24));
+	}
+
+	if (type === 'bool') {
+		return BigInt('0x' + value) !== BigInt(0);
+	}
+
+	const fixedBytes = type.match(/^bytes(\d+)$/);
+	if (fixedBytes) {
+		return '0x' + value.slice(0, parseInt(fixedBytes[1], 10) * 2);
+	}
+
+	const integer = type.match(/^(u?)int(\d*)$/);
+	if (integer) {
+		const number = BigInt('0x' + value);
+		// Signed values are sign-extended to the full word
+		if (integer[1] !== 'u' && number >= TWO_256 / BigInt(2)) {
+			return (number - TWO_256).toString();
+		}
+		return number.toString();
+	}
+
+	throw new Error(`Unsupported type: ${type}`);
+}
+
+/**
+ * ABI-decode data for a list of parameters (or canonical type strings).
+ * Integers are returned as decimal strings and tuples with named components
+ * as objects.
+ */
+export function decodeParameters(parameters: Array<AbiParameter | string>, data: string): unknown[] {
+	const resolved = parameters.map((parameter) =>
+		typeof parameter === 'string' ? parseParameter(parameter) : parameter,
+	);
+	return decodeElements(resolved, strip(data), 0);
+}
+
+/**
+ * Decode the return data of a function call into its named outputs
+ */
+export function decodeFunctionResult(fragment: AbiFragment, data: string): Record<string, unknown> {
+	const outputs = fragment.outputs || [];
+	return namedValues(outputs, decodeParameters(outputs, data));
+}
+
+/**
+ * Decode transaction input (selector followed by arguments) by matching the
+ * selector against the functions of an ABI
+ */
+export function decodeFunctionData(abi: AbiFragment[], data: string): DecodedFunctionCall {
+	const hex = strip(data);
+	if (hex.length < 8) {
+		throw new Error('Call data is shorter than a function selector');
+	}
+	const selector = '0x' + hex.slice(0, 8);
+	const fragment = abi.find(
+		(item) => item.type === 'function' && fragmentHash(item).slice(0, 10) === selector,
+	);
+	if (!fragment) {
+		throw new Error(`No function with selector ${selector} in the ABI`);
+	}
+	const inputs = fragment.inputs || [];
+	return {
+		name: fragment.name || '',
+		signature: formatFragmentSignature(fragment),
+		selector,
+		args: namedValues(inputs, decodeParameters(inputs, hex.slice(8))),
+	};
+}
+
+/**
+ * Decode an event log by matching its first topic against the events of an
+ * ABI. Indexed dynamic values (strings, bytes, arrays, tuples) are only
+ * available as their Keccak-256 hash and are returned as such.
+ */
+export function decodeEventLog(
+	abi: AbiFragment[],
+	log: { topics: string[]; data: string },
+): DecodedEventLog {
+	const [topic, ...indexedTopics] = (log.topics || []).map((value) => value.toLowerCase());
+	const candidates = abi.filter(
+		(item) => item.type === 'event' && !item.anonymous && fragmentHash(item) === topic,
+	);
+	// ERC-20 and ERC-721 Transfer share a topic but differ in indexed inputs
+	const fragment = candidates.find(
+		(item) => (item.inputs || []).filter((input) => input.indexed).length === indexedTopics.length,
+	);
+	if (!fragment) {
+		throw new Error(
+			candidates.length
+				? `Event ${formatFragmentSignature(candidates[0])} does not match ${indexedTopics.length} indexed topics`
+				: `No event with topic ${topic} in the ABI`,
+		);
+	}
+
+	const inputs = fragment.inputs || [];
+	const indexed = inputs.filter((input) => input.indexed);
+	const unindexed = inputs.filter((input) => !input.indexed);
+
+	const dataValues = decodeParameters(unindexed, log.data || '0x');
+	const values = inputs.map((input) => {
+		if (!input.indexed) {
+			return dataValues[unindexed.indexOf(input)];
+		}
+		const value = indexedTopics[indexed.indexOf(input)];
+		return isDynamic(input) || input.type === 'tuple' || arrayInfo(input.type)
+			? value
+			: decodeParameters([input], value)[0];
+	});
+
+	return {
+		name: fragment.name || '',
+		signature: formatFragmentSignature(fragment),
+		topic,
+		args: namedValues(inputs, values),
+	};
+}
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+// Solidity panic codes, see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_REASONS: Record<number, string> = {
+	0x00: 'generic compiler panic',
+	0x01: 'assertion failed',
+	0x11: 'arithmetic overflow or underflow',
+	0x12: 'division or modulo by zero',
+	0x21: 'invalid enum value',
+	0x22: 'invalid storage byte array encoding',
+	0x31: 'pop on an empty array',
+	0x32: 'array index out of bounds',
+	0x41: 'out of memory',
+	0x51: 'call to an uninitialised function',
+};
+
+function formatArgument(value: unknown): string {
+	return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Decode the return data of a reverted call: `Error(string)` from require and
+ * revert, `Panic(uint256)` from failed assertions and checked arithmetic, or a
+ * custom error declared in the given ABI
+ */
+export function decodeRevertData(data: string, abi: AbiFragment[] = []): DecodedRevert {
+	const hex = /^0x([0-9a-fA-F]{2})*$/.test(data || '') ? data.toLowerCase() : '0x';
+	const selector = hex.slice(0, 10);
+	const payload = '0x' + hex.slice(10);
+
+	if (hex === '0x') {
+		return { kind: 'unknown', reason: 'reverted without a reason', data: hex };
+	}
+
+	try {
+		if (selector === ERROR_SELECTOR) {
+			const [reason] = decodeParameters(['string'], payload) as string[];
+			return { kind: 'error', reason, signature: 'Error(string)', data: hex };
+		}
+
+		if (selector === PANIC_SELECTOR) {
+			const [code] = decodeParameters(['uint256'], payload) as string[];
+			const panicCode = '0x' + BigInt(code).toString(16).padStart(2, '0');
+			const description = PANIC_REASONS[Number(code)] || 'unknown panic code';
+			return {
+				kind: 'panic',
+				reason: `panic ${panicCode} (${description})`,
+				signature: 'Panic(uint256)',
+				panicCode,
+				data: hex,
+			};
+		}
+
+		const fragment = abi.find(
+			(item) => item.type === 'error' && fragmentHash(item).slice(0, 10) === selector,
+		);
+		if (fragment) {
+			const inputs = fragment.inputs || [];
+			const args = namedValues(inputs, decodeParameters(inputs, payload));
+			const formatted = Object.entries(args)
+				.map(([name, value]) => `${name}: ${formatArgument(value)}`)
+				.join(', ');
+			return {
+				kind: 'custom',
+				reason: `${fragment.name}(${formatted})`,
+				signature: formatFragmentSignature(fragment),
+				args,
+				data: hex,
+			};
+		}
+	} catch {
+		// Malformed payloads fall through to the raw selector below
+	}
+
+	return { kind: 'unknown', reason: `custom error ${selector}`, data: hex };
+}
@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { keccak256Bytes } from './keccak';
+
+/**
+ * Account addresses and their EIP-55 mixed-case checksum encoding.
+ */
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * EIP-55 checksum form of an address. Throws for malformed addresses and for
+ * mixed-case input whose checksum does not match.
+ */
+export function toChecksumAddress(address: string): string {
+	if (typeof address !== 'string' || !ADDRESS_PATTERN.test(address)) {
+		throw new Error(`Invalid address: ${JSON.stringify(address)}`);
+	}
+
+	const lower = address.slice(2).toLowerCase();
+	const hash = keccak256Bytes(new Uint8Array(Buffer.from(lower, 'ascii')));
+	let checksummed = '0x';
+	for (let i = 0; i < lower.length; i++) {
+		// Uppercase a letter when the matching nibble of the hash is 8 or more
+		const nibble = (hash[i >> 1] >> (i % 2 ? 0 : 4)) & 0x0f;
+		checksummed += nibble >= 8 ? lower[i].toUpperCase() : lower[i];
+	}
+
+	const body = address.slice(2);
+	const mixedCase = body !== body.toLowerCase() && body !== body.toUpperCase();
+	if (mixedCase && checksummed !== address) {
+		throw new Error(`Invalid address checksum: ${address}`);
+	}
+	return checksummed;
+}
+
+/**
+ * Validate an address: 20 hex bytes, with a correct checksum if mixed-case.
+ * All-lowercase and all-uppercase addresses carry no checksum and are accepted.
+ */
+export function isValidAddress(address: string): boolean {
+	try {
+		toChecksumAddress(address);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Whether two addresses are the same account, ignoring case
+ */
+export function isSameAddress(a: string, b: string): boolean {
+	return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Entry of a table keyed by address, such as KNOWN_TOKENS, ignoring the case
+ * of both the keys and the address looked up
+ */
+export function lookupAddress<T>(table: Record<string, T>, address: string): T | undefined {
+	const key = Object.keys(table).find((candidate) => isSameAddress(candidate, address));
+	return key === undefined ? undefined : table[key];
+}
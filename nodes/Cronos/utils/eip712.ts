@@ -0,0 +1,170 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { encodeParameters } from './abi';
+import { keccak256 } from './index';
+
+/**
+ * EIP-712 hashing of typed structured data, as signed by eth_signTypedData_v4.
+ */
+
+export interface TypedDataField {
+	name: string;
+	type: string;
+}
+
+export interface TypedData {
+	types: Record<string, TypedDataField[]>;
+	primaryType?: string;
+	domain: Record<string, unknown>;
+	message: Record<string, unknown>;
+}
+
+// Domain fields in their canonical order, used when `types` leaves out EIP712Domain
+const DOMAIN_FIELDS: TypedDataField[] = [
+	{ name: 'name', type: 'string' },
+	{ name: 'version', type: 'string' },
+	{ name: 'chainId', type: 'uint256' },
+	{ name: 'verifyingContract', type: 'address' },
+	{ name: 'salt', type: 'bytes32' },
+];
+
+function baseType(type: string): string {
+	return type.replace(/(\[\d*\])+$/, '');
+}
+
+function collectDependencies(
+	types: Record<string, TypedDataField[]>,
+	type: string,
+	found: Set<string>,
+): Set<string> {
+	const name = baseType(type);
+	if (found.has(name) || !types[name]) return found;
+	found.add(name);
+	for (const field of types[name]) {
+		collectDependencies(types, field.type, found);
+	}
+	return found;
+}
+
+/**
+ * Type string of a struct, e.g. `Mail(Person from,Person to,string contents)Person(...)`,
+ * with referenced struct types appended in alphabetical order
+ */
+export function encodeType(types: Record<string, TypedDataField[]>, primaryType: string): string {
+	const dependencies = Array.from(collectDependencies(types, primaryType, new Set()));
+	return [primaryType, ...dependencies.filter((name) => name !== primaryType).sort()]
+		.map((name) => {
+			const fields = types[name].map((field) => `${field.type} ${field.name}`);
+			return `${name}(${fields.join(',')})`;
+		})
+		.join('');
+}
+
+function encodeField(
+	types: Record<string, TypedDataField[]>,
+	type: string,
+	value: unknown,
+): string {
+	const array = type.match(/^(.*)\[(\d*)\]$/);
+	if (array) {
+		if (!Array.isArray(value)) {
+			throw new Error(`Invalid ${type} value: expected an array`);
+		}
+		if (array[2] && value.length !== parseInt(array[2], 10)) {
+			throw new Error(
+				`Invalid ${type} value: expected ${array[2]} elements, got ${value.length}`,
+			);
+		}
+		return keccak256(
+			'0x' + value.map((element) => encodeField(types, array[1], element)).join(''),
+		).slice(2);
+	}
+
+	if (types[type]) {
+		return hashStruct(types, type, value as Record<string, unknown>);
+	}
+
+	// Dynamic values are represented by their hash
+	if (type === 'string') {
+		return keccak256(new Uint8Array(Buffer.from(String(value), 'utf8'))).slice(2);
+	}
+	if (type === 'bytes') {
+		if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+			throw new Error(`Invalid bytes value: ${JSON.stringify(value)}`);
+		}
+		return keccak256(value).slice(2);
+	}
+
+	return encodeParameters([type], [value]).slice(2);
+}
+
+/**
+ * Hash of a struct value: keccak256(typeHash || encoded fields)
+ */
+export function hashStruct(
+	types: Record<string, TypedDataField[]>,
+	primaryType: string,
+	data: Record<string, unknown>,
+): string {
+	if (!data || typeof data !== 'object') {
+		throw new Error(`Invalid ${primaryType} value: expected an object`);
+	}
+	const typeHash = keccak256(
+		new Uint8Array(Buffer.from(encodeType(types, primaryType), 'utf8')),
+	).slice(2);
+	const fields = types[primaryType].map((field) => {
+		if (data[field.name] === undefined) {
+			throw new Error(`Missing value for ${primaryType}.${field.name}`);
+		}
+		return encodeField(types, field.type, data[field.name]);
+	});
+	return keccak256('0x' + typeHash + fields.join('')).slice(2);
+}
+
+/**
+ * The struct type being signed: `primaryType` if given, otherwise the only
+ * type that no other type references
+ */
+export function getPrimaryType(typedData: TypedData): string {
+	if (typedData.primaryType) {
+		if (!typedData.types[typedData.primaryType]) {
+			throw new Error(`Primary type ${typedData.primaryType} is not defined in types`);
+		}
+		return typedData.primaryType;
+	}
+
+	const names = Object.keys(typedData.types).filter((name) => name !== 'EIP712Domain');
+	const referenced = new Set(
+		names.flatMap((name) => typedData.types[name].map((field) => baseType(field.type))),
+	);
+	const roots = names.filter((name) => !referenced.has(name));
+	if (roots.length !== 1) {
+		throw new Error('Cannot infer the primary type; set primaryType');
+	}
+	return roots[0];
+}
+
+/**
+ * EIP-712 digest to sign: keccak256("\x19\x01" || domainSeparator || hashStruct(message))
+ */
+export function hashTypedData(typedData: TypedData): string {
+	if (!typedData || typeof typedData !== 'object' || !typedData.types || !typedData.message) {
+		throw new Error('Typed data must have types, domain and message');
+	}
+
+	const domain = typedData.domain || {};
+	const types = {
+		...typedData.types,
+		EIP712Domain:
+			typedData.types.EIP712Domain ||
+			DOMAIN_FIELDS.filter((field) => domain[field.name] !== undefined),
+	};
+	const domainSeparator = hashStruct(types, 'EIP712Domain', domain);
+	const message = hashStruct(types, getPrimaryType(typedData), typedData.message);
+	return keccak256('0x1901' + domainSeparator + message);
+}
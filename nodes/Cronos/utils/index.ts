@@ -6,6 +6,51 @@
  */
 
 import { CRO_DECIMALS } from '../constants';
+import {
+	decodeParameters,
+	encodeParameters,
+	formatParameterType,
+	orderArguments,
+	parseAbiSignature,
+} from './abi';
+import type { AbiParameter } from './abi';
+import { isValidAddress, toChecksumAddress } from './address';
+import { keccak256Bytes } from './keccak';
+import { getPublicKey, recoverPublicKey, sign } from './secp256k1';
+import type { Signature } from './secp256k1';
+
+export {
+	decodeEventLog,
+	decodeFunctionData,
+	decodeFunctionResult,
+	decodeParameters,
+	decodeRevertData,
+	encodeParameters,
+	findFragment,
+	formatFragmentSignature,
+	formatParameterType,
+	fragmentHash,
+	isDynamic,
+	namedValues,
+	orderArguments,
+	parseAbi,
+	parseAbiFragment,
+	parseAbiSignature,
+	parseParameter,
+} from './abi';
+export type {
+	AbiFragment,
+	AbiParameter,
+	DecodedEventLog,
+	DecodedFunctionCall,
+	DecodedRevert,
+} from './abi';
+export { isSameAddress, isValidAddress, lookupAddress, toChecksumAddress } from './address';
+export { encodeType, getPrimaryType, hashStruct, hashTypedData } from './eip712';
+export type { TypedData, TypedDataField } from './eip712';
+export { rlpDecode, rlpEncode } from './rlp';
+export type { RlpDecoded, RlpInput } from './rlp';
+export type { Signature } from './secp256k1';
 
 /**
  * Convert Wei to CRO (or any 18 decimal token)
@@ -75,22 +120,7 @@ export function encodeFunctionCall(
 	functionSignature: string,
 	params: Array<{ type: string; value: string | number | bigint }>,
 ): string {
-	let data = functionSignature;
-
-	for (const param of params) {
-		if (param.type === 'address') {
-			data += padAddress(param.value.toString()).slice(2);
-		} else if (param.type === 'uint256' || param.type === 'uint' || param.type === 'int256') {
-			data += padNumber(param.value).slice(2);
-		} else if (param.type === 'bool') {
-			data += padNumber(param.value ? 1 : 0).slice(2);
-		} else if (param.type === 'bytes32') {
-			const hexValue = param.value.toString().replace('0x', '');
-			data += hexValue.padEnd(64, '0');
-		}
-	}
-
-	return data;
+	return encodeFunctionData(functionSignature, params);
 }
 
 /**
@@ -102,35 +132,35 @@ export function decodeUint256(hex: string): string {
 }
 
 /**
- * Decode address from 32-byte hex
+ * Checksum form of an address; other values, such as the null `to` of a
+ * contract creation, pass through unchanged
+ */
+export function formatAddress<T>(address: T): T | string {
+	return typeof address === 'string' && isValidAddress(address)
+		? toChecksumAddress(address)
+		: address;
+}
+
+/**
+ * Decode address from 32-byte hex, in checksum form
  */
 export function decodeAddress(hex: string): string {
 	if (!hex || hex === '0x') return '0x0000000000000000000000000000000000000000';
 	const cleanHex = hex.replace('0x', '');
-	return '0x' + cleanHex.slice(-40).toLowerCase();
+	return toChecksumAddress('0x' + cleanHex.slice(-40).padStart(40, '0'));
 }
 
 /**
- * Decode string from hex (basic implementation)
+ * Decode a string from hex: an ABI-encoded `string` return value, or a
+ * zero-padded `bytes32` as returned by some older tokens
  */
 export function decodeString(hex: string): string {
 	if (!hex || hex === '0x') return '';
-	const cleanHex = hex.replace('0x', '');
-	let result = '';
-	for (let i = 0; i < cleanHex.length; i += 2) {
-		const charCode = parseInt(cleanHex.substr(i, 2), 16);
-		if (charCode > 0 && charCode < 128) {
-			result += String.fromCharCode(charCode);
-		}
+	const cleanHex = hex.replace(/^0x/, '');
+	if (cleanHex.length >= 128 && BigInt('0x' + cleanHex.slice(0, 64)) === BigInt(32)) {
+		return decodeParameters(['string'], cleanHex)[0] as string;
 	}
-	return result.replace(/\0/g, '').trim();
-}
-
-/**
- * Validate Ethereum address
- */
-export function isValidAddress(address: string): boolean {
-	return /^0x[a-fA-F0-9]{40}$/.test(address);
+	return Buffer.from(cleanHex.replace(/(00)+$/, ''), 'hex').toString('utf8');
 }
 
 /**
@@ -184,38 +214,268 @@ export function calculateTxFee(gasUsed: string, gasPrice: string): string {
 }
 
 /**
- * Keccak256 hash (simplified for function signatures)
+ * Convert a hex string to bytes
+ */
+export function hexToBytes(hex: string): Uint8Array {
+	const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+	if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+		throw new Error(`Invalid hex string: ${hex}`);
+	}
+	const bytes = new Uint8Array(clean.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+}
+
+/**
+ * Convert bytes to a 0x-prefixed hex string
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+	let hex = '0x';
+	for (const byte of bytes) {
+		hex += byte.toString(16).padStart(2, '0');
+	}
+	return hex;
+}
+
+/**
+ * Keccak-256 hash of bytes or a 0x-prefixed hex string
+ */
+export function keccak256(data: Uint8Array | string): string {
+	return bytesToHex(keccak256Bytes(typeof data === 'string' ? hexToBytes(data) : data));
+}
+
+/**
+ * Parse a human-readable signature such as `transfer(address to, uint amount)`
+ * or `event Transfer(address indexed from, address indexed to, uint256 value)`
+ */
+export function parseSignature(signature: string): { name: string; types: string[] } {
+	const { name, inputs } = parseAbiSignature(signature);
+	return { name, types: inputs.map(formatParameterType) };
+}
+
+/**
+ * Canonical form of a signature, as used for hashing
+ */
+export function normalizeSignature(signature: string): string {
+	const { name, types } = parseSignature(signature);
+	return `${name}(${types.join(',')})`;
+}
+
+/**
+ * Keccak-256 hash of a human-readable function or event signature
  */
 export function keccak256Signature(signature: string): string {
-	// This is a placeholder - in real implementation would use proper keccak256
-	// For function signatures, we typically use the first 4 bytes of keccak256 hash
-	// The actual signatures are pre-computed in constants
-	return signature;
+	return keccak256(new Uint8Array(Buffer.from(normalizeSignature(signature), 'utf8')));
 }
 
 /**
- * Parse log data to extract values
+ * 4-byte function selector for a signature, e.g. `transfer(address,uint256)` -> `0xa9059cbb`
  */
-export function parseLogData(data: string, types: string[]): string[] {
-	if (!data || data === '0x') return [];
-	const cleanData = data.replace('0x', '');
-	const values: string[] = [];
-
-	for (let i = 0; i < types.length; i++) {
-		const chunk = cleanData.slice(i * 64, (i + 1) * 64);
-		if (!chunk) break;
-
-		const type = types[i];
-		if (type === 'address') {
-			values.push(decodeAddress('0x' + chunk));
-		} else if (type.startsWith('uint') || type.startsWith('int')) {
-			values.push(decodeUint256('0x' + chunk));
-		} else {
-			values.push('0x' + chunk);
-		}
+export function getFunctionSelector(signature: string): string {
+	return keccak256Signature(signature).slice(0, 10);
+}
+
+/**
+ * 32-byte event topic for a signature
+ */
+export function getEventTopic(signature: string): string {
+	return keccak256Signature(signature);
+}
+
+/**
+ * Accept either a function signature or an already computed 4-byte selector
+ */
+export function resolveFunctionSelector(signatureOrSelector: string): string {
+	const value = signatureOrSelector.trim();
+	if (/^0x[0-9a-fA-F]{8}$/.test(value)) {
+		return value.toLowerCase();
+	}
+	return getFunctionSelector(value);
+}
+
+/**
+ * Accept either an event signature or an already computed 32-byte topic
+ */
+export function resolveEventTopic(signatureOrTopic: string): string {
+	const value = signatureOrTopic.trim();
+	if (/^0x[0-9a-fA-F]{64}$/.test(value)) {
+		return value.toLowerCase();
+	}
+	return getEventTopic(value);
+}
+
+/**
+ * Minimal big-endian bytes for an integer quantity (zero encodes as empty bytes)
+ */
+export function quantityToBytes(value: string | number | bigint): Uint8Array {
+	const quantity = BigInt(value);
+	if (quantity < BigInt(0)) {
+		throw new Error(`Negative quantity: ${value}`);
+	}
+	if (quantity === BigInt(0)) {
+		return new Uint8Array(0);
+	}
+	const hex = quantity.toString(16);
+	return hexToBytes(hex.length % 2 ? '0' + hex : hex);
+}
+
+/**
+ * Parse a hex private key (with or without 0x prefix) into bytes
+ */
+export function parsePrivateKey(privateKey: string): Uint8Array {
+	const clean = privateKey.trim().replace(/^0x/, '');
+	if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+		throw new Error('Invalid private key: expected 32 bytes of hex');
+	}
+	return hexToBytes(clean);
+}
+
+function publicKeyToAddress(publicKey: Uint8Array): string {
+	return toChecksumAddress('0x' + keccak256(publicKey.slice(1)).slice(-40));
+}
+
+/**
+ * Derive the account address for a private key
+ */
+export function privateKeyToAddress(privateKey: string): string {
+	return publicKeyToAddress(getPublicKey(parsePrivateKey(privateKey)));
+}
+
+/**
+ * Sign a 32-byte hash with a hex private key
+ */
+export function signHash(hash: string, privateKey: string): Signature {
+	return sign(hexToBytes(hash), parsePrivateKey(privateKey));
+}
+
+/**
+ * Recover the address that signed a 32-byte hash
+ */
+export function recoverAddress(hash: string, signature: Signature): string {
+	return publicKeyToAddress(recoverPublicKey(hexToBytes(hash), signature));
+}
+
+/**
+ * EIP-191 hash of a personal_sign message: the UTF-8 text prefixed with
+ * "\x19Ethereum Signed Message:\n" and its length in bytes
+ */
+export function hashMessage(message: string): string {
+	const bytes = Buffer.from(message, 'utf8');
+	const prefix = Buffer.from(`\x19Ethereum Signed Message:\n${bytes.length}`, 'utf8');
+	return keccak256(new Uint8Array(Buffer.concat([prefix, bytes])));
+}
+
+/**
+ * Serialize a signature as 65 bytes of hex: r, s and v (27 or 28)
+ */
+export function joinSignature(signature: Signature): string {
+	return (
+		'0x' +
+		signature.r.toString(16).padStart(64, '0') +
+		signature.s.toString(16).padStart(64, '0') +
+		(27 + signature.recovery).toString(16)
+	);
+}
+
+/**
+ * Parse a 65-byte signature (v as 0/1 or 27/28) or a 64-byte EIP-2098
+ * compact signature, which carries the recovery bit in the top bit of s
+ */
+export function splitSignature(signature: string): Signature {
+	const clean = signature.trim().replace(/^0x/, '');
+	if (!/^[0-9a-fA-F]+$/.test(clean) || (clean.length !== 130 && clean.length !== 128)) {
+		throw new Error('Invalid signature: expected 65 bytes of hex');
+	}
+
+	const r = BigInt('0x' + clean.slice(0, 64));
+	if (clean.length === 128) {
+		const yParityAndS = BigInt('0x' + clean.slice(64));
+		const highBit = BigInt(1) << BigInt(255);
+		return {
+			r,
+			s: yParityAndS & (highBit - BigInt(1)),
+			recovery: yParityAndS >= highBit ? 1 : 0,
+		};
+	}
+
+	const v = parseInt(clean.slice(128), 16);
+	if (v !== 0 && v !== 1 && v !== 27 && v !== 28) {
+		throw new Error(`Invalid signature: unexpected v value ${v}`);
+	}
+	return { r, s: BigInt('0x' + clean.slice(64, 128)), recovery: v % 27 };
+}
+
+/**
+ * Parse call arguments given as a JSON string; other values pass through
+ */
+export function parseArguments(args: unknown): unknown {
+	if (typeof args !== 'string') {
+		return args;
+	}
+	try {
+		return JSON.parse(args || '[]');
+	} catch {
+		throw new Error('Invalid parameters JSON format');
+	}
+}
+
+function isTypedValueList(args: unknown, inputs: AbiParameter[] | null): args is Array<{ type: string; value: unknown }> {
+	return (
+		Array.isArray(args) &&
+		args.length > 0 &&
+		args.every(
+			(arg) =>
+				arg !== null &&
+				typeof arg === 'object' &&
+				!Array.isArray(arg) &&
+				Object.keys(arg).sort().join() === 'type,value',
+		) &&
+		(!inputs || inputs.every((input) => !input.type.startsWith('tuple')))
+	);
+}
+
+/**
+ * ABI-encode arguments for the given inputs. Arguments are a JSON array, or an
+ * object keyed by input name; a list of `{ "type", "value" }` objects carries
+ * its own types and also works without known inputs.
+ */
+export function encodeArguments(inputs: AbiParameter[] | null, args: unknown): string {
+	const parsed = parseArguments(args);
+
+	if (isTypedValueList(parsed, inputs)) {
+		return encodeParameters(
+			parsed.map((arg) => arg.type),
+			parsed.map((arg) => arg.value),
+		);
+	}
+	if (!inputs) {
+		if (Array.isArray(parsed) && parsed.length === 0) return '0x';
+		throw new Error(
+			'Parameter types are unknown: use a full signature such as transfer(address,uint256) or [{ "type", "value" }] parameters',
+		);
 	}
+	return encodeParameters(inputs, orderArguments(inputs, parsed));
+}
+
+/**
+ * Call data for a function signature (or bare 4-byte selector) and its arguments
+ */
+export function encodeFunctionData(signature: string, args: unknown = []): string {
+	const selector = resolveFunctionSelector(signature);
+	const inputs = signature.includes('(') ? parseAbiSignature(signature).inputs : null;
+	return selector + encodeArguments(inputs, args).slice(2);
+}
 
-	return values;
+/**
+ * Decode the non-indexed values of a log; arrays and tuples are returned as JSON
+ */
+export function parseLogData(data: string, types: string[]): string[] {
+	if (!data || data === '0x') return [];
+	return decodeParameters(types, data).map((value) =>
+		typeof value === 'string' ? value : JSON.stringify(value),
+	);
 }
 
 /**
@@ -233,3 +493,95 @@ export function truncateAddress(address: string): string {
 	if (!address) return '';
 	return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
+
+/**
+ * How Simplify normalizes a scalar RPC or explorer result
+ */
+export type PayloadKind = 'quantity' | 'wei' | 'data';
+
+// JSON-RPC fields holding hex quantities
+const QUANTITY_FIELDS = new Set([
+	'baseFeePerGas',
+	'blockNumber',
+	'chainId',
+	'cumulativeGasUsed',
+	'currentBlock',
+	'difficulty',
+	'effectiveGasPrice',
+	'gas',
+	'gasLimit',
+	'gasPrice',
+	'gasUsed',
+	'highestBlock',
+	'logIndex',
+	'maxFeePerGas',
+	'maxPriorityFeePerGas',
+	'nonce',
+	'number',
+	'size',
+	'startingBlock',
+	'status',
+	'totalDifficulty',
+	'transactionIndex',
+	'type',
+	'v',
+]);
+
+// Fields holding account or contract addresses
+const ADDRESS_FIELDS = new Set(['address', 'contractAddress', 'from', 'miner', 'to']);
+
+// Fields holding CRO amounts in wei, as hex (JSON-RPC) or decimal (explorer)
+const WEI_FIELDS = new Set(['balance', 'blockReward', 'uncleInclusionReward', 'value']);
+
+function toDecimal(value: unknown): unknown {
+	return typeof value === 'string' && /^0x[0-9a-fA-F]+$/.test(value) ? hexToDecimal(value) : value;
+}
+
+function toCro(value: unknown, decimals: number = CRO_DECIMALS): unknown {
+	const amount = toDecimal(value);
+	return typeof amount === 'string' && /^\d+$/.test(amount) ? weiToCro(amount, decimals) : value;
+}
+
+function toIsoDate(value: unknown): unknown {
+	const seconds = toDecimal(value);
+	return typeof seconds === 'string' && /^\d+$/.test(seconds)
+		? new Date(Number(seconds) * 1000).toISOString()
+		: value;
+}
+
+/**
+ * Normalize an RPC or explorer payload: hex quantities become decimal strings,
+ * wei amounts CRO (token transfer amounts are scaled by their `tokenDecimal`),
+ * addresses checksummed and Unix timestamps ISO 8601 dates, with the
+ * explorer's `timeStamp` renamed to `timestamp`. Scalar payloads are converted according to `kind`.
+ */
+export function simplifyPayload(payload: unknown, kind: PayloadKind = 'data'): unknown {
+	if (Array.isArray(payload)) {
+		return payload.map((entry) => simplifyPayload(entry));
+	}
+
+	if (typeof payload === 'object' && payload !== null) {
+		const record = payload as Record<string, unknown>;
+		const simplified: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(record)) {
+			if (key === 'timestamp' || key === 'timeStamp' || key.endsWith('_timestamp')) {
+				simplified[key === 'timeStamp' ? 'timestamp' : key] = toIsoDate(value);
+			} else if (key === 'value' && record.tokenDecimal !== undefined) {
+				simplified[key] = toCro(value, Number(record.tokenDecimal));
+			} else if (WEI_FIELDS.has(key)) {
+				simplified[key] = toCro(value);
+			} else if (QUANTITY_FIELDS.has(key)) {
+				simplified[key] = toDecimal(value);
+			} else if (ADDRESS_FIELDS.has(key)) {
+				simplified[key] = formatAddress(value);
+			} else {
+				simplified[key] = simplifyPayload(value);
+			}
+		}
+		return simplified;
+	}
+
+	if (kind === 'quantity') return toDecimal(payload);
+	if (kind === 'wei') return toCro(payload);
+	return payload;
+}
@@ -0,0 +1,150 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Dependency-free Keccak-256 (the pre-NIST padding used by Ethereum, not SHA3-256).
+ *
+ * The 1600-bit state is held as 25 64-bit lanes, each split into a high and a
+ * low 32-bit word so that the permutation only needs 32-bit integer maths.
+ */
+
+const RATE_BYTES = 136;
+
+// Round constants as [high, low] 32-bit words
+const ROUND_CONSTANTS: Array<[number, number]> = [
+	[0x00000000, 0x00000001],
+	[0x00000000, 0x00008082],
+	[0x80000000, 0x0000808a],
+	[0x80000000, 0x80008000],
+	[0x00000000, 0x0000808b],
+	[0x00000000, 0x80000001],
+	[0x80000000, 0x80008081],
+	[0x80000000, 0x00008009],
+	[0x00000000, 0x0000008a],
+	[0x00000000, 0x00000088],
+	[0x00000000, 0x80008009],
+	[0x00000000, 0x8000000a],
+	[0x00000000, 0x8000808b],
+	[0x80000000, 0x0000008b],
+	[0x80000000, 0x00008089],
+	[0x80000000, 0x00008003],
+	[0x80000000, 0x00008002],
+	[0x80000000, 0x00000080],
+	[0x00000000, 0x0000800a],
+	[0x80000000, 0x8000000a],
+	[0x80000000, 0x80008081],
+	[0x80000000, 0x00008080],
+	[0x00000000, 0x80000001],
+	[0x80000000, 0x80008008],
+];
+
+// Rotation offsets indexed by lane (x + 5 * y)
+const ROTATIONS = [
+	0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14,
+];
+
+function rotateHigh(high: number, low: number, n: number): number {
+	if (n === 0) return high;
+	if (n === 32) return low;
+	if (n < 32) return (high << n) | (low >>> (32 - n));
+	return (low << (n - 32)) | (high >>> (64 - n));
+}
+
+function rotateLow(high: number, low: number, n: number): number {
+	if (n === 0) return low;
+	if (n === 32) return high;
+	if (n < 32) return (low << n) | (high >>> (32 - n));
+	return (high << (n - 32)) | (low >>> (64 - n));
+}
+
+function keccakF(hi: Int32Array, lo: Int32Array): void {
+	const cHi = new Int32Array(5);
+	const cLo = new Int32Array(5);
+	const bHi = new Int32Array(25);
+	const bLo = new Int32Array(25);
+
+	for (let round = 0; round < 24; round++) {
+		// Theta
+		for (let x = 0; x < 5; x++) {
+			cHi[x] = hi[x] ^ hi[x + 5] ^ hi[x + 10] ^ hi[x + 15] ^ hi[x + 20];
+			cLo[x] = lo[x] ^ lo[x + 5] ^ lo[x + 10] ^ lo[x + 15] ^ lo[x + 20];
+		}
+		for (let x = 0; x < 5; x++) {
+			const prev = (x + 4) % 5;
+			const next = (x + 1) % 5;
+			const dHi = cHi[prev] ^ rotateHigh(cHi[next], cLo[next], 1);
+			const dLo = cLo[prev] ^ rotateLow(cHi[next], cLo[next], 1);
+			for (let y = 0; y < 25; y += 5) {
+				hi[x + y] ^= dHi;
+				lo[x + y] ^= dLo;
+			}
+		}
+
+		// Rho and Pi
+		for (let x = 0; x < 5; x++) {
+			for (let y = 0; y < 5; y++) {
+				const from = x + 5 * y;
+				const to = y + 5 * ((2 * x + 3 * y) % 5);
+				bHi[to] = rotateHigh(hi[from], lo[from], ROTATIONS[from]);
+				bLo[to] = rotateLow(hi[from], lo[from], ROTATIONS[from]);
+			}
+		}
+
+		// Chi
+		for (let y = 0; y < 25; y += 5) {
+			for (let x = 0; x < 5; x++) {
+				const x1 = ((x + 1) % 5) + y;
+				const x2 = ((x + 2) % 5) + y;
+				hi[x + y] = bHi[x + y] ^ (~bHi[x1] & bHi[x2]);
+				lo[x + y] = bLo[x + y] ^ (~bLo[x1] & bLo[x2]);
+			}
+		}
+
+		// Iota
+		hi[0] ^= ROUND_CONSTANTS[round][0];
+		lo[0] ^= ROUND_CONSTANTS[round][1];
+	}
+}
+
+function readWord(block: Uint8Array, offset: number): number {
+	return (
+		block[offset] | (block[offset + 1] << 8) | (block[offset + 2] << 16) | (block[offset + 3] << 24)
+	);
+}
+
+/**
+ * Keccak-256 digest of raw bytes
+ */
+export function keccak256Bytes(data: Uint8Array): Uint8Array {
+	const hi = new Int32Array(25);
+	const lo = new Int32Array(25);
+
+	// Pad with 0x01 ... 0x80 up to a multiple of the rate
+	const paddedLength = (Math.floor(data.length / RATE_BYTES) + 1) * RATE_BYTES;
+	const padded = new Uint8Array(paddedLength);
+	padded.set(data);
+	padded[data.length] ^= 0x01;
+	padded[paddedLength - 1] ^= 0x80;
+
+	for (let offset = 0; offset < paddedLength; offset += RATE_BYTES) {
+		for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+			lo[lane] ^= readWord(padded, offset + lane * 8);
+			hi[lane] ^= readWord(padded, offset + lane * 8 + 4);
+		}
+		keccakF(hi, lo);
+	}
+
+	const digest = new Uint8Array(32);
+	for (let lane = 0; lane < 4; lane++) {
+		for (let byte = 0; byte < 4; byte++) {
+			digest[lane * 8 + byte] = (lo[lane] >>> (8 * byte)) & 0xff;
+			digest[lane * 8 + 4 + byte] = (hi[lane] >>> (8 * byte)) & 0xff;
+		}
+	}
+
+	return digest;
+}
@@ -0,0 +1,138 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Recursive Length Prefix serialisation, as used for Ethereum transactions.
+ */
+
+export type RlpInput = Uint8Array | RlpInput[];
+
+function encodeLength(length: number, offset: number): Uint8Array {
+	if (length < 56) {
+		return new Uint8Array([offset + length]);
+	}
+	let hex = length.toString(16);
+	if (hex.length % 2) hex = '0' + hex;
+	const lengthBytes = hex.length / 2;
+	const prefix = new Uint8Array(1 + lengthBytes);
+	prefix[0] = offset + 55 + lengthBytes;
+	for (let i = 0; i < lengthBytes; i++) {
+		prefix[i + 1] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	}
+	return prefix;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+	const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return result;
+}
+
+/**
+ * RLP-encode a byte string or a (nested) list of byte strings
+ */
+export function rlpEncode(input: RlpInput): Uint8Array {
+	if (Array.isArray(input)) {
+		const payload = concat(input.map(rlpEncode));
+		return concat([encodeLength(payload.length, 0xc0), payload]);
+	}
+	if (input.length === 1 && input[0] < 0x80) {
+		return input;
+	}
+	return concat([encodeLength(input.length, 0x80), input]);
+}
+
+export type RlpDecoded = Uint8Array | RlpDecoded[];
+
+function readLength(data: Uint8Array, offset: number, lengthBytes: number): number {
+	if (offset + lengthBytes > data.length) {
+		throw new Error('Invalid RLP: unexpected end of data');
+	}
+	if (data[offset] === 0) {
+		throw new Error('Invalid RLP: length with leading zero');
+	}
+	let length = 0;
+	for (let i = 0; i < lengthBytes; i++) {
+		length = length * 256 + data[offset + i];
+	}
+	if (length < 56) {
+		throw new Error('Invalid RLP: long form used for a short length');
+	}
+	return length;
+}
+
+// Decode the item at `offset`; returns it with the offset just past it
+function decodeItem(data: Uint8Array, offset: number): [RlpDecoded, number] {
+	if (offset >= data.length) {
+		throw new Error('Invalid RLP: unexpected end of data');
+	}
+	const prefix = data[offset];
+	let start: number;
+	let length: number;
+	let isList: boolean;
+
+	if (prefix < 0x80) {
+		return [data.slice(offset, offset + 1), offset + 1];
+	} else if (prefix < 0xb8) {
+		start = offset + 1;
+		length = prefix - 0x80;
+		isList = false;
+		if (length === 1 && data[start] < 0x80) {
+			throw new Error('Invalid RLP: single byte below 0x80 must not be prefixed');
+		}
+	} else if (prefix < 0xc0) {
+		const lengthBytes = prefix - 0xb7;
+		start = offset + 1 + lengthBytes;
+		length = readLength(data, offset + 1, lengthBytes);
+		isList = false;
+	} else if (prefix < 0xf8) {
+		start = offset + 1;
+		length = prefix - 0xc0;
+		isList = true;
+	} else {
+		const lengthBytes = prefix - 0xf7;
+		start = offset + 1 + lengthBytes;
+		length = readLength(data, offset + 1, lengthBytes);
+		isList = true;
+	}
+
+	const end = start + length;
+	if (end > data.length) {
+		throw new Error('Invalid RLP: unexpected end of data');
+	}
+	if (!isList) {
+		return [data.slice(start, end), end];
+	}
+
+	const items: RlpDecoded[] = [];
+	let position = start;
+	while (position < end) {
+		const [item, next] = decodeItem(data, position);
+		items.push(item);
+		position = next;
+	}
+	if (position !== end) {
+		throw new Error('Invalid RLP: list items overrun the list length');
+	}
+	return [items, end];
+}
+
+/**
+ * Decode RLP data into byte strings and (nested) lists of them. Data that is
+ * not canonically encoded, or has bytes after the first item, is rejected.
+ */
+export function rlpDecode(data: Uint8Array): RlpDecoded {
+	const [item, end] = decodeItem(data, 0);
+	if (end !== data.length) {
+		throw new Error('Invalid RLP: unexpected data after the first item');
+	}
+	return item;
+}
@@ -0,0 +1,247 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHmac } from 'crypto';
+
+/**
+ * Minimal secp256k1 for transaction signing: public key derivation,
+ * deterministic (RFC 6979) ECDSA signatures with a recovery id and public key
+ * recovery from such signatures.
+ */
+
+const P = BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f');
+const N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const GX = BigInt('0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798');
+const GY = BigInt('0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8');
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+const FOUR = BigInt(4);
+const EIGHT = BigInt(8);
+
+// Jacobian coordinates; z = 0 is the point at infinity
+type JacobianPoint = [bigint, bigint, bigint];
+
+export interface Signature {
+	r: bigint;
+	s: bigint;
+	recovery: number;
+}
+
+function mod(a: bigint, m: bigint = P): bigint {
+	const result = a % m;
+	return result >= ZERO ? result : result + m;
+}
+
+function invert(a: bigint, m: bigint = P): bigint {
+	let [low, high] = [mod(a, m), m];
+	let [lm, hm] = [ONE, ZERO];
+	while (low > ONE) {
+		const ratio = high / low;
+		[lm, hm] = [hm - lm * ratio, lm];
+		[low, high] = [high - low * ratio, low];
+	}
+	return mod(lm, m);
+}
+
+function power(base: bigint, exponent: bigint, m: bigint = P): bigint {
+	let result = ONE;
+	let b = mod(base, m);
+	let e = exponent;
+	while (e > ZERO) {
+		if (e & ONE) result = mod(result * b, m);
+		b = mod(b * b, m);
+		e >>= ONE;
+	}
+	return result;
+}
+
+function double([x, y, z]: JacobianPoint): JacobianPoint {
+	if (y === ZERO || z === ZERO) return [ZERO, ONE, ZERO];
+	const ysq = mod(y * y);
+	const s = mod(FOUR * x * ysq);
+	const m = mod(THREE * x * x);
+	const nx = mod(m * m - TWO * s);
+	const ny = mod(m * (s - nx) - EIGHT * ysq * ysq);
+	const nz = mod(TWO * y * z);
+	return [nx, ny, nz];
+}
+
+function add(p: JacobianPoint, q: JacobianPoint): JacobianPoint {
+	const [x1, y1, z1] = p;
+	const [x2, y2, z2] = q;
+	if (z1 === ZERO) return q;
+	if (z2 === ZERO) return p;
+
+	const z1z1 = mod(z1 * z1);
+	const z2z2 = mod(z2 * z2);
+	const u1 = mod(x1 * z2z2);
+	const u2 = mod(x2 * z1z1);
+	const s1 = mod(y1 * z2 * z2z2);
+	const s2 = mod(y2 * z1 * z1z1);
+
+	if (u1 === u2) {
+		return s1 === s2 ? double(p) : [ZERO, ONE, ZERO];
+	}
+
+	const h = mod(u2 - u1);
+	const r = mod(s2 - s1);
+	const h2 = mod(h * h);
+	const h3 = mod(h * h2);
+	const u1h2 = mod(u1 * h2);
+	const nx = mod(r * r - h3 - TWO * u1h2);
+	const ny = mod(r * (u1h2 - nx) - s1 * h3);
+	const nz = mod(h * z1 * z2);
+	return [nx, ny, nz];
+}
+
+function multiply(point: JacobianPoint, scalar: bigint): JacobianPoint {
+	let result: JacobianPoint = [ZERO, ONE, ZERO];
+	let addend = point;
+	let k = scalar;
+	while (k > ZERO) {
+		if (k & ONE) result = add(result, addend);
+		addend = double(addend);
+		k >>= ONE;
+	}
+	return result;
+}
+
+function toAffine([x, y, z]: JacobianPoint): [bigint, bigint] {
+	const zInv = invert(z);
+	const zInv2 = mod(zInv * zInv);
+	return [mod(x * zInv2), mod(y * zInv2 * zInv)];
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+	let hex = '';
+	for (const byte of bytes) hex += byte.toString(16).padStart(2, '0');
+	return hex ? BigInt('0x' + hex) : ZERO;
+}
+
+export function bigIntToBytes(value: bigint, length = 32): Uint8Array {
+	const hex = value.toString(16).padStart(length * 2, '0');
+	const bytes = new Uint8Array(length);
+	for (let i = 0; i < length; i++) {
+		bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+}
+
+function hmacSha256(key: Uint8Array, ...data: Uint8Array[]): Uint8Array {
+	const hmac = createHmac('sha256', key);
+	for (const chunk of data) hmac.update(chunk);
+	return new Uint8Array(hmac.digest());
+}
+
+function assertPrivateKey(privateKey: Uint8Array): bigint {
+	const d = bytesToBigInt(privateKey);
+	if (privateKey.length !== 32 || d <= ZERO || d >= N) {
+		throw new Error('Invalid private key: expected 32 bytes within the secp256k1 curve order');
+	}
+	return d;
+}
+
+/**
+ * Uncompressed public key (0x04 || x || y) for a 32-byte private key
+ */
+export function getPublicKey(privateKey: Uint8Array): Uint8Array {
+	const d = assertPrivateKey(privateKey);
+	const [x, y] = toAffine(multiply([GX, GY, ONE], d));
+	const publicKey = new Uint8Array(65);
+	publicKey[0] = 0x04;
+	publicKey.set(bigIntToBytes(x), 1);
+	publicKey.set(bigIntToBytes(y), 33);
+	return publicKey;
+}
+
+/**
+ * Sign a 32-byte message hash. The nonce is derived deterministically
+ * (RFC 6979) and `s` is normalised to the lower half of the curve order.
+ */
+export function sign(hash: Uint8Array, privateKey: Uint8Array): Signature {
+	const d = assertPrivateKey(privateKey);
+	const z = mod(bytesToBigInt(hash), N);
+	const x = bigIntToBytes(d);
+	const h1 = bigIntToBytes(z);
+
+	let v: Uint8Array = new Uint8Array(32).fill(0x01);
+	let k: Uint8Array = new Uint8Array(32).fill(0x00);
+	k = hmacSha256(k, v, new Uint8Array([0x00]), x, h1);
+	v = hmacSha256(k, v);
+	k = hmacSha256(k, v, new Uint8Array([0x01]), x, h1);
+	v = hmacSha256(k, v);
+
+	for (;;) {
+		v = hmacSha256(k, v);
+		const nonce = bytesToBigInt(v);
+
+		if (nonce > ZERO && nonce < N) {
+			const [rx, ry] = toAffine(multiply([GX, GY, ONE], nonce));
+			const r = mod(rx, N);
+			let s = mod(invert(nonce, N) * (z + r * d), N);
+
+			if (r !== ZERO && s !== ZERO) {
+				let recovery = (rx >= N ? 2 : 0) | Number(ry & ONE);
+				if (s > N / TWO) {
+					s = N - s;
+					recovery ^= 1;
+				}
+				return { r, s, recovery };
+			}
+		}
+
+		k = hmacSha256(k, v, new Uint8Array([0x00]));
+		v = hmacSha256(k, v);
+	}
+}
+
+/**
+ * Recover the uncompressed public key that produced `signature` over a 32-byte
+ * message hash
+ */
+export function recoverPublicKey(hash: Uint8Array, signature: Signature): Uint8Array {
+	const { r, s, recovery } = signature;
+	if (r <= ZERO || r >= N || s <= ZERO || s >= N || recovery < 0 || recovery > 3) {
+		throw new Error('Invalid signature: r, s or recovery id out of range');
+	}
+
+	// R is the point with x = r (+ N for recovery ids 2 and 3) and y of the
+	// recovery id's parity; P = 3 mod 4, so the square root is a power
+	const x = recovery & 2 ? r + N : r;
+	if (x >= P) {
+		throw new Error('Invalid signature: no curve point for r');
+	}
+	const ySquared = mod(x * x * x + BigInt(7));
+	let y = power(ySquared, (P + ONE) / FOUR);
+	if (mod(y * y) !== ySquared) {
+		throw new Error('Invalid signature: no curve point for r');
+	}
+	if (Number(y & ONE) !== (recovery & 1)) {
+		y = P - y;
+	}
+
+	// Q = r⁻¹ (sR - zG)
+	const z = mod(bytesToBigInt(hash), N);
+	const rInv = invert(r, N);
+	const point = add(
+		multiply([GX, GY, ONE], mod(-z * rInv, N)),
+		multiply([x, y, ONE], mod(s * rInv, N)),
+	);
+	if (point[2] === ZERO) {
+		throw new Error('Invalid signature: recovers to the point at infinity');
+	}
+
+	const [qx, qy] = toAffine(point);
+	const publicKey = new Uint8Array(65);
+	publicKey[0] = 0x04;
+	publicKey.set(bigIntToBytes(qx), 1);
+	publicKey.set(bigIntToBytes(qy), 33);
+	return publicKey;
+}